@@ -2,6 +2,8 @@ import { useEffect } from 'react';
 import { Layout } from './components/Layout';
 import { useFileSystemStore } from './store/fileSystemStore';
 import { useSyncStore } from './store/syncStore';
+import { syncProviders, withEncryption } from './lib/syncProviders';
+import { syncCrypto } from './lib/syncCrypto';
 import { Toaster, toast } from 'sonner';
 import { ConflictModal } from './components/ConflictModal';
 import { SessionExpiredDialog } from './components/SessionExpiredDialog';
@@ -101,32 +103,22 @@ function App() {
       const syncState = useSyncStore.getState();
 
       if (!syncState.isConfigured) {
-        console.error('❌ Not connected to Google Drive');
+        console.error('❌ Not connected to a sync provider');
         return;
       }
 
       console.log('📡 Fetching remote state...');
 
       try {
-        const rootId = syncState.rootFolderId;
-        const metaFile = await (window as any).gapi.client.drive.files.list({
-          q: `name='metadata.json' and '${rootId}' in parents and trashed=false`,
-          fields: 'files(id, name)'
-        });
+        const provider = withEncryption(syncProviders[syncState.providerId], await syncCrypto.loadKey());
+        const metaFile = await provider.findByName('metadata.json', syncState.rootFolderId!);
 
-        if (!metaFile.result.files || metaFile.result.files.length === 0) {
+        if (!metaFile) {
           console.log('📭 No remote data found');
           return;
         }
 
-        const remoteContentResponse = await (window as any).gapi.client.drive.files.get({
-          fileId: metaFile.result.files[0].id,
-          alt: 'media'
-        });
-
-        const remoteData = typeof remoteContentResponse.body === 'string'
-          ? JSON.parse(remoteContentResponse.body)
-          : remoteContentResponse.result;
+        const remoteData = JSON.parse(await provider.get(metaFile.id));
 
         console.log('\n📊 Remote State:');
         console.log(`  Notebooks: ${remoteData.notebooks?.length || 0}`);
@@ -177,31 +169,31 @@ function App() {
 
     (window as any).showConflicts = async (predictive = true) => {
       const syncState = useSyncStore.getState();
-      let conflicts = syncState.conflicts;
+      let conflicts: { localData: any, remoteData: any } | null = null;
+
+      // Shapes merged during the last syncs that still wait for the user's review
+      if (syncState.conflicts) {
+        console.log('\n⚔️ Shape conflicts pending review:');
+        syncState.conflicts.forEach(c => {
+          const page = useFileSystemStore.getState().pages[c.pageId];
+          console.log(`  - "${page?.name || c.pageId}": ${c.conflicts.length} shapes`);
+        });
+      }
 
-      if (!conflicts && predictive) {
-        console.log('🔮 Predicting Conflicts (Dry Run)...');
+      if (predictive) {
+        console.log('🔮 Predicting pages that need merging (Dry Run)...');
         // Fetch remote state similarly to showRemoteState
         if (!syncState.isConfigured) {
-          console.error('❌ Not connected to Google Drive');
+          console.error('❌ Not connected to a sync provider');
           return;
         }
 
         try {
-          const rootId = syncState.rootFolderId;
-          const metaFile = await (window as any).gapi.client.drive.files.list({
-            q: `name='metadata.json' and '${rootId}' in parents and trashed=false`,
-            fields: 'files(id)'
-          });
+          const provider = withEncryption(syncProviders[syncState.providerId], await syncCrypto.loadKey());
+          const metaFile = await provider.findByName('metadata.json', syncState.rootFolderId!);
 
-          if (metaFile.result.files?.length > 0) {
-            const remoteContentResponse = await (window as any).gapi.client.drive.files.get({
-              fileId: metaFile.result.files[0].id,
-              alt: 'media'
-            });
-            const remoteData = typeof remoteContentResponse.body === 'string'
-              ? JSON.parse(remoteContentResponse.body)
-              : remoteContentResponse.result;
+          if (metaFile) {
+            const remoteData = JSON.parse(await provider.get(metaFile.id));
 
             // Prepare Local Data for comparison
             const fsState = useFileSystemStore.getState();
@@ -220,12 +212,12 @@ function App() {
           console.error('Error fetching remote state for prediction:', e);
           return;
         }
-      } else if (!conflicts) {
+      } else if (!syncState.conflicts) {
         console.log('✅ No active conflicts. Run showConflicts(true) to predict.');
         return;
       }
 
-      if (!conflicts) return;
+      if (!conflicts) return syncState.conflicts;
 
       console.log('\n⚔️ Conflicts Report:');
 
@@ -321,7 +313,9 @@ function App() {
     const unsubscribe = useFileSystemStore.subscribe((state) => {
       const hasDirty = state.notebooks.some(n => n.dirty) ||
         Object.values(state.folders).some(f => f.dirty) ||
-        Object.values(state.pages).some(p => p.dirty);
+        Object.values(state.pages).some(p => p.dirty) ||
+        Object.values(state.tags).some(tag => tag.dirty) ||
+        Object.values(state.smartFolders).some(sf => sf.dirty);
 
       const activeChanged = state.activeStateUpdatedAt !== lastActiveUpdatedAt;
 
@@ -420,7 +414,9 @@ function App() {
 
       const hasDirty = fsState.notebooks.some(n => n.dirty) ||
         Object.values(fsState.folders).some((f: any) => f.dirty) ||
-        Object.values(fsState.pages).some((p: any) => p.dirty);
+        Object.values(fsState.pages).some((p: any) => p.dirty) ||
+        Object.values(fsState.tags).some(tag => tag.dirty) ||
+        Object.values(fsState.smartFolders).some(sf => sf.dirty);
 
       if (syncState.isEnabled && syncState.isConfigured && hasDirty) {
         // Standard way to trigger the "Leave site?" browser dialog
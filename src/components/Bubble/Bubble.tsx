@@ -11,7 +11,9 @@ import {
   DefaultDashStyle,
   DefaultFillStyle,
   GeoShapeGeoStyle,
+  createShapeId,
 } from 'tldraw';
+import type { TLDefaultColorStyle } from 'tldraw';
 import styles from './Bubble.module.css';
 import { useUserPreferencesStore } from '../../store/userPreferencesStore';
 import { useFileSystemStore } from '../../store/fileSystemStore';
@@ -28,6 +30,9 @@ import {
 
 // Extracted modules
 import { useDraggableWithBounds } from '../../hooks/useDraggableWithBounds';
+import { getCustomColorVariant, isCustomColor } from '../../lib/customColors';
+import { getFormatState, toggleBlockFormat, toggleInlineCode } from '../../lib/richTextFormat';
+import type { BlockFormat, FormatState } from '../../lib/richTextFormat';
 import { applyStyleToRichText, fontFamilies, fontSizes } from './utils';
 import {
   BubbleCollapsed,
@@ -36,6 +41,11 @@ import {
   BubbleStrokeSection,
   BubbleFillSection,
   BubbleToolbarSection,
+  BubbleLassoSection,
+  BubbleEraserSection,
+  BubbleHighlightSection,
+  BubbleMathSection,
+  BubbleNoteSection,
 } from './sections';
 
 interface BubbleProps {
@@ -101,6 +111,8 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   const {
     textColor, textSize, textFont, textAlign, textBold, textItalic, textUnderline, textStrike,
     drawColor, drawSize, drawOpacity, drawDash,
+    highlightColor, highlightSize,
+    noteColor,
     shapeColor, shapeSize, shapeOpacity, shapeDash, shapeFill, shapeFillColor, shapeFillOpacity,
     lastActiveTool,
     bubbleCollapsed,
@@ -112,7 +124,8 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
 
   const editingId = editor.getEditingShapeId();
   const editingShape = editingId ? editor.getShape(editingId) : null;
-  const isEditingRichText = editingShape?.type === 'rich-text';
+  // Sticky notes hold the same rich text as text boxes
+  const isEditingRichText = editingShape?.type === 'rich-text' || editingShape?.type === 'note';
 
   const selectedShapes = editor.getSelectedShapes();
   const isSelectTool = activeTool === 'select';
@@ -121,6 +134,9 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   const TEXT_TYPES = ['text', 'rich-text'];
   const SHAPE_TYPES = ['geo', 'arrow', 'line'];
   const DRAW_TYPES = ['draw'];
+  const HIGHLIGHT_TYPES = ['highlight'];
+  const MATH_TYPES = ['math'];
+  const NOTE_TYPES = ['note'];
 
   const allSelectedMatch = (types: string[]) =>
     selectedShapes.length > 0 && selectedShapes.every(s => types.includes(s.type));
@@ -128,6 +144,9 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   const isAllText = allSelectedMatch(TEXT_TYPES);
   const isAllShape = allSelectedMatch(SHAPE_TYPES);
   const isAllDraw = allSelectedMatch(DRAW_TYPES);
+  const isAllHighlight = allSelectedMatch(HIGHLIGHT_TYPES);
+  const isAllMath = allSelectedMatch(MATH_TYPES);
+  const isAllNote = allSelectedMatch(NOTE_TYPES);
 
   // Colors mapping (using Tldraw's actual theme engine for 100% match)
   const colorsMap: Record<string, string> = useMemo(() => ({
@@ -140,6 +159,15 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     violet: theme.violet.solid,
   }), [theme]);
 
+  // Highlighter swatches show the marker ink, not the solid ink color
+  const highlightColorsMap: Record<string, string> = useMemo(() => (
+    Object.fromEntries(Object.keys(colorsMap).map(c => [c, theme[c as TLDefaultColorStyle].highlightSrgb]))
+  ), [theme, colorsMap]);
+
+  const noteColorsMap: Record<string, string> = useMemo(() => (
+    Object.fromEntries(Object.keys(colorsMap).map(c => [c, theme[c as TLDefaultColorStyle].noteFill]))
+  ), [theme, colorsMap]);
+
   // Rich Text State (Persistent context, initialized from global store)
   const [richStats, setRichStats] = useState({
     bold: textBold,
@@ -152,6 +180,9 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     align: textAlign
   });
 
+  // Block format and inline code under the caret, only meaningful while editing
+  const [formatState, setFormatState] = useState<FormatState>({ block: null, code: false });
+
   useEffect(() => {
     const editingId = editor.getEditingShapeId();
     if (!editingId) {
@@ -172,7 +203,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   useEffect(() => {
     const editingId = editor.getEditingShapeId();
     const editingShape = editingId ? editor.getShape(editingId) : null;
-    const isRichText = editingShape?.type === 'rich-text';
+    const isRichText = editingShape?.type === 'rich-text' || editingShape?.type === 'note';
 
     if (!isRichText) return;
 
@@ -192,6 +223,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
       }
 
       const computed = window.getComputedStyle(node);
+      setFormatState(getFormatState(node.closest('.rich-text-container') as HTMLElement));
 
       setRichStats(prev => {
         const next = {
@@ -309,7 +341,8 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
       }
     };
 
-    if (isNewNode) {
+    // Notes keep their own text color on the paper, only new text boxes take the last text style
+    if (isNewNode && editingShape?.type === 'rich-text') {
       requestAnimationFrame(applyPersistentStyles);
     } else {
       requestAnimationFrame(() => updateStats());
@@ -343,6 +376,11 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
       editor.setStyleForNextShapes(DefaultSizeStyle, drawSize);
       editor.setStyleForNextShapes(DefaultDashStyle, drawDash as any);
       editor.setStyleForNextShapes(StrokeOpacityStyle, drawOpacity);
+    } else if (activeTool === 'highlight') {
+      editor.setStyleForNextShapes(DefaultColorStyle, highlightColor);
+      editor.setStyleForNextShapes(DefaultSizeStyle, highlightSize);
+    } else if (activeTool === 'note') {
+      editor.setStyleForNextShapes(DefaultColorStyle, noteColor);
     } else if (['geo', 'arrow', 'line', 'shapes'].includes(activeTool)) {
       editor.setStyleForNextShapes(DefaultColorStyle, shapeColor);
       editor.setStyleForNextShapes(DefaultSizeStyle, shapeSize);
@@ -352,7 +390,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
       editor.setStyleForNextShapes(FillColorStyle, shapeFillColor);
       editor.setStyleForNextShapes(FillOpacityStyle, shapeFillOpacity);
     }
-  }, [activeTool, editor, richStats.color, richStats.size, richStats.font, richStats.align, drawColor, drawSize, drawDash, drawOpacity, shapeColor, shapeSize, shapeDash, shapeOpacity, shapeFill, shapeFillColor, shapeFillOpacity]);
+  }, [activeTool, editor, richStats.color, richStats.size, richStats.font, richStats.align, drawColor, drawSize, drawDash, drawOpacity, highlightColor, highlightSize, noteColor, shapeColor, shapeSize, shapeDash, shapeOpacity, shapeFill, shapeFillColor, shapeFillOpacity]);
 
   // Sync from selection
   useEffect(() => {
@@ -380,7 +418,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     const editingId = editor.getEditingShapeId();
     const editingShape = editingId ? editor.getShape(editingId) : null;
 
-    if (editingShape?.type === 'rich-text') {
+    if (editingShape?.type === 'rich-text' || editingShape?.type === 'note') {
       const active = document.activeElement;
       if (!active?.classList.contains('rich-text-container') && !active?.closest('.rich-text-container')) {
         const shapeEl = document.getElementById(editingShape.id)?.querySelector('.rich-text-container');
@@ -389,10 +427,11 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
         }
       }
 
+      editor.markHistoryStoppingPoint('format text');
       document.execCommand(command);
 
       const isNewNode = (editingShape.props as any).html === '' || (editingShape.props as any).html === '<div></div>';
-      if (isNewNode) {
+      if (isNewNode && editingShape.type === 'rich-text') {
         const currentVal = (editingShape.props as any)[key];
         editor.updateShape({
           id: editingShape.id,
@@ -400,6 +439,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
           props: { [key]: !currentVal }
         });
       }
+      editor.markHistoryStoppingPoint('format text');
 
       setRichStats(prev => {
         const next = { ...prev, [key]: !prev[key as keyof typeof prev] };
@@ -437,6 +477,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
           });
 
         if (textUpdates.length > 0) {
+          editor.markHistoryStoppingPoint('format text');
           editor.updateShapes(textUpdates as any);
         }
       }
@@ -450,15 +491,57 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     }
   };
 
+  const applyFormat = (format: BlockFormat | 'code') => {
+    const editingId = editor.getEditingShapeId();
+    if (!editingId || editor.getShape(editingId)?.type !== 'rich-text') return;
+
+    const container = document.getElementById(editingId)?.querySelector('.rich-text-container') as HTMLElement | null;
+    if (!container) return;
+    if (!container.contains(document.activeElement)) container.focus();
+
+    editor.markHistoryStoppingPoint('format text');
+    if (format === 'code') toggleInlineCode(container);
+    else toggleBlockFormat(container, format);
+    editor.markHistoryStoppingPoint('format text');
+
+    setFormatState(getFormatState(container));
+  };
+
+  // Drops an empty equation under the text being edited and opens its source
+  const insertMath = () => {
+    const editingId = editor.getEditingShapeId();
+    const bounds = editingId ? editor.getShapePageBounds(editingId) : null;
+    const center = editor.getViewportPageBounds().center;
+    const id = createShapeId();
+
+    onSelectTool('select');
+    editor.markHistoryStoppingPoint('insert equation');
+    editor.createShape({
+      id,
+      type: 'math',
+      x: bounds ? bounds.minX : center.x - 30,
+      y: bounds ? bounds.maxY + 12 : center.y - 21,
+    });
+    editor.select(id);
+    editor.setEditingShape(id);
+  };
+
   const { dominantHand } = useFileSystemStore();
   const leftHandedMode = dominantHand === 'left';
 
   // Visibility flags
   const isTextMode = isTextTool || isEditingRichText || (isSelectTool && isAllText);
   const showTextSection = isTextMode;
-  const showShapeTypeSection = (activeTool === 'geo' || activeTool === 'line' || activeTool === 'arrow' || activeTool === 'shapes') || (isSelectTool && isAllShape);
-  const showStrokeSection = (activeTool === 'draw' || showShapeTypeSection) || (isSelectTool && (isAllShape || isAllDraw));
-  const showFillSection = showShapeTypeSection;
+  // The note tool lives in the shapes picker, but notes have no stroke or fill
+  const isNoteTool = activeTool === 'note';
+  const showShapeTypeSection = (activeTool === 'geo' || activeTool === 'line' || activeTool === 'arrow' || activeTool === 'shapes' || isNoteTool) || (isSelectTool && isAllShape);
+  const showStrokeSection = (activeTool === 'draw' || (showShapeTypeSection && !isNoteTool)) || (isSelectTool && (isAllShape || isAllDraw));
+  const showFillSection = showShapeTypeSection && !isNoteTool;
+  const showLassoSection = activeTool === 'lasso';
+  const showEraserSection = activeTool === 'eraser';
+  const showHighlightSection = activeTool === 'highlight' || (isSelectTool && isAllHighlight);
+  const showMathSection = isSelectTool && isAllMath;
+  const showNoteSection = (isNoteTool || (isSelectTool && isAllNote)) && !isEditingRichText;
 
   // Dimensions
   const width = bubbleCollapsed ? 48 : 340;
@@ -568,8 +651,9 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     const editingShapeId = editor.getEditingShapeId();
     if (editingShapeId) {
       const shape = editor.getShape(editingShapeId);
+      editor.markHistoryStoppingPoint('format text');
 
-      if (shape && shape.type === 'rich-text') {
+      if (shape && (shape.type === 'rich-text' || shape.type === 'note')) {
         if (style.id === 'tldraw:color') {
           const hex = colorsMap[value] || '#000000';
           const active = document.activeElement;
@@ -607,7 +691,8 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
       const propKey = style.id.replace('tldraw:', '');
       const finalPropKey = propKey === 'textAlign' ? 'align' : propKey;
       const isAlignment = finalPropKey === 'align';
-      const isNewNode = shape && ((shape.props as any).html === '' || (shape.props as any).html === '<div></div>');
+      // A note's color prop is its paper, text colors only go into its markup
+      const isNewNode = shape?.type === 'rich-text' && ((shape.props as any).html === '' || (shape.props as any).html === '<div></div>');
 
       if (shape && (isAlignment || isNewNode)) {
         editor.updateShape({
@@ -615,15 +700,20 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
           type: shape.type,
           props: { [finalPropKey]: value }
         } as any);
+      } else if (shape?.type === 'math') {
+        // An equation takes its styles as a whole, also while its source is open
+        editor.setStyleForSelectedShapes(style, value);
       } else {
         if ('setStyleForNextShapes' in editor) {
           editor.setStyleForNextShapes(style, value);
         }
       }
+      editor.markHistoryStoppingPoint('format text');
       return;
     }
 
     if (editor.getSelectedShapes().length > 0) {
+      editor.markHistoryStoppingPoint('format text');
       const selected = editor.getSelectedShapes();
       const propKey = style.id.replace('tldraw:', '');
       const finalPropKey = propKey === 'textAlign' ? 'align' : propKey;
@@ -672,15 +762,20 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
 
     const targetIsText = isTextMode || (editingShape?.type === 'rich-text') || (firstSelected?.type === 'rich-text');
     const targetIsDraw = (activeTool === 'draw' && !targetIsText) || (firstSelected?.type === 'draw');
+    const targetIsHighlight = (activeTool === 'highlight' && !targetIsText) || (firstSelected?.type === 'highlight');
     const targetIsShape = (['geo', 'shapes', 'arrow', 'line'].includes(activeTool) && !targetIsText) || (['geo', 'arrow', 'line'].includes(firstSelected?.type as any));
+    const targetIsNote = (activeTool === 'note' && !targetIsText) || (firstSelected?.type === 'note' && !editingShape);
 
     if (style.id === DefaultColorStyle.id) {
       if (targetIsText) prefUpdate.textColor = value;
       if (targetIsDraw) prefUpdate.drawColor = value;
+      if (targetIsHighlight) prefUpdate.highlightColor = value;
       if (targetIsShape) prefUpdate.shapeColor = value;
+      if (targetIsNote) prefUpdate.noteColor = value;
     } else if (style.id === DefaultSizeStyle.id) {
       if (targetIsText) prefUpdate.textSize = value;
       if (targetIsDraw) prefUpdate.drawSize = value;
+      if (targetIsHighlight) prefUpdate.highlightSize = value;
       if (targetIsShape) prefUpdate.shapeSize = value;
     } else if (style.id === DefaultFontStyle.id) {
       prefUpdate.textFont = value;
@@ -749,6 +844,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   const currentSize = (() => {
     if (isTextMode) return richStats.size;
     if (activeTool === 'draw') return drawSize;
+    if (activeTool === 'highlight') return highlightSize;
     if (['geo', 'arrow', 'line', 'shapes'].includes(activeTool)) return shapeSize;
     return (getStyle(DefaultSizeStyle, 'm') as string) || 'm';
   })();
@@ -756,6 +852,8 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
   const currentColor = (() => {
     if (isTextMode) return richStats.color;
     if (activeTool === 'draw') return drawColor;
+    if (activeTool === 'highlight') return highlightColor;
+    if (activeTool === 'note') return noteColor;
     if (['geo', 'arrow', 'line', 'shapes'].includes(activeTool)) return shapeColor;
     return (getStyle(DefaultColorStyle, 'black') as string) || 'black';
   })();
@@ -793,11 +891,13 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
     return parseFloat(getStyle(StrokeOpacityStyle, '1') as string);
   })();
 
-  const activeColorHex = colorsMap[currentColor] || theme.black.solid;
+  const activeColorHex = colorsMap[currentColor]
+    || (isCustomColor(currentColor) ? getCustomColorVariant(currentColor, isDarkMode) : theme.black.solid);
 
   const currentShapeOption = (() => {
     if (currentTldrawTool === 'arrow' || (isSelectTool && isAllShape && selectedShapes[0].type === 'arrow')) return 'arrow';
     if (currentTldrawTool === 'line' || (isSelectTool && isAllShape && selectedShapes[0].type === 'line')) return 'line';
+    if (currentTldrawTool === 'note') return 'note';
     return currentGeo;
   })();
 
@@ -853,7 +953,7 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
           onCollapse={handleCollapse}
         />
 
-        {(showTextSection || showShapeTypeSection || showStrokeSection || showFillSection) && (
+        {(showTextSection || showShapeTypeSection || showStrokeSection || showFillSection || showLassoSection || showEraserSection || showHighlightSection || showMathSection || showNoteSection) && (
           <div className={styles.divider} />
         )}
 
@@ -869,6 +969,9 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
             hasMoved={hasMoved}
             setStyle={setStyle}
             toggleStyle={toggleStyle}
+            formatState={formatState}
+            applyFormat={applyFormat}
+            onInsertMath={insertMath}
             getStyle={getStyle}
             openLinkModal={openLinkModal}
           />
@@ -914,6 +1017,42 @@ export const Bubble = track(({ activeTool, onSelectTool, onUpload, onAddUrl }: B
           />
         )}
 
+        {showLassoSection && <BubbleLassoSection />}
+
+        {showEraserSection && <BubbleEraserSection hasMoved={hasMoved} />}
+
+        {showHighlightSection && (
+          <BubbleHighlightSection
+            currentSize={currentSize}
+            currentColor={currentColor}
+            highlightColorsMap={highlightColorsMap}
+            colors={colors}
+            hasMoved={hasMoved}
+            setStyle={setStyle}
+          />
+        )}
+
+        {showNoteSection && (
+          <BubbleNoteSection
+            currentColor={currentColor}
+            noteColorsMap={noteColorsMap}
+            colors={colors}
+            hasMoved={hasMoved}
+            setStyle={setStyle}
+          />
+        )}
+
+        {showMathSection && (
+          <BubbleMathSection
+            currentSize={currentSize}
+            currentColor={currentColor}
+            colorsMap={colorsMap}
+            colors={colors}
+            hasMoved={hasMoved}
+            setStyle={setStyle}
+          />
+        )}
+
         {isLinkModalOpen && (
           <LinkInputModal
             onConfirm={handleLinkConfirm}
@@ -1,6 +1,6 @@
 import { useRef, useEffect } from 'react';
 import clsx from 'clsx';
-import { Shapes, MousePointer2, Pencil, Eraser, Type, ImagePlus } from 'lucide-react';
+import { Shapes, MousePointer2, LassoSelect, Pencil, Highlighter, Eraser, Type, ImagePlus } from 'lucide-react';
 import styles from '../Bubble.module.css';
 
 interface RichStats {
@@ -89,7 +89,9 @@ export const BubbleCollapsed = ({
   const renderIcon = () => {
     switch (activeTool) {
       case 'select': return <MousePointer2 size={24} />;
+      case 'lasso': return <LassoSelect size={24} />;
       case 'draw': return <Pencil size={24} />;
+      case 'highlight': return <Highlighter size={24} />;
       case 'eraser': return <Eraser size={24} />;
       case 'text': return <Type size={24} />;
       case 'shapes':
@@ -0,0 +1,42 @@
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import styles from '../Bubble.module.css';
+import { useUserPreferencesStore } from '../../../store/userPreferencesStore';
+
+const ERASER_SIZES = ['xs', 's', 'm', 'l', 'xl', 'xxl'];
+const DOT_SIZES: Record<string, number> = { xs: 3, s: 5, m: 8, l: 11, xl: 15, xxl: 20 };
+
+interface BubbleEraserSectionProps {
+  hasMoved: React.MutableRefObject<boolean>;
+}
+
+/**
+ * Eraser settings section of the Bubble component.
+ * Eraser sizes follow the same scale as stroke sizes.
+ */
+export const BubbleEraserSection = ({ hasMoved }: BubbleEraserSectionProps) => {
+  const { t } = useTranslation();
+  const { eraserSize, updatePreferences } = useUserPreferencesStore();
+
+  return (
+    <div className={styles.strokeSettings}>
+      <div className={styles.sectionHeader}>
+        <span className={styles.sectionTitle}>{t('eraser_size')}</span>
+      </div>
+      <div className={styles.sizeRow}>
+        {ERASER_SIZES.map((size) => (
+          <button
+            key={size}
+            className={clsx(styles.sizeBtnCompact, eraserSize === size && styles.active)}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && updatePreferences({ eraserSize: size })}
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20">
+              <circle cx="10" cy="10" r={DOT_SIZES[size] / 2} fill="none" stroke="currentColor" strokeWidth="1.5" />
+            </svg>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
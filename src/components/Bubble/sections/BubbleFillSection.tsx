@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { DefaultFillStyle } from 'tldraw';
 import styles from '../Bubble.module.css';
 import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../../../styles/customStyles';
+import { BubblePaletteRow } from './BubblePaletteRow';
 
 interface BubbleFillSectionProps {
   currentFill: string;
@@ -75,6 +76,12 @@ export const BubbleFillSection = ({
             ))}
           </div>
 
+          <BubblePaletteRow
+            currentColor={currentFillColor}
+            hasMoved={hasMoved}
+            onPick={(c) => setStyle(FillColorStyle, c)}
+          />
+
           <div className={styles.opacityRow}>
             <input
               type="range"
@@ -0,0 +1,79 @@
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { DefaultColorStyle, DefaultSizeStyle } from 'tldraw';
+import type { StyleProp } from 'tldraw';
+import styles from '../Bubble.module.css';
+
+const HIGHLIGHT_SIZES = ['xs', 's', 'm', 'l', 'xl', 'xxl'];
+const NIB_HEIGHTS: Record<string, number> = { xs: 5, s: 7, m: 9, l: 12, xl: 15, xxl: 18 };
+
+interface BubbleHighlightSectionProps {
+  currentSize: string;
+  currentColor: string;
+  highlightColorsMap: Record<string, string>;
+  colors: string[];
+  hasMoved: React.MutableRefObject<boolean>;
+  setStyle: (style: StyleProp<string>, value: string) => void;
+}
+
+/**
+ * Highlighter settings section of the Bubble component.
+ * Sizes are shown as the chisel nib, colors as the marker ink.
+ */
+export const BubbleHighlightSection = ({
+  currentSize,
+  currentColor,
+  highlightColorsMap,
+  colors,
+  hasMoved,
+  setStyle,
+}: BubbleHighlightSectionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.strokeSettings}>
+      <div className={styles.sectionHeader}>
+        <span className={styles.sectionTitle}>{t('tool_highlighter')}</span>
+      </div>
+
+      <div className={styles.sizeRow}>
+        {HIGHLIGHT_SIZES.map((size) => (
+          <button
+            key={size}
+            className={clsx(styles.sizeBtnCompact, currentSize === size && styles.active)}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && setStyle(DefaultSizeStyle, size)}
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20">
+              <rect
+                x="8.5"
+                y={10 - NIB_HEIGHTS[size] / 2}
+                width="3"
+                height={NIB_HEIGHTS[size]}
+                transform="rotate(15 10 10)"
+                fill="currentColor"
+              />
+            </svg>
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.colorsRow}>
+        {colors.map(c => (
+          <button
+            key={c}
+            className={clsx(styles.colorSwatch, currentColor === c && styles.activeColor)}
+            style={{
+              backgroundColor: highlightColorsMap[c],
+              boxShadow: currentColor === c
+                ? `0 0 0 2px var(--glass-bg), 0 0 0 4px ${highlightColorsMap[c]}`
+                : undefined
+            }}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && setStyle(DefaultColorStyle, c)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
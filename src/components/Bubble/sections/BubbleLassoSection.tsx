@@ -0,0 +1,28 @@
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import styles from '../Bubble.module.css';
+import { useUserPreferencesStore } from '../../../store/userPreferencesStore';
+
+/**
+ * Lasso settings section of the Bubble component.
+ * Switches between selecting fully enclosed shapes and anything the lasso touches.
+ */
+export const BubbleLassoSection = () => {
+  const { t } = useTranslation();
+  const { lassoPartial, updatePreferences } = useUserPreferencesStore();
+
+  return (
+    <div className={styles.fillSettings}>
+      <div className={styles.sectionHeader}>
+        <span className={styles.sectionTitle}>{t('lasso_partial')}</span>
+        <button
+          className={clsx(styles.switch, lassoPartial && styles.switchActive)}
+          onClick={() => updatePreferences({ lassoPartial: !lassoPartial })}
+          onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+        >
+          <div className={styles.switchHandle} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { DefaultColorStyle, DefaultSizeStyle } from 'tldraw';
+import type { StyleProp } from 'tldraw';
+import styles from '../Bubble.module.css';
+import { BubblePaletteRow } from './BubblePaletteRow';
+
+const MATH_SIZES = ['xs', 's', 'm', 'l', 'xl', 'xxl'];
+const GLYPH_SIZES: Record<string, string> = { xs: '10px', s: '12px', m: '14px', l: '18px', xl: '22px', xxl: '26px' };
+
+interface BubbleMathSectionProps {
+  currentSize: string;
+  currentColor: string;
+  colorsMap: Record<string, string>;
+  colors: string[];
+  hasMoved: React.MutableRefObject<boolean>;
+  setStyle: (style: StyleProp<string>, value: string) => void;
+}
+
+/**
+ * Equation settings section of the Bubble component.
+ * Equations take the same size steps and colors as text.
+ */
+export const BubbleMathSection = ({
+  currentSize,
+  currentColor,
+  colorsMap,
+  colors,
+  hasMoved,
+  setStyle,
+}: BubbleMathSectionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.strokeSettings}>
+      <div className={styles.sectionHeader}>
+        <span className={styles.sectionTitle}>{t('math.title')}</span>
+      </div>
+
+      <div className={styles.sizeRow}>
+        {MATH_SIZES.map((size) => (
+          <button
+            key={size}
+            className={clsx(styles.sizeBtnCompact, currentSize === size && styles.active)}
+            style={{ fontSize: GLYPH_SIZES[size], fontFamily: 'serif' }}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && setStyle(DefaultSizeStyle, size)}
+            title={t(`font_size_${size}`)}
+          >
+            ∑
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.colorsRow}>
+        {colors.map(c => (
+          <button
+            key={c}
+            className={clsx(styles.colorSwatch, currentColor === c && styles.activeColor)}
+            style={{
+              backgroundColor: colorsMap[c],
+              boxShadow: currentColor === c
+                ? `0 0 0 2px var(--glass-bg), 0 0 0 4px ${colorsMap[c]}`
+                : undefined
+            }}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && setStyle(DefaultColorStyle, c)}
+          />
+        ))}
+      </div>
+      <BubblePaletteRow currentColor={currentColor} hasMoved={hasMoved} onPick={c => setStyle(DefaultColorStyle, c)} />
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { DefaultColorStyle } from 'tldraw';
+import type { StyleProp } from 'tldraw';
+import styles from '../Bubble.module.css';
+import { BubblePaletteRow } from './BubblePaletteRow';
+
+interface BubbleNoteSectionProps {
+  currentColor: string;
+  noteColorsMap: Record<string, string>;
+  colors: string[];
+  hasMoved: React.MutableRefObject<boolean>;
+  setStyle: (style: StyleProp<string>, value: string) => void;
+}
+
+/**
+ * Sticky note settings section of the Bubble component.
+ * Colors are shown as the paper they give the note; text is styled while editing.
+ */
+export const BubbleNoteSection = ({
+  currentColor,
+  noteColorsMap,
+  colors,
+  hasMoved,
+  setStyle,
+}: BubbleNoteSectionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.strokeSettings}>
+      <div className={styles.sectionHeader}>
+        <span className={styles.sectionTitle}>{t('tool_note')}</span>
+      </div>
+
+      <div className={styles.colorsRow}>
+        {colors.map(c => (
+          <button
+            key={c}
+            className={clsx(styles.colorSwatch, currentColor === c && styles.activeColor)}
+            style={{
+              backgroundColor: noteColorsMap[c],
+              boxShadow: currentColor === c
+                ? `0 0 0 2px var(--glass-bg), 0 0 0 4px ${noteColorsMap[c]}`
+                : undefined
+            }}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && setStyle(DefaultColorStyle, c)}
+          />
+        ))}
+      </div>
+      <BubblePaletteRow currentColor={currentColor} hasMoved={hasMoved} onPick={c => setStyle(DefaultColorStyle, c)} />
+    </div>
+  );
+};
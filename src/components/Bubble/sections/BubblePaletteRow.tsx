@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { Plus } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useIsDarkMode } from 'tldraw';
+import styles from '../Bubble.module.css';
+import { useUserPreferencesStore } from '../../../store/userPreferencesStore';
+import { useFileSystemStore } from '../../../store/fileSystemStore';
+import { getCustomColorVariant } from '../../../lib/customColors';
+import { PaletteModal } from '../../UI/PaletteModal';
+
+interface BubblePaletteRowProps {
+  currentColor: string;
+  hasMoved: React.MutableRefObject<boolean>;
+  onPick: (color: string) => void;
+}
+
+/**
+ * Custom colors row, shown under the named swatches of the stroke and fill
+ * sections. The active notebook's palette comes first, then the user's own.
+ */
+export const BubblePaletteRow = ({ currentColor, hasMoved, onPick }: BubblePaletteRowProps) => {
+  const { t } = useTranslation();
+  const isDarkMode = useIsDarkMode();
+  const customPalette = useUserPreferencesStore(state => state.customPalette);
+  const notebookPalette = useFileSystemStore(state => state.notebooks.find(n => n.id === state.activeNotebookId)?.palette);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const palette = [...new Set([...(notebookPalette || []), ...customPalette])];
+
+  return (
+    <div className={styles.paletteRow}>
+      {palette.map(c => {
+        const swatchColor = getCustomColorVariant(c, isDarkMode);
+        return (
+          <button
+            key={c}
+            className={clsx(styles.colorSwatch, currentColor === c && styles.activeColor)}
+            style={{
+              backgroundColor: swatchColor,
+              boxShadow: currentColor === c
+                ? `0 0 0 2px var(--glass-bg), 0 0 0 4px ${swatchColor}`
+                : undefined
+            }}
+            onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+            onClick={() => !hasMoved.current && onPick(c)}
+          />
+        );
+      })}
+      <button
+        className={clsx(styles.colorSwatch, styles.addSwatch)}
+        title={t('palette.title')}
+        onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+        onClick={() => !hasMoved.current && setIsModalOpen(true)}
+      >
+        <Plus size={14} />
+      </button>
+
+      {isModalOpen && <PaletteModal onPick={onPick} onClose={() => setIsModalOpen(false)} />}
+    </div>
+  );
+};
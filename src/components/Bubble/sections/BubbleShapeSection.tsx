@@ -17,6 +17,7 @@ import {
   ArrowBigLeft,
   ArrowBigRight,
   Minus,
+  StickyNote,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { GeoShapeGeoStyle, Editor } from 'tldraw';
@@ -32,7 +33,7 @@ interface BubbleShapeSectionProps {
 
 /**
  * Shape type selection section of the Bubble component.
- * Includes geometric shapes, arrows, and lines.
+ * Includes geometric shapes, arrows, lines and sticky notes.
  */
 export const BubbleShapeSection = ({
   currentShapeOption,
@@ -44,7 +45,7 @@ export const BubbleShapeSection = ({
 
   const handleShapeClick = (shape: string) => {
     if (!hasMoved.current) {
-      if (shape === 'arrow' || shape === 'line') {
+      if (shape === 'arrow' || shape === 'line' || shape === 'note') {
         editor.setCurrentTool(shape);
       } else {
         editor.setCurrentTool('geo');
@@ -135,6 +136,18 @@ export const BubbleShapeSection = ({
           );
         })}
       </div>
+
+      {/* Row 4: Sticky note */}
+      <div className={styles.styleGroup}>
+        <button
+          className={clsx(styles.iconBtn, currentShapeOption === 'note' && styles.active)}
+          onClick={() => handleShapeClick('note')}
+          onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+          title={t('tool_note')}
+        >
+          <StickyNote size={16} />
+        </button>
+      </div>
     </div>
   );
 };
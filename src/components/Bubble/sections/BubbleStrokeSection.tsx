@@ -4,6 +4,7 @@ import { DefaultDashStyle, DefaultSizeStyle, DefaultColorStyle, DefaultFillStyle
 import styles from '../Bubble.module.css';
 import { ScribbleIcon } from '../icons';
 import { FillOpacityStyle, StrokeOpacityStyle } from '../../../styles/customStyles';
+import { BubblePaletteRow } from './BubblePaletteRow';
 
 interface BubbleStrokeSectionProps {
   activeTool: string;
@@ -138,6 +139,12 @@ export const BubbleStrokeSection = ({
             ))}
           </div>
 
+          <BubblePaletteRow
+            currentColor={currentColor}
+            hasMoved={hasMoved}
+            onPick={(c) => setStyle(DefaultColorStyle, c)}
+          />
+
           {!isDrawMode && (
             <div className={styles.opacityRow}>
               <input
@@ -5,10 +5,28 @@ import {
   Underline,
   Strikethrough,
   Link as LinkIcon,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListChecks,
+  Code,
+  Sigma,
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { DefaultFontStyle, DefaultSizeStyle, DefaultColorStyle, DefaultTextAlignStyle } from 'tldraw';
 import styles from '../Bubble.module.css';
+import type { BlockFormat, FormatState } from '../../../lib/richTextFormat';
+
+const BLOCK_FORMATS: { format: BlockFormat; icon: typeof List; title: string }[] = [
+  { format: 'h1', icon: Heading1, title: 'format_heading_1' },
+  { format: 'h2', icon: Heading2, title: 'format_heading_2' },
+  { format: 'h3', icon: Heading3, title: 'format_heading_3' },
+  { format: 'ul', icon: List, title: 'format_bullet_list' },
+  { format: 'ol', icon: ListOrdered, title: 'format_numbered_list' },
+  { format: 'checklist', icon: ListChecks, title: 'format_checklist' },
+];
 
 interface RichStats {
   bold: boolean;
@@ -32,6 +50,9 @@ interface BubbleTextSectionProps {
   hasMoved: React.MutableRefObject<boolean>;
   setStyle: (style: any, value: any) => void;
   toggleStyle: (command: string) => void;
+  formatState: FormatState;
+  applyFormat: (format: BlockFormat | 'code') => void;
+  onInsertMath: () => void;
   getStyle: (style: any, fallback: string) => any;
   openLinkModal: (e: React.MouseEvent) => void;
 }
@@ -39,6 +60,7 @@ interface BubbleTextSectionProps {
 /**
  * Text settings section of the Bubble component.
  * Includes font, size, format buttons, alignment, and color selection.
+ * Headings, lists and inline code act on the caret, so they only show while editing.
  */
 export const BubbleTextSection = ({
   richStats,
@@ -51,6 +73,9 @@ export const BubbleTextSection = ({
   hasMoved,
   setStyle,
   toggleStyle,
+  formatState,
+  applyFormat,
+  onInsertMath,
   getStyle,
   openLinkModal,
 }: BubbleTextSectionProps) => {
@@ -182,6 +207,40 @@ export const BubbleTextSection = ({
           })}
         </div>
       </div>
+      {isEditingRichText && (
+        <div className={styles.toolsRow}>
+          <div className={styles.styleGroup}>
+            {BLOCK_FORMATS.map(({ format, icon: Icon, title }) => (
+              <button
+                key={format}
+                className={clsx(styles.iconBtn, formatState.block === format && styles.active)}
+                onClick={(e) => { e.stopPropagation(); if (!hasMoved.current) applyFormat(format); }}
+                onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                title={t(title)}
+              >
+                <Icon strokeWidth={2.5} size={16} />
+              </button>
+            ))}
+            <div className={styles.verticalDivider} />
+            <button
+              className={clsx(styles.iconBtn, formatState.code && styles.active)}
+              onClick={(e) => { e.stopPropagation(); if (!hasMoved.current) applyFormat('code'); }}
+              onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+              title={t('format_code')}
+            >
+              <Code strokeWidth={2.5} size={16} />
+            </button>
+            <button
+              className={styles.iconBtn}
+              onClick={(e) => { e.stopPropagation(); if (!hasMoved.current) onInsertMath(); }}
+              onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+              title={t('math.insert')}
+            >
+              <Sigma strokeWidth={2.5} size={16} />
+            </button>
+          </div>
+        </div>
+      )}
       <div className={styles.colorsRow}>
         {colors.map(c => (
           <button
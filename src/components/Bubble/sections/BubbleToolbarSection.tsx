@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { MousePointer2, Pencil, Eraser, Type, ImagePlus, Shapes } from 'lucide-react';
+import { MousePointer2, LassoSelect, Pencil, Highlighter, Eraser, Type, ImagePlus, Shapes } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import clsx from 'clsx';
 import styles from '../Bubble.module.css';
@@ -16,7 +16,7 @@ interface BubbleToolbarSectionProps {
 
 /**
  * Horizontal toolbar section displayed at the top of the Bubble.
- * Contains tool selection buttons (select, draw, eraser, text, shapes, image).
+ * Contains tool selection buttons (select, lasso, draw, highlight, eraser, text, shapes, image).
  */
 export const BubbleToolbarSection = ({
   activeTool,
@@ -83,6 +83,13 @@ export const BubbleToolbarSection = ({
         >
           <MousePointer2 size={22} />
         </button>
+        <button
+          className={clsx(styles.toolButton, activeTool === 'lasso' && styles.active)}
+          onClick={handleToolClick('lasso')}
+          title={t('tool_lasso')}
+        >
+          <LassoSelect size={22} />
+        </button>
         <button
           className={clsx(styles.toolButton, activeTool === 'draw' && styles.active)}
           onClick={handleToolClick('draw')}
@@ -90,6 +97,13 @@ export const BubbleToolbarSection = ({
         >
           <Pencil size={22} />
         </button>
+        <button
+          className={clsx(styles.toolButton, activeTool === 'highlight' && styles.active)}
+          onClick={handleToolClick('highlight')}
+          title={t('tool_highlighter')}
+        >
+          <Highlighter size={22} />
+        </button>
         <button
           className={clsx(styles.toolButton, activeTool === 'eraser' && styles.active)}
           onClick={handleToolClick('eraser')}
@@ -105,7 +119,7 @@ export const BubbleToolbarSection = ({
           <Type size={22} />
         </button>
         <button
-          className={clsx(styles.toolButton, (activeTool === 'shapes' || activeTool === 'geo' || activeTool === 'arrow' || activeTool === 'line') && styles.active)}
+          className={clsx(styles.toolButton, (activeTool === 'shapes' || activeTool === 'geo' || activeTool === 'arrow' || activeTool === 'line' || activeTool === 'note') && styles.active)}
           onClick={handleToolClick('shapes')}
           title={t('tool_shapes')}
         >
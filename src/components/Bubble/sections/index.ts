@@ -4,3 +4,8 @@ export { BubbleShapeSection } from './BubbleShapeSection';
 export { BubbleStrokeSection } from './BubbleStrokeSection';
 export { BubbleFillSection } from './BubbleFillSection';
 export { BubbleToolbarSection } from './BubbleToolbarSection';
+export { BubbleLassoSection } from './BubbleLassoSection';
+export { BubbleEraserSection } from './BubbleEraserSection';
+export { BubbleHighlightSection } from './BubbleHighlightSection';
+export { BubbleMathSection } from './BubbleMathSection';
+export { BubbleNoteSection } from './BubbleNoteSection';
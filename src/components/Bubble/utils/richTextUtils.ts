@@ -39,14 +39,15 @@ export const fontSizes: Record<string, string> = {
  */
 export const applyStyleToRichText = (html: string, prop: string, value: any): string => {
   if (!html) return html;
-  const tempDiv = document.createElement('div');
-  tempDiv.innerHTML = html;
+  // Parsed in an inert document, a div in this one would load images and fire their handlers
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tempDiv = doc.body;
 
   const elements = Array.from(tempDiv.querySelectorAll('*'));
 
   if (elements.length === 0 && tempDiv.textContent?.trim()) {
     // If pure text, wrap it so we can style it
-    const wrapper = document.createElement('span');
+    const wrapper = doc.createElement('span');
     while (tempDiv.firstChild) {
       wrapper.appendChild(tempDiv.firstChild);
     }
@@ -15,12 +15,10 @@ import { CircularButton } from '../UI/CircularButton';
 import { useFileSystemStore } from '../../store/fileSystemStore';
 import { useSyncStore } from '../../store/syncStore';
 import { useUserPreferencesStore } from '../../store/userPreferencesStore';
-import { RichTextShapeUtil } from '../../shapes/RichTextShapeUtil';
-import { CustomGeoShapeUtil } from '../../shapes/CustomGeoShapeUtil';
-import { CustomDrawShapeUtil } from '../../shapes/CustomDrawShapeUtil';
-import { CustomLineShapeUtil } from '../../shapes/CustomLineShapeUtil';
-import { CustomArrowShapeUtil } from '../../shapes/CustomArrowShapeUtil';
+import { customShapeUtils } from '../../shapes';
+import { customTools } from '../../tools';
 import { useTranslation } from 'react-i18next';
+import { downloadSvg, copySvg } from '../../utils/svgExport';
 
 // Extracted Components
 import { CenterMark } from './CenterMark';
@@ -28,25 +26,23 @@ import { DebugOverlay } from './DebugOverlay';
 import { HistoryControls } from './HistoryControls';
 import { WelcomeScreen } from './WelcomeScreen';
 import { CanvasTitle } from './CanvasTitle';
+import { PageBackground } from './PageBackground';
+import { ToolOverlays } from './ToolOverlays';
 
 // Extracted Hooks
 import { usePageLoading } from '../../hooks/usePageLoading';
 import { usePagePersistence } from '../../hooks/usePagePersistence';
-import { useEraserOverride } from '../../hooks/useEraserOverride';
 import { useTouchPanning } from '../../hooks/useTouchPanning';
+import { useShapeRecognition } from '../../hooks/useShapeRecognition';
+import { usePenInput } from '../../hooks/usePenInput';
+import { usePasteSanitizer } from '../../hooks/usePasteSanitizer';
+import { useTouchGestures } from '../../hooks/useTouchGestures';
 import { useCanvasInteractions } from '../../hooks/useCanvasInteractions';
 import { useLongPressBlocker } from '../../hooks/useLongPressBlocker';
 
 import { useSidebarPanning } from '../../hooks/useSidebarPanning';
 import { useRecenter } from '../../hooks/useRecenter';
-
-const customShapeUtils = [
-  RichTextShapeUtil,
-  CustomGeoShapeUtil,
-  CustomDrawShapeUtil,
-  CustomLineShapeUtil,
-  CustomArrowShapeUtil
-];
+import { useSearchFocus } from '../../hooks/useSearchFocus';
 
 interface CanvasInterfaceProps {
   pageId: string;
@@ -79,18 +75,22 @@ const CanvasInterface = track(({ pageId, pageVersion, lastModifier, clientId, pa
 
   usePageLoading(editor, pageId, pageVersion, lastModifier, clientId, userPrefs, sidebarColumns, leftHandedMode, isLoadingRef);
   usePagePersistence(editor, pageId, sidebarColumns, leftHandedMode, isLoadingRef);
-  useEraserOverride(editor);
+  usePenInput(editor);
+  usePasteSanitizer(editor);
   useTouchPanning(editor);
+  useShapeRecognition(editor);
   useCanvasInteractions(editor, parentRef, manualTool, setIsLockingUI, userPrefs, lastGeoToolRef);
   useLongPressBlocker(editor);
   useSidebarPanning(editor, sidebarColumns, leftHandedMode);
+  useSearchFocus(editor, pageId, sidebarColumns, leftHandedMode, isLoadingRef);
 
   const { handleRecenter, handleRecenterAll } = useRecenter(editor, sidebarColumns, leftHandedMode);
+  useTouchGestures(editor, handleRecenter);
 
   // Derived Active Tool State
   const editingShapeId = editor.getEditingShapeId();
   const editingShape = editingShapeId ? editor.getShape(editingShapeId) : null;
-  const isEmulatedTextTool = editingShape && (editingShape.type === 'text' || editingShape.type === 'rich-text');
+  const isEmulatedTextTool = editingShape && (editingShape.type === 'text' || editingShape.type === 'rich-text' || editingShape.type === 'note');
   const currentToolId = editor.getCurrentToolId();
 
   const activeTool = (() => {
@@ -120,7 +120,7 @@ const CanvasInterface = track(({ pageId, pageVersion, lastModifier, clientId, pa
       userPrefs.updatePreferences({ lastActiveTool: tool }); // Persist selection
     }
 
-    if (['draw', 'eraser'].includes(tool)) editor.selectNone();
+    if (['draw', 'highlight', 'eraser'].includes(tool)) editor.selectNone();
     editor.setEditingShape(null);
 
     if (tool === 'shapes') {
@@ -221,15 +221,16 @@ export const CanvasArea = () => {
         hideUi
         inferDarkMode={isDark}
         shapeUtils={customShapeUtils}
+        tools={customTools}
         licenseKey={import.meta.env.VITE_TLDRAW_LICENSE}
         options={{ maxPages: 1 }}
-        components={{ ContextMenu: DefaultContextMenu }}
+        components={{ ContextMenu: DefaultContextMenu, Background: PageBackground, Overlays: ToolOverlays }}
         onMount={(editor) => {
           // Restore last active tool immediately on mount
           const savedTool = useUserPreferencesStore.getState().lastActiveTool;
           if (savedTool && savedTool !== 'select') {
             // Ensure no selection if switching to draw/eraser
-            if (['draw', 'eraser'].includes(savedTool)) editor.selectNone();
+            if (['draw', 'highlight', 'eraser'].includes(savedTool)) editor.selectNone();
 
             // Check if custom tool logic needed (like handleSelectTool)
             // But simple setCurrentTool is usually enough for initial load
@@ -254,9 +255,31 @@ export const CanvasArea = () => {
           }
         }}
         overrides={{
-          actions(_editor, actions) {
+          actions(editor, actions) {
             delete actions['move-to-page'];
             delete actions['context-menu.move-to-page'];
+
+            // SVG exports carry the page template, like the canvas shows it
+            const getExportTarget = () => {
+              let ids = editor.getSelectedShapeIds();
+              if (ids.length === 0) ids = Array.from(editor.getCurrentPageShapeIds().values());
+              const { pages, activePageId } = useFileSystemStore.getState();
+              return { ids, page: activePageId ? pages[activePageId] : undefined };
+            };
+            actions['export-as-svg'] = {
+              ...actions['export-as-svg'],
+              onSelect() {
+                const { ids, page } = getExportTarget();
+                if (ids.length > 0) downloadSvg(editor, ids, page?.template, page?.name || '');
+              },
+            };
+            actions['copy-as-svg'] = {
+              ...actions['copy-as-svg'],
+              onSelect() {
+                const { ids, page } = getExportTarget();
+                if (ids.length > 0) copySvg(editor, ids, page?.template);
+              },
+            };
             return actions;
           },
         }}
@@ -0,0 +1,27 @@
+import { DefaultBackground, useEditor, track } from 'tldraw';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { renderTemplate, MIN_SCREEN_SPACING } from '../../lib/pageTemplates';
+
+// Replaces tldraw's background layer, so the template sits under every shape
+// and can't be selected or erased
+export const PageBackground = track(() => {
+  const editor = useEditor();
+  const template = useFileSystemStore(state => state.activePageId ? state.pages[state.activePageId]?.template : undefined);
+
+  const { x, y, z } = editor.getCamera();
+  const isVisible = template && template.type !== 'none' && template.spacing * z >= MIN_SCREEN_SPACING;
+
+  return (
+    <>
+      <DefaultBackground />
+      {isVisible && (
+        <svg style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}>
+          <g
+            transform={`scale(${z}) translate(${x} ${y})`}
+            dangerouslySetInnerHTML={{ __html: renderTemplate(template, editor.getViewportPageBounds(), 'page-template') }}
+          />
+        </svg>
+      )}
+    </>
+  );
+});
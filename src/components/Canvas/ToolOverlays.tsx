@@ -0,0 +1,53 @@
+import { TldrawOverlays, useEditor, useValue } from 'tldraw';
+import { getEraserRadius } from '../../tools';
+import type { EraserTool, LassoingState } from '../../tools';
+import { useUserPreferencesStore } from '../../store/userPreferencesStore';
+
+// tldraw's overlays plus the lasso path and the eraser outline of our own tools
+export const ToolOverlays = () => {
+  const editor = useEditor();
+  const eraserSize = useUserPreferencesStore(state => state.eraserSize);
+
+  const points = useValue('lasso points', () => {
+    if (!editor.isIn('lasso.lassoing')) return [];
+    return (editor.getStateDescendant('lasso.lassoing') as LassoingState).points.get();
+  }, [editor]);
+
+  const eraserCursor = useValue('eraser cursor', () => {
+    if (!editor.isIn('eraser')) return null;
+    return (editor.getStateDescendant('eraser') as EraserTool).cursor.get();
+  }, [editor]);
+
+  const path = points.length > 1
+    ? `M${points.map(p => `${p.x},${p.y}`).join('L')}Z`
+    : null;
+
+  return (
+    <>
+      <TldrawOverlays />
+      {path && (
+        <svg className="tl-overlays__item" aria-hidden="true">
+          <path
+            d={path}
+            fill="var(--tl-color-selection-fill)"
+            stroke="var(--tl-color-selection-stroke)"
+            strokeWidth="calc(2px / var(--tl-zoom))"
+            strokeDasharray="calc(6px / var(--tl-zoom))"
+          />
+        </svg>
+      )}
+      {eraserCursor && (
+        <svg className="tl-overlays__item" aria-hidden="true">
+          <circle
+            cx={eraserCursor.x}
+            cy={eraserCursor.y}
+            r={getEraserRadius(eraserSize)}
+            fill="none"
+            stroke="var(--tl-color-text-3)"
+            strokeWidth="calc(1px / var(--tl-zoom))"
+          />
+        </svg>
+      )}
+    </>
+  );
+};
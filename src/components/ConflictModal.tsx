@@ -1,64 +1,150 @@
 import styles from './ConflictModal.module.css';
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tldraw, Box } from 'tldraw';
+import type { TLShapeId } from 'tldraw';
 import { useSyncStore } from '../store/syncStore';
+import { useFileSystemStore } from '../store/fileSystemStore';
+import { opfs } from '../lib/opfs';
+import { applyConflictSide } from '../lib/snapshotMerge';
+import type { PageSnapshot } from '../lib/snapshotMerge';
+import { getIsDarkMode } from '../lib/themeUtils';
+import { customShapeUtils } from '../shapes';
+import { HybridName } from './UI/HybridName';
 import { AlertTriangle, Server, Monitor } from 'lucide-react';
 import clsx from 'clsx';
 
+interface ConflictPreviewProps {
+  snapshot: PageSnapshot;
+  shapeIds: string[];
+  isDarkMode: boolean;
+}
+
+// Read-only canvas framed on the conflicting shapes
+const ConflictPreview = ({ snapshot, shapeIds, isDarkMode }: ConflictPreviewProps) => (
+  <div className={styles.preview}>
+    {snapshot.store && snapshot.schema && <Tldraw
+      hideUi
+      snapshot={{ store: snapshot.store, schema: snapshot.schema }}
+      shapeUtils={customShapeUtils}
+      inferDarkMode={isDarkMode}
+      licenseKey={import.meta.env.VITE_TLDRAW_LICENSE}
+      onMount={(editor) => {
+        editor.updateInstanceState({ isReadonly: true });
+        const ids = shapeIds.filter(id => editor.getShape(id as TLShapeId)) as TLShapeId[];
+        const bounds = ids.map(id => editor.getShapePageBounds(id)).filter(b => !!b);
+        if (bounds.length > 0) {
+          editor.zoomToBounds(Box.Common(bounds), { inset: 32 });
+          editor.select(...ids);
+        } else {
+          editor.zoomToFit();
+        }
+      }}
+    />}
+  </div>
+);
+
 export const ConflictModal = () => {
-  const { status, conflicts, resolveConflict } = useSyncStore();
+  const { t } = useTranslation();
+  const { conflicts, resolveConflict } = useSyncStore();
+  const { pages, theme } = useFileSystemStore();
+  const [content, setContent] = useState<{ pageId: string; snapshot: PageSnapshot } | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Pages are reviewed one at a time
+  const current = conflicts?.[0];
+  const page = current ? pages[current.pageId] : undefined;
+
+  useEffect(() => {
+    if (!current) return;
+    let cancelled = false;
+    opfs.loadFile(`page-${current.pageId}.tldr`).then(c => {
+      if (cancelled) return;
+      try {
+        setContent({ pageId: current.pageId, snapshot: c ? JSON.parse(c) : {} });
+      } catch (e) {
+        console.error('Failed to parse merged page', e);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [current]);
+
+  const views = useMemo(() => {
+    if (!current || content?.pageId !== current.pageId) return null;
+    return {
+      local: applyConflictSide(content.snapshot, current.conflicts, 'local'),
+      remote: applyConflictSide(content.snapshot, current.conflicts, 'remote')
+    };
+  }, [current, content]);
+
+  if (!current) return null;
 
-  if (status !== 'conflict' || !conflicts) return null;
+  const shapeIds = current.conflicts.map(c => c.id);
+  const isDarkMode = getIsDarkMode(theme);
+
+  const handleResolve = async (resolution: 'merged' | 'local' | 'remote') => {
+    setIsResolving(true);
+    await resolveConflict(current.pageId, resolution);
+    setIsResolving(false);
+  };
 
   return (
     <div className={styles.overlay}>
       <div className={styles.modal}>
         <div className={styles.header}>
           <AlertTriangle className={styles.warningIcon} size={24} />
-          <h2>Sync Conflict</h2>
+          <h2>{t('conflicts.title')}</h2>
         </div>
 
+        {page && (
+          <HybridName name={page.name} strokes={page.nameStrokes} className={styles.pageName} />
+        )}
+
         <p className={styles.description}>
-          Divergent changes have been detected in Google Drive that cannot be merged automatically.
-          Please select which version you want to keep.
+          {t('conflicts.description', { count: current.conflicts.length })}
         </p>
 
         <div className={styles.options}>
           <div className={styles.optionCard}>
             <div className={styles.optionHeader}>
               <Monitor size={20} />
-              <h3>Local Version</h3>
+              <h3>{t('conflicts.local')}</h3>
             </div>
-            <p className={styles.optionDescription}>
-              Overwrite cloud changes with the current content from this device.
-            </p>
+            {views && <ConflictPreview key={`local-${current.pageId}`} snapshot={views.local} shapeIds={shapeIds} isDarkMode={isDarkMode} />}
             <button
               className={clsx(styles.button, styles.localButton)}
-              onClick={() => resolveConflict('local')}
+              disabled={isResolving}
+              onClick={() => handleResolve('local')}
             >
-              Keep Local
+              {t('conflicts.keep_local')}
             </button>
           </div>
 
           <div className={styles.optionCard}>
             <div className={styles.optionHeader}>
               <Server size={20} />
-              <h3>Cloud Version</h3>
+              <h3>{t('conflicts.remote')}</h3>
             </div>
-            <p className={styles.optionDescription}>
-              Replace this device's content with the latest changes from Google Drive.
-            </p>
+            {views && <ConflictPreview key={`remote-${current.pageId}`} snapshot={views.remote} shapeIds={shapeIds} isDarkMode={isDarkMode} />}
             <button
               className={clsx(styles.button, styles.remoteButton)}
-              onClick={() => resolveConflict('remote')}
+              disabled={isResolving}
+              onClick={() => handleResolve('remote')}
             >
-              Use Cloud
+              {t('conflicts.keep_remote')}
             </button>
           </div>
         </div>
 
         <div className={styles.footer}>
-          <p className={styles.footerNote}>
-            This action cannot be undone once synced.
-          </p>
+          <button className={styles.mergedButton} disabled={isResolving} onClick={() => handleResolve('merged')}>
+            {t('conflicts.keep_merged')}
+          </button>
+          {conflicts!.length > 1 && (
+            <p className={styles.footerNote}>
+              {t('conflicts.more_pages', { count: conflicts!.length - 1 })}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -3,8 +3,10 @@ import styles from './Layout.module.css';
 import { Sidebar } from './Sidebar/Sidebar';
 import { CanvasArea } from './Canvas/CanvasArea';
 import { Settings } from './Settings/Settings';
+import { SearchPanel } from './Search/SearchPanel';
 import { useEffect } from 'react';
 import { useFileSystemStore } from '../store/fileSystemStore';
+import { getLivePages } from '../lib/trashUtils';
 import clsx from 'clsx';
 
 export const Layout = () => {
@@ -38,7 +40,8 @@ export const Layout = () => {
     const init = async () => {
       await load();
       const state = useFileSystemStore.getState(); // Changed to get state once
-      const { notebooks, pages, selectPage } = state; // Destructured from state
+      const { folders, pages, selectPage } = state; // Destructured from state
+      const notebooks = state.notebooks.filter(n => !n.trashedAt);
 
       if (notebooks.length === 0) {
         // init logic // Simplified comment
@@ -47,7 +50,7 @@ export const Layout = () => {
         // (i.e. if activeNotebookId is null, it means we have no session restored)
         if (!state.activeNotebookId) {
           // If we have pages, select the most recent one to expand sidebar
-          const pagesList = Object.values(pages).sort((a, b) => b.updatedAt - a.updatedAt);
+          const pagesList = Object.values(getLivePages(state.notebooks, folders, pages)).sort((a, b) => b.updatedAt - a.updatedAt);
           if (pagesList.length > 0) {
             selectPage(pagesList[0].id);
           } else {
@@ -68,6 +71,7 @@ export const Layout = () => {
       <Sidebar />
       <main className={styles.main}>
         <Settings /> {/* Added Settings component */}
+        <SearchPanel />
         <CanvasArea />
       </main>
     </div>
@@ -0,0 +1,136 @@
+import { useEffect, useRef } from 'react';
+import { Search, File, Loader2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { useSearchStore } from '../../store/searchStore';
+import { CircularButton } from '../UI/CircularButton';
+import { HybridName } from '../UI/HybridName';
+import type { Page } from '../../types';
+import styles from './SearchPanel.module.css';
+
+export const SearchPanel = () => {
+  const { t } = useTranslation();
+  const { dominantHand, notebooks, folders, pages } = useFileSystemStore();
+  const { isOpen, query, results, isIndexing, setOpen, setQuery, openResult } = useSearchStore();
+  const leftHandedMode = dominantHand === 'left';
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (useSearchStore.getState().isOpen && wrapperRef.current && !wrapperRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(!useSearchStore.getState().isOpen);
+      } else if (e.key === 'Escape' && useSearchStore.getState().isOpen) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener('mousedown', handleClickOutside);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleClickOutside);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [setOpen]);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  const getPagePath = (page: Page) => {
+    const names: string[] = [];
+    let parentId: string | null = page.parentId;
+    while (parentId && folders[parentId]) {
+      names.unshift(folders[parentId].name);
+      parentId = folders[parentId].parentId;
+    }
+    const notebook = notebooks.find(n => n.id === page.notebookId);
+    if (notebook) names.unshift(notebook.name);
+    return names.join(' / ');
+  };
+
+  return (
+    <div
+      className={styles.wrapper}
+      ref={wrapperRef}
+      data-is-ui="true"
+      style={{
+        '--search-right': leftHandedMode ? 'auto' : 'calc(1rem + 48px)',
+        '--search-left': leftHandedMode ? 'calc(1rem + 48px)' : 'auto',
+      } as React.CSSProperties}
+    >
+      <CircularButton
+        onClick={() => setOpen(!isOpen)}
+        title={`${t('search.title')} (Ctrl+K)`}
+        icon={<Search size={20} />}
+        isActive={isOpen}
+      />
+
+      {isOpen && (
+        <div
+          className={styles.panel}
+          style={{
+            '--panel-right': leftHandedMode ? 'auto' : '0',
+            '--panel-left': leftHandedMode ? '0' : 'auto',
+          } as React.CSSProperties}
+        >
+          <div className={styles.inputWrapper}>
+            <Search size={16} className={styles.inputIcon} />
+            <input
+              ref={inputRef}
+              className={styles.input}
+              value={query}
+              placeholder={t('search.placeholder')}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && results.length > 0) openResult(results[0]);
+              }}
+            />
+            {isIndexing && <Loader2 size={16} className={styles.spin} />}
+          </div>
+
+          {query.trim() && (
+            <div className={styles.results}>
+              {isIndexing && results.length === 0 && (
+                <div className={styles.empty}>{t('search.indexing')}</div>
+              )}
+              {!isIndexing && results.length === 0 && (
+                <div className={styles.empty}>{t('search.no_results')}</div>
+              )}
+              {results.map((result) => {
+                const page = pages[result.pageId];
+                if (!page) return null;
+                return (
+                  <button
+                    key={`${result.pageId}-${result.shapeIds[0] || 'name'}`}
+                    className={styles.result}
+                    onClick={() => openResult(result)}
+                  >
+                    <div className={styles.resultHeader}>
+                      <File size={14} className={styles.resultIcon} />
+                      <HybridName
+                        name={page.name}
+                        strokes={page.nameStrokes}
+                        color={page.color}
+                        className={styles.resultName}
+                      />
+                    </div>
+                    <div className={styles.resultPath}>{getPagePath(page)}</div>
+                    <div className={styles.resultSnippet}>
+                      {result.source === 'name' ? t('search.page_name_match') : result.snippet}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
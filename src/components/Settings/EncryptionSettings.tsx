@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Lock, LockOpen, KeyRound } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useSyncStore } from '../../store/syncStore';
+import styles from './Settings.module.css';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type Mode = 'idle' | 'enable' | 'change';
+
+export const EncryptionSettings = () => {
+  const { t } = useTranslation();
+  const { encryption, status, enableEncryption, unlockEncryption, changePassphrase } = useSyncStore();
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isBusy = isWorking || status === 'syncing' || status === 'saving-to-disk';
+  const isMismatch = confirm.length > 0 && passphrase !== confirm;
+  const isNewValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirm;
+
+  const reset = () => {
+    setMode('idle');
+    setCurrent('');
+    setPassphrase('');
+    setConfirm('');
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsWorking(true);
+    const ok = await action();
+    setIsWorking(false);
+    if (ok) reset();
+  };
+
+  const newPassphraseFields = (
+    <>
+      <input
+        className={styles.textInput}
+        type="password"
+        autoComplete="new-password"
+        placeholder={mode === 'change' ? t('encryption.new_passphrase') : t('encryption.passphrase')}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+      />
+      <input
+        className={styles.textInput}
+        type="password"
+        autoComplete="new-password"
+        placeholder={t('encryption.confirm_passphrase')}
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+      />
+      {isMismatch && <div className={styles.encryptionHint}>{t('encryption.mismatch')}</div>}
+      {!isMismatch && passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH && (
+        <div className={styles.encryptionHint}>{t('encryption.too_short', { min: MIN_PASSPHRASE_LENGTH })}</div>
+      )}
+    </>
+  );
+
+  if (encryption === 'locked') {
+    return (
+      <div className={styles.encryptionSection}>
+        <div className={styles.encryptionStatus}>
+          <Lock size={14} />
+          <span>{t('encryption.locked')}</span>
+        </div>
+        <input
+          className={styles.textInput}
+          type="password"
+          autoComplete="current-password"
+          placeholder={t('encryption.passphrase')}
+          value={current}
+          onChange={(e) => setCurrent(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && current && run(() => unlockEncryption(current))}
+        />
+        <button
+          className={styles.authButton}
+          onClick={() => run(() => unlockEncryption(current))}
+          disabled={isBusy || !current}
+        >
+          <KeyRound size={18} />
+          <span>{t('encryption.unlock')}</span>
+        </button>
+      </div>
+    );
+  }
+
+  if (encryption === 'on') {
+    return (
+      <div className={styles.encryptionSection}>
+        <div className={styles.encryptionStatus}>
+          <Lock size={14} />
+          <span>{t('encryption.enabled')}</span>
+          {mode === 'idle' && (
+            <button className={styles.linkButton} onClick={() => setMode('change')} disabled={isBusy}>
+              {t('encryption.change_passphrase')}
+            </button>
+          )}
+        </div>
+        {mode === 'change' && (
+          <>
+            <input
+              className={styles.textInput}
+              type="password"
+              autoComplete="current-password"
+              placeholder={t('encryption.current_passphrase')}
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+            />
+            {newPassphraseFields}
+            <button
+              className={styles.authButton}
+              onClick={() => run(() => changePassphrase(current, passphrase))}
+              disabled={isBusy || !current || !isNewValid}
+            >
+              <KeyRound size={18} />
+              <span>{t('encryption.change_passphrase')}</span>
+            </button>
+            <button className={styles.linkButton} onClick={reset}>{t('cancel')}</button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.encryptionSection}>
+      <div className={styles.encryptionStatus}>
+        <LockOpen size={14} />
+        <span>{t('encryption.disabled')}</span>
+        {mode === 'idle' && (
+          <button className={styles.linkButton} onClick={() => setMode('enable')} disabled={isBusy}>
+            {t('encryption.enable')}
+          </button>
+        )}
+      </div>
+      {mode === 'enable' && (
+        <>
+          {newPassphraseFields}
+          <div className={styles.encryptionHint}>{t('encryption.hint')}</div>
+          <button
+            className={styles.authButton}
+            onClick={() => run(() => enableEncryption(passphrase))}
+            disabled={isBusy || !isNewValid}
+          >
+            <Lock size={18} />
+            <span>{t('encryption.enable')}</span>
+          </button>
+          <button className={styles.linkButton} onClick={reset}>{t('cancel')}</button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import clsx from 'clsx';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { useUserPreferencesStore } from '../../store/userPreferencesStore';
+import {
+  MIN_PRESSURE,
+  PALM_CONTACT_SIZE,
+  PALM_REJECTION_DELAY,
+  PRESSURE_CURVE,
+  TOUCH_GESTURE_ACTIONS
+} from '../../lib/penInput';
+import type { TouchGestureAction } from '../../lib/penInput';
+import { Dropdown } from '../UI/Dropdown';
+import styles from './Settings.module.css';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  display: string;
+  range: { min: number; max: number };
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const Slider = ({ label, value, display, range, step, onChange }: SliderProps) => (
+  <label className={styles.sliderField}>
+    <span className={styles.sliderLabel}>
+      <span>{label}</span>
+      <span>{display}</span>
+    </span>
+    <input
+      type="range"
+      className={styles.slider}
+      min={range.min}
+      max={range.max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+  </label>
+);
+
+export const PenSettings = () => {
+  const { t } = useTranslation();
+  const { penMode, setPenMode } = useFileSystemStore();
+  const {
+    shapeRecognition,
+    pressureCurve,
+    minPressure,
+    palmRejection,
+    palmContactSize,
+    palmRejectionDelay,
+    twoFingerTap,
+    twoFingerDoubleTap,
+    updatePreferences
+  } = useUserPreferencesStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [openGesture, setOpenGesture] = useState<'tap' | 'double_tap' | null>(null);
+
+  const gestureOptions = TOUCH_GESTURE_ACTIONS.map(action => ({ value: action, label: t(`pen.gesture_${action}`) }));
+
+  const gestureDropdown = (gesture: 'tap' | 'double_tap', value: TouchGestureAction, key: 'twoFingerTap' | 'twoFingerDoubleTap') => (
+    <div className={styles.sliderField}>
+      <span className={styles.sliderLabel}>{t(`pen.two_finger_${gesture}`)}</span>
+      <div className={styles.languageDropdownWrapper}>
+        <Dropdown
+          value={value}
+          options={gestureOptions}
+          onChange={(val) => updatePreferences({ [key]: val as TouchGestureAction })}
+          isOpen={openGesture === gesture}
+          onToggle={() => setOpenGesture(openGesture === gesture ? null : gesture)}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <div className={styles.toggleWrapper} style={{ marginTop: '1rem' }}>
+        <div className={styles.toggleLabel}>{t('pen_mode')}</div>
+        <div
+          className={clsx(styles.toggle, penMode && styles.toggleActive)}
+          onClick={() => setPenMode(!penMode)}
+        >
+          <div className={styles.toggleCircle} />
+        </div>
+      </div>
+      <div className={styles.toggleWrapper} style={{ marginTop: '1rem' }}>
+        <div className={styles.toggleLabel}>{t('shape_recognition')}</div>
+        <div
+          className={clsx(styles.toggle, shapeRecognition && styles.toggleActive)}
+          onClick={() => updatePreferences({ shapeRecognition: !shapeRecognition })}
+        >
+          <div className={styles.toggleCircle} />
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className={styles.penSection}>
+          <Slider
+            label={t('pen.pressure_curve')}
+            value={pressureCurve}
+            display={pressureCurve < 1 ? t('pen.soft') : pressureCurve > 1 ? t('pen.firm') : t('pen.linear')}
+            range={PRESSURE_CURVE}
+            step={0.1}
+            onChange={(value) => updatePreferences({ pressureCurve: value })}
+          />
+          <Slider
+            label={t('pen.min_pressure')}
+            value={minPressure}
+            display={`${Math.round(minPressure * 100)}%`}
+            range={MIN_PRESSURE}
+            step={0.01}
+            onChange={(value) => updatePreferences({ minPressure: value })}
+          />
+
+          <div className={styles.toggleWrapper}>
+            <div className={styles.toggleLabel}>{t('pen.palm_rejection')}</div>
+            <div
+              className={clsx(styles.toggle, palmRejection && styles.toggleActive)}
+              onClick={() => updatePreferences({ palmRejection: !palmRejection })}
+            >
+              <div className={styles.toggleCircle} />
+            </div>
+          </div>
+          {palmRejection && (
+            <>
+              <Slider
+                label={t('pen.palm_contact_size')}
+                value={palmContactSize}
+                display={`${palmContactSize}px`}
+                range={PALM_CONTACT_SIZE}
+                step={5}
+                onChange={(value) => updatePreferences({ palmContactSize: value })}
+              />
+              <Slider
+                label={t('pen.palm_delay')}
+                value={palmRejectionDelay}
+                display={`${palmRejectionDelay}ms`}
+                range={PALM_REJECTION_DELAY}
+                step={100}
+                onChange={(value) => updatePreferences({ palmRejectionDelay: value })}
+              />
+            </>
+          )}
+
+          {gestureDropdown('tap', twoFingerTap, 'twoFingerTap')}
+          {gestureDropdown('double_tap', twoFingerDoubleTap, 'twoFingerDoubleTap')}
+        </div>
+      )}
+
+      <button className={styles.linkButton} style={{ marginTop: '0.5rem' }} onClick={() => setIsExpanded(!isExpanded)}>
+        {isExpanded ? t('pen.less') : t('pen.more')}
+      </button>
+    </>
+  );
+};
@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
-import { Settings as SettingsIcon, Sun, Moon, Monitor, LogOut, RefreshCw } from 'lucide-react';
+import { Settings as SettingsIcon, Sun, Moon, Monitor, LogOut, RefreshCw, Server, HardDrive, KeyRound } from 'lucide-react';
 import { useFileSystemStore } from '../../store/fileSystemStore';
 import { useSyncStore } from '../../store/syncStore';
+import type { SyncProviderId } from '../../lib/syncProviders';
 import { useTranslation } from 'react-i18next';
 import styles from './Settings.module.css';
 import clsx from 'clsx';
@@ -10,13 +11,17 @@ import tldrawLogo from '../../assets/tldraw-logo.svg';
 import { Dropdown } from '../UI/Dropdown';
 import { CircularButton } from '../UI/CircularButton';
 import { ConfirmationModal } from '../UI/ConfirmationModal';
+import { EncryptionSettings } from './EncryptionSettings';
+import { PenSettings } from './PenSettings';
 
 export const Settings = () => {
-  const { theme, setTheme, dominantHand, setDominantHand, language, setLanguage } = useFileSystemStore();
+  const { theme, setTheme, dominantHand, setDominantHand, language, setLanguage, trashRetentionDays, setTrashRetentionDays } = useFileSystemStore();
   const { t } = useTranslation();
   const leftHandedMode = dominantHand === 'left';
   const {
     isConfigured,
+    providerId,
+    connectProvider,
     isEnabled,
     setIsEnabled,
     authenticate,
@@ -24,10 +29,18 @@ export const Settings = () => {
     status: syncStatus,
     lastSync,
     logout,
-    user
+    user,
+    needsPassword,
+    unlockWebDav
   } = useSyncStore();
   const [isOpen, setIsOpen] = useState(false);
   const [isLanguageOpen, setIsLanguageOpen] = useState(false);
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+  const [isProviderOpen, setIsProviderOpen] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<SyncProviderId>(providerId);
+  const [webdavForm, setWebdavForm] = useState({ url: '', username: '', password: '' });
+  const [webdavPassword, setWebdavPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [deleteDataOnLogout, setDeleteDataOnLogout] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -37,6 +50,8 @@ export const Settings = () => {
       if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
         setIsOpen(false);
         setIsLanguageOpen(false);
+        setIsRetentionOpen(false);
+        setIsProviderOpen(false);
       }
     };
     window.addEventListener('mousedown', handleClickOutside);
@@ -53,6 +68,29 @@ export const Settings = () => {
     setIsEnabled(!isEnabled);
   };
 
+  const handleConnect = async () => {
+    if (selectedProvider === 'google-drive') {
+      authenticate();
+      return;
+    }
+    setIsConnecting(true);
+    await connectProvider(selectedProvider, selectedProvider === 'webdav' ? webdavForm : undefined);
+    setIsConnecting(false);
+  };
+
+  const handleUnlockWebDav = async () => {
+    setIsConnecting(true);
+    if (await unlockWebDav(webdavPassword)) setWebdavPassword('');
+    setIsConnecting(false);
+  };
+
+  const providers = [
+    { value: 'google-drive', label: t('sync_provider.google_drive') },
+    { value: 'webdav', label: t('sync_provider.webdav') },
+    // Mock remote in OPFS for exercising sync offline, nothing leaves the browser
+    ...(import.meta.env.DEV ? [{ value: 'local', label: 'Local mock remote (dev)' }] : []),
+  ];
+
   const themes = [
     { id: 'auto', icon: Monitor, label: t('theme_auto') },
     { id: 'light', icon: Sun, label: t('theme_light') },
@@ -159,14 +197,21 @@ export const Settings = () => {
                 <span>{t('hand_right')}</span>
               </button>
             </div>
-            <div className={styles.toggleWrapper} style={{ marginTop: '1rem' }}>
-              <div className={styles.toggleLabel}>{t('pen_mode')}</div>
-              <div
-                className={clsx(styles.toggle, useFileSystemStore.getState().penMode && styles.toggleActive)}
-                onClick={() => useFileSystemStore.getState().setPenMode(!useFileSystemStore.getState().penMode)}
-              >
-                <div className={styles.toggleCircle} />
-              </div>
+            <PenSettings />
+          </div>
+
+          <div className={styles.divider} />
+
+          <div className={styles.section}>
+            <div className={styles.sectionTitle}>{t('trash.retention')}</div>
+            <div className={styles.languageDropdownWrapper}>
+              <Dropdown
+                value={String(trashRetentionDays)}
+                options={[7, 30, 90, 365].map(days => ({ value: String(days), label: t('trash.retention_days', { count: days }) }))}
+                onChange={(val) => setTrashRetentionDays(Number(val))}
+                isOpen={isRetentionOpen}
+                onToggle={() => setIsRetentionOpen(!isRetentionOpen)}
+              />
             </div>
           </div>
 
@@ -176,14 +221,63 @@ export const Settings = () => {
             <div className={styles.sectionTitle}>{t('cloud_sync')}</div>
             {!isConfigured ? (
               <div className={styles.syncSection}>
-                <button
-                  className={styles.authButton}
-                  onClick={() => authenticate()}
-                  title={t('connect_google_drive')}
-                >
-                  <img src={googleDriveIcon} alt="Google Drive" />
-                  <span>{t('connect_google_drive')}</span>
-                </button>
+                <div className={styles.languageDropdownWrapper}>
+                  <Dropdown
+                    value={selectedProvider}
+                    options={providers}
+                    onChange={(val) => setSelectedProvider(val as SyncProviderId)}
+                    isOpen={isProviderOpen}
+                    onToggle={() => setIsProviderOpen(!isProviderOpen)}
+                  />
+                </div>
+
+                {selectedProvider === 'webdav' && (
+                  <>
+                    <input
+                      className={styles.textInput}
+                      type="url"
+                      placeholder={t('sync_provider.url')}
+                      value={webdavForm.url}
+                      onChange={(e) => setWebdavForm({ ...webdavForm, url: e.target.value })}
+                    />
+                    <input
+                      className={styles.textInput}
+                      type="text"
+                      autoComplete="username"
+                      placeholder={t('sync_provider.username')}
+                      value={webdavForm.username}
+                      onChange={(e) => setWebdavForm({ ...webdavForm, username: e.target.value })}
+                    />
+                    <input
+                      className={styles.textInput}
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder={t('sync_provider.password')}
+                      value={webdavForm.password}
+                      onChange={(e) => setWebdavForm({ ...webdavForm, password: e.target.value })}
+                    />
+                  </>
+                )}
+
+                {selectedProvider === 'google-drive' ? (
+                  <button
+                    className={styles.authButton}
+                    onClick={handleConnect}
+                    title={t('connect_google_drive')}
+                  >
+                    <img src={googleDriveIcon} alt="Google Drive" />
+                    <span>{t('connect_google_drive')}</span>
+                  </button>
+                ) : (
+                  <button
+                    className={styles.authButton}
+                    onClick={handleConnect}
+                    disabled={isConnecting || (selectedProvider === 'webdav' && !webdavForm.url)}
+                  >
+                    {selectedProvider === 'webdav' ? <Server size={18} /> : <HardDrive size={18} />}
+                    <span>{t('sync_provider.connect')}</span>
+                  </button>
+                )}
               </div>
             ) : (
               <div className={styles.syncSection}>
@@ -193,7 +287,13 @@ export const Settings = () => {
                     onClick={() => setShowLogoutConfirm(true)}
                     title={t('log_out')}
                   >
-                    <img src={user.photo} alt={user.name} className={styles.userPhoto} referrerPolicy="no-referrer" />
+                    {user.photo ? (
+                      <img src={user.photo} alt={user.name} className={styles.userPhoto} referrerPolicy="no-referrer" />
+                    ) : (
+                      <div className={styles.userPhoto}>
+                        {providerId === 'webdav' ? <Server size={16} /> : <HardDrive size={16} />}
+                      </div>
+                    )}
                     <div className={styles.userName}>{user.name}</div>
                     <div className={styles.logoutIconWrapper}>
                       <LogOut size={18} />
@@ -201,6 +301,29 @@ export const Settings = () => {
                   </button>
                 )}
 
+                {needsPassword && (
+                  <>
+                    <div className={styles.encryptionHint}>{t('sync_provider.password_required')}</div>
+                    <input
+                      className={styles.textInput}
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder={t('sync_provider.password')}
+                      value={webdavPassword}
+                      onChange={(e) => setWebdavPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && webdavPassword && handleUnlockWebDav()}
+                    />
+                    <button
+                      className={styles.authButton}
+                      onClick={handleUnlockWebDav}
+                      disabled={isConnecting || !webdavPassword}
+                    >
+                      <KeyRound size={18} />
+                      <span>{t('sync_provider.connect')}</span>
+                    </button>
+                  </>
+                )}
+
                 <div className={styles.toggleWrapper}>
                   <div className={styles.toggleLabel}>{t('auto_sync')}</div>
                   <div
@@ -225,6 +348,8 @@ export const Settings = () => {
                     {t('last_sync', { time: new Date(lastSync).toLocaleTimeString() })}
                   </div>
                 )}
+
+                <EncryptionSettings />
               </div>
             )}
           </div>
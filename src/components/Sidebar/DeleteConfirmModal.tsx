@@ -1,6 +1,6 @@
 import { createPortal } from 'react-dom';
 import { useTranslation } from 'react-i18next';
-import { Book, Folder as FolderIcon, File } from 'lucide-react';
+import { Book, Folder as FolderIcon, File, FolderSearch } from 'lucide-react';
 import styles from './DeleteConfirmModal.module.css';
 import { HybridName } from '../UI/HybridName';
 
@@ -8,7 +8,7 @@ interface DeleteConfirmModalProps {
   isOpen: boolean;
   itemName: string;
   itemStrokes?: string;
-  itemType: 'notebook' | 'folder' | 'page';
+  itemType: 'notebook' | 'folder' | 'page' | 'smartFolder';
   itemCount?: number;
   onConfirm: () => void;
   onCancel: () => void;
@@ -21,8 +21,9 @@ export const DeleteConfirmModal = ({ isOpen, itemName, itemStrokes, itemType, it
   let Icon = File;
   if (itemType === 'notebook') Icon = Book;
   if (itemType === 'folder') Icon = FolderIcon;
+  if (itemType === 'smartFolder') Icon = FolderSearch;
 
-  const itemDescriptionKey = itemType === 'notebook' ? 'notebook' : itemType === 'folder' ? 'folder' : 'page';
+  const itemDescriptionKey = itemType === 'smartFolder' ? 'smart_folders.smart_folder' : itemType === 'notebook' ? 'notebook' : itemType === 'folder' ? 'folder' : 'page';
 
   return createPortal(
     <div className={styles.backdrop} onClick={onCancel}>
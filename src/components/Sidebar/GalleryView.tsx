@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import clsx from 'clsx';
+import { ArrowDownUp, Book, Check, CheckCheck, ChevronRight, Download, Folder as FolderIcon, File, LayoutGrid, Trash2, X } from 'lucide-react';
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  pointerWithin,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import { SortableContext, rectSortingStrategy, sortableKeyboardCoordinates, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { resolveItemColor } from '../../lib/colorUtils';
+import { useThemeColorHex } from '../../hooks/useThemeColor';
+import { exportItem } from '../../utils/exportUtils';
+import { useBulkActionToast } from '../../hooks/useBulkActionToast';
+import { HybridName } from '../UI/HybridName';
+import { PageThumbnail } from '../UI/PageThumbnail';
+import { Dropdown } from '../UI/Dropdown';
+import { ConfirmationModal } from '../UI/ConfirmationModal';
+import type { Notebook, Folder, Page } from '../../types';
+import styles from './GalleryView.module.css';
+
+type GalleryItem = Notebook | Folder | Page;
+type GallerySort = 'manual' | 'name' | 'createdAt' | 'updatedAt';
+
+const GALLERY_SORT_KEY = 'cuaderno-gallery-sort';
+const SORT_OPTIONS: GallerySort[] = ['manual', 'name', 'createdAt', 'updatedAt'];
+
+const isPageItem = (item: GalleryItem): item is Page => 'updatedAt' in item;
+const isNotebookItem = (item: GalleryItem): item is Notebook => !('notebookId' in item);
+
+const loadSort = (): GallerySort => {
+  const saved = localStorage.getItem(GALLERY_SORT_KEY) as GallerySort;
+  return SORT_OPTIONS.includes(saved) ? saved : 'manual';
+};
+
+interface GalleryTileProps {
+  item: GalleryItem;
+  isSelected: boolean;
+  isSelecting: boolean;
+  isDarkMode: boolean;
+  onClick: (e: React.MouseEvent) => void;
+  onToggleSelect: () => void;
+}
+
+const GalleryTile = ({ item, isSelected, isSelecting, isDarkMode, onClick, onToggleSelect }: GalleryTileProps) => {
+  const { t, i18n } = useTranslation();
+  const { notebooks, folders, pages } = useFileSystemStore();
+  const colorName = useMemo(() => resolveItemColor(item.id, folders, pages, notebooks), [item.id, folders, pages, notebooks]);
+  const colorHex = useThemeColorHex(colorName, isDarkMode);
+
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging, isOver } = useSortable({ id: item.id, data: { item } });
+
+  const Icon = isNotebookItem(item) ? Book : isPageItem(item) ? File : FolderIcon;
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.4 : 1 }}
+      className={clsx(
+        styles.tile,
+        isSelected && styles.tileSelected,
+        isOver && !isPageItem(item) && styles.tileDropTarget
+      )}
+      {...attributes}
+      {...listeners}
+      onClick={onClick}
+    >
+      <div className={styles.preview}>
+        {isPageItem(item) ? (
+          <PageThumbnail page={item} isDarkMode={isDarkMode} className={styles.thumbnail} iconSize={32} />
+        ) : (
+          <div className={styles.containerPreview} style={{ color: colorHex }}>
+            <Icon size={48} strokeWidth={1.25} />
+          </div>
+        )}
+        <button
+          className={clsx(styles.checkbox, (isSelected || isSelecting) && styles.checkboxVisible, isSelected && styles.checkboxChecked)}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSelect();
+          }}
+          title={isSelected ? t('gallery.deselect') : t('gallery.select')}
+        >
+          {isSelected && <Check size={12} />}
+        </button>
+      </div>
+      <div className={styles.tileName}>
+        <Icon size={14} className={styles.tileIcon} style={{ color: colorHex }} />
+        <HybridName
+          className={styles.tileNameText}
+          name={item.name}
+          strokes={item.nameStrokes}
+          isRtl={i18n.dir() === 'rtl'}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface CrumbProps {
+  containerId: string | null;
+  isCurrent: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+// Crumbs double as drop targets to move the dragged items up the tree
+const Crumb = ({ containerId, isCurrent, onClick, children }: CrumbProps) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `crumb-${containerId ?? 'root'}`,
+    data: { containerId },
+    disabled: isCurrent || !containerId,
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      className={clsx(styles.crumb, isCurrent && styles.crumbCurrent, isOver && styles.crumbOver)}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+};
+
+interface GalleryViewProps {
+  containerId: string | null; // Folder or notebook to open, null for the notebooks themselves
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+// Full-screen alternative to column browsing. Moves go through the same store operations as the sidebar.
+export const GalleryView = ({ containerId: initialContainerId, isDarkMode, onClose }: GalleryViewProps) => {
+  const { t, i18n } = useTranslation();
+  const {
+    notebooks, folders, pages,
+    moveNode, moveNodes, deleteNodes, reorderNotebooks, selectPage, deleteNotebook
+  } = useFileSystemStore();
+  const runBulkAction = useBulkActionToast();
+
+  const [containerId, setContainerId] = useState(initialContainerId);
+  const [sortBy, setSortBy] = useState<GallerySort>(loadSort);
+  const [isSortMenuOpen, setIsSortMenuOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [activeDragItem, setActiveDragItem] = useState<GalleryItem | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // The open container may be trashed from another device, fall back to the notebooks
+  const container = containerId ? folders[containerId] || notebooks.find(n => n.id === containerId) : undefined;
+  const currentId = container && !container.trashedAt ? containerId : null;
+
+  const items = useMemo(() => {
+    const children: GalleryItem[] = currentId
+      ? [
+        ...Object.values(folders).filter(f => f.parentId === currentId && !f.trashedAt),
+        ...Object.values(pages).filter(p => p.parentId === currentId && !p.trashedAt)
+      ]
+      : notebooks.filter(n => !n.trashedAt);
+
+    if (sortBy === 'manual') return children.sort((a, b) => (a.order || 0) - (b.order || 0));
+
+    // Folders stay ahead of pages, newest first for dates
+    const rank = (item: GalleryItem) => (isPageItem(item) ? 1 : 0);
+    const date = (item: GalleryItem) => (sortBy === 'updatedAt' && isPageItem(item) ? item.updatedAt : item.createdAt) || 0;
+    return children.sort((a, b) => rank(a) - rank(b) || (sortBy === 'name'
+      ? a.name.localeCompare(b.name, i18n.language, { numeric: true })
+      : date(b) - date(a)));
+  }, [currentId, notebooks, folders, pages, sortBy, i18n.language]);
+
+  const path = useMemo(() => {
+    const chain: (Notebook | Folder)[] = [];
+    let id = currentId;
+    while (id && folders[id]) {
+      chain.unshift(folders[id]);
+      id = folders[id].parentId;
+    }
+    const notebook = notebooks.find(n => n.id === id);
+    if (notebook) chain.unshift(notebook);
+    return chain;
+  }, [currentId, folders, notebooks]);
+
+  // Selection only ever covers what is on screen
+  const selection = items.filter(item => selectedIds.includes(item.id));
+
+  const openContainer = (id: string | null) => {
+    setContainerId(id);
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+    setAnchorId(id);
+  };
+
+  const handleTileClick = (item: GalleryItem, e: React.MouseEvent) => {
+    if (e.shiftKey && anchorId) {
+      const from = items.findIndex(i => i.id === anchorId);
+      const to = items.findIndex(i => i.id === item.id);
+      const range = items.slice(Math.min(from, to), Math.max(from, to) + 1).map(i => i.id);
+      setSelectedIds(ids => [...new Set([...ids, ...range])]);
+      return;
+    }
+    if (e.metaKey || e.ctrlKey || selection.length > 0) {
+      toggleSelected(item.id);
+      return;
+    }
+    if (isPageItem(item)) {
+      selectPage(item.id);
+      onClose();
+    } else {
+      openContainer(item.id);
+    }
+  };
+
+  const handleDownload = async () => {
+    for (const item of selection) {
+      await exportItem(item, folders, pages, isNotebookItem(item) ? 'notebook' : isPageItem(item) ? 'page' : 'folder');
+    }
+  };
+
+  // Notebooks are only ever selected among themselves, on the top level
+  const handleDelete = () => {
+    const notebookIds = selection.filter(isNotebookItem).map(item => item.id);
+    const nodeIds = selection.filter(item => !isNotebookItem(item)).map(item => item.id);
+    notebookIds.forEach(id => deleteNotebook(id));
+    if (nodeIds.length > 0) runBulkAction(() => deleteNodes(nodeIds));
+    setSelectedIds([]);
+    setIsConfirmingDelete(false);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || isConfirmingDelete) return;
+      if (selectedIds.length > 0) setSelectedIds([]);
+      else onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds, isConfirmingDelete, onClose]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveDragItem(event.active.data.current?.item || null);
+  };
+
+  // Dropping on a folder or a crumb moves into it, dropping on a page reorders before it.
+  // Dragging a selected tile carries the whole selection along.
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveDragItem(null);
+    if (!over || active.id === over.id) return;
+
+    const activeId = active.id as string;
+    const movingIds = selectedIds.includes(activeId) ? selection.map(item => item.id) : [activeId];
+
+    // Like the sidebar, only a dragged selection goes through the bulk move and its undo
+    const move = (overId: string, isContainer: boolean) => {
+      if (movingIds.length > 1) runBulkAction(() => moveNodes(movingIds, overId, isContainer));
+      else moveNode(activeId, overId, isContainer);
+    };
+
+    const targetContainerId = over.data.current?.containerId;
+    if (targetContainerId !== undefined) {
+      if (targetContainerId) move(targetContainerId, true);
+      return;
+    }
+
+    const overItem = items.find(item => item.id === over.id);
+    if (!overItem || movingIds.includes(overItem.id)) return;
+
+    if (isNotebookItem(overItem)) {
+      if (sortBy === 'manual') movingIds.forEach(id => reorderNotebooks(id, overItem.id));
+    } else if (!isPageItem(overItem)) {
+      move(overItem.id, true);
+    } else if (sortBy === 'manual') {
+      move(overItem.id, false);
+    }
+  };
+
+  const sortLabels: Record<GallerySort, string> = {
+    manual: t('gallery.sort_manual'),
+    name: t('gallery.sort_name'),
+    createdAt: t('gallery.sort_created'),
+    updatedAt: t('gallery.sort_updated'),
+  };
+
+  return createPortal(
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveDragItem(null)}
+    >
+      <div className={styles.gallery} data-is-ui="true">
+        <div className={styles.header}>
+          <LayoutGrid size={18} className={styles.headerIcon} />
+          <nav className={styles.breadcrumbs}>
+            <Crumb containerId={null} isCurrent={!currentId} onClick={() => openContainer(null)}>
+              {t('gallery.notebooks')}
+            </Crumb>
+            {path.map(node => (
+              <span key={node.id} className={styles.crumbGroup}>
+                <ChevronRight size={14} className={styles.crumbSeparator} />
+                <Crumb containerId={node.id} isCurrent={node.id === currentId} onClick={() => openContainer(node.id)}>
+                  <HybridName
+                    className={styles.crumbName}
+                    name={node.name}
+                    strokes={node.nameStrokes}
+                    isRtl={i18n.dir() === 'rtl'}
+                  />
+                </Crumb>
+              </span>
+            ))}
+          </nav>
+
+          {selection.length > 0 ? (
+            <div className={styles.actions}>
+              <span className={styles.selectionCount}>{t('gallery.selected', { count: selection.length })}</span>
+              <button
+                className={styles.actionButton}
+                onClick={() => setSelectedIds(items.map(item => item.id))}
+                title={t('gallery.select_all')}
+              >
+                <CheckCheck size={16} />
+              </button>
+              <button className={styles.actionButton} onClick={handleDownload} title={t('download')}>
+                <Download size={16} />
+              </button>
+              <button
+                className={clsx(styles.actionButton, styles.dangerButton)}
+                onClick={() => setIsConfirmingDelete(true)}
+                title={t('delete')}
+              >
+                <Trash2 size={16} />
+              </button>
+              <button className={styles.actionButton} onClick={() => setSelectedIds([])} title={t('gallery.clear_selection')}>
+                <X size={16} />
+              </button>
+            </div>
+          ) : (
+            <div className={styles.actions}>
+              <Dropdown
+                value={sortBy}
+                options={SORT_OPTIONS.map(option => ({ value: option, label: sortLabels[option] }))}
+                onChange={(value) => {
+                  setSortBy(value as GallerySort);
+                  localStorage.setItem(GALLERY_SORT_KEY, value);
+                  setIsSortMenuOpen(false);
+                }}
+                isOpen={isSortMenuOpen}
+                onToggle={() => setIsSortMenuOpen(!isSortMenuOpen)}
+                icon={<ArrowDownUp size={14} />}
+                triggerClassName={styles.sortTrigger}
+                menuWidth={180}
+              />
+            </div>
+          )}
+
+          <button className={styles.closeButton} onClick={onClose} title={t('gallery.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className={styles.grid}>
+          <SortableContext
+            items={items.map(item => item.id)}
+            // Tiles only make room for a drop when the order is the one being edited
+            strategy={sortBy === 'manual' ? rectSortingStrategy : () => null}
+          >
+            {items.map(item => (
+              <GalleryTile
+                key={item.id}
+                item={item}
+                isSelected={selectedIds.includes(item.id)}
+                isSelecting={selection.length > 0}
+                isDarkMode={isDarkMode}
+                onClick={(e) => handleTileClick(item, e)}
+                onToggleSelect={() => toggleSelected(item.id)}
+              />
+            ))}
+          </SortableContext>
+          {items.length === 0 && <div className={styles.empty}>{t('gallery.empty')}</div>}
+        </div>
+      </div>
+
+      <DragOverlay>
+        {activeDragItem && (
+          <div className={styles.dragOverlay}>
+            <HybridName name={activeDragItem.name} strokes={activeDragItem.nameStrokes} />
+            {selectedIds.includes(activeDragItem.id) && selection.length > 1 && (
+              <span className={styles.dragCount}>{selection.length}</span>
+            )}
+          </div>
+        )}
+      </DragOverlay>
+
+      {isConfirmingDelete && (
+        <ConfirmationModal
+          title={t('gallery.delete_title', { count: selection.length })}
+          description={t('gallery.delete_description')}
+          confirmLabel={t('delete')}
+          variant="danger"
+          onConfirm={handleDelete}
+          onCancel={() => setIsConfirmingDelete(false)}
+        />
+      )}
+    </DndContext>,
+    document.body
+  );
+};
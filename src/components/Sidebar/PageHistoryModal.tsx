@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { Tldraw } from 'tldraw';
+import { History, X } from 'lucide-react';
+import clsx from 'clsx';
+import { toast } from 'sonner';
+import { pageHistory } from '../../lib/pageHistory';
+import type { PageRevision } from '../../lib/pageHistory';
+import { customShapeUtils } from '../../shapes';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { getIsDarkMode } from '../../lib/themeUtils';
+import { HybridName } from '../UI/HybridName';
+import type { Page } from '../../types';
+import styles from './PageHistoryModal.module.css';
+
+interface PageHistoryModalProps {
+  page: Page | null;
+  onClose: () => void;
+}
+
+export const PageHistoryModal = ({ page, onClose }: PageHistoryModalProps) => {
+  const { t, i18n } = useTranslation();
+  const { theme, restorePageRevision } = useFileSystemStore();
+  const [revisions, setRevisions] = useState<PageRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!page) return;
+    setSelectedId(null);
+    setContent(null);
+    pageHistory.listRevisions(page.id).then(revs => {
+      setRevisions(revs);
+      if (revs.length > 0) setSelectedId(revs[0].id);
+    });
+  }, [page]);
+
+  useEffect(() => {
+    if (!page || !selectedId) return;
+    let cancelled = false;
+    pageHistory.loadRevision(page.id, selectedId).then(c => {
+      if (!cancelled) setContent(c);
+    });
+    return () => { cancelled = true; };
+  }, [page, selectedId]);
+
+  const snapshot = useMemo(() => {
+    if (!content) return null;
+    try {
+      const parsed = JSON.parse(content);
+      return parsed.store ? { store: parsed.store, schema: parsed.schema } : null;
+    } catch {
+      return null;
+    }
+  }, [content]);
+
+  if (!page) return null;
+
+  const handleRestore = async (asCopy: boolean) => {
+    if (!content) return;
+    setIsRestoring(true);
+    try {
+      await restorePageRevision(page.id, content, asCopy);
+      onClose();
+    } catch (e) {
+      console.error('Restoring page revision failed', e);
+      toast.error(t('history.restore_failed'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()} data-is-ui="true">
+        <div className={styles.header}>
+          <History size={18} />
+          <HybridName name={page.name} strokes={page.nameStrokes} className={styles.pageName} />
+          <button className={styles.closeButton} onClick={onClose} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <div className={styles.empty}>{t('history.empty')}</div>
+        ) : (
+          <div className={styles.body}>
+            <div className={styles.list}>
+              {revisions.map(rev => (
+                <button
+                  key={rev.id}
+                  className={clsx(styles.revision, rev.id === selectedId && styles.revisionActive)}
+                  onClick={() => setSelectedId(rev.id)}
+                >
+                  <span>{formatDate(rev.createdAt)}</span>
+                  <span className={styles.revisionSize}>{Math.max(1, Math.round(rev.size / 1024))} KB</span>
+                </button>
+              ))}
+            </div>
+            <div className={styles.preview}>
+              {snapshot && (
+                <Tldraw
+                  key={selectedId}
+                  hideUi
+                  snapshot={snapshot}
+                  shapeUtils={customShapeUtils}
+                  inferDarkMode={getIsDarkMode(theme)}
+                  licenseKey={import.meta.env.VITE_TLDRAW_LICENSE}
+                  onMount={(editor) => {
+                    editor.updateInstanceState({ isReadonly: true });
+                    editor.zoomToFit();
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryBtn} onClick={onClose}>
+            {t('cancel')}
+          </button>
+          <button className={styles.secondaryBtn} disabled={!content || isRestoring} onClick={() => handleRestore(true)}>
+            {t('history.restore_as_copy')}
+          </button>
+          <button className={styles.primaryBtn} disabled={!content || isRestoring} onClick={() => handleRestore(false)}>
+            {t('history.restore')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { FileText, X } from 'lucide-react';
+import clsx from 'clsx';
+import { toast } from 'sonner';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { exportToPdf } from '../../utils/pdfExport';
+import type { PdfExportOptions } from '../../utils/pdfExport';
+import type { Notebook, Folder, Page } from '../../types';
+import styles from './PdfExportModal.module.css';
+
+const OPTIONS_KEY = 'cuaderno-pdf-export-options';
+
+const loadOptions = (): PdfExportOptions => ({
+  layout: 'fit',
+  paper: 'a4',
+  outline: true,
+  ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}')
+});
+
+interface PdfExportModalProps {
+  item: Notebook | Folder | Page;
+  type: 'notebook' | 'folder' | 'page';
+  onClose: () => void;
+}
+
+export const PdfExportModal = ({ item, type, onClose }: PdfExportModalProps) => {
+  const { t } = useTranslation();
+  const { folders, pages } = useFileSystemStore();
+  const [options, setOptions] = useState<PdfExportOptions>(loadOptions);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const update = (patch: Partial<PdfExportOptions>) => {
+    const next = { ...options, ...patch };
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(next));
+    setOptions(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportToPdf(item, folders, pages, type, options);
+      onClose();
+    } catch (e) {
+      console.error('PDF export failed', e);
+      toast.error(t('pdf_export.failed'));
+      setIsExporting(false);
+    }
+  };
+
+  const choice = <K extends 'layout' | 'paper'>(key: K, value: PdfExportOptions[K], label: string) => (
+    <button
+      className={clsx(styles.choice, options[key] === value && styles.choiceActive)}
+      onClick={() => update({ [key]: value } as Partial<PdfExportOptions>)}
+    >
+      {label}
+    </button>
+  );
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={isExporting ? undefined : onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()} data-is-ui="true">
+        <div className={styles.header}>
+          <FileText size={18} />
+          <span className={styles.title}>{t('pdf_export.title')}</span>
+          <button className={styles.closeButton} onClick={onClose} disabled={isExporting} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('pdf_export.layout')}</span>
+          <div className={styles.choices}>
+            {choice('layout', 'fit', t('pdf_export.fit'))}
+            {choice('layout', 'tile', t('pdf_export.tile'))}
+          </div>
+          <span className={styles.hint}>
+            {options.layout === 'fit' ? t('pdf_export.fit_hint') : t('pdf_export.tile_hint')}
+          </span>
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('pdf_export.paper')}</span>
+          <div className={styles.choices}>
+            {choice('paper', 'a4', 'A4')}
+            {choice('paper', 'letter', 'Letter')}
+          </div>
+        </div>
+
+        {type !== 'page' && (
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={options.outline}
+              onChange={(e) => update({ outline: e.target.checked })}
+            />
+            <span>{t('pdf_export.outline')}</span>
+          </label>
+        )}
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryBtn} onClick={onClose} disabled={isExporting}>
+            {t('cancel')}
+          </button>
+          <button className={styles.primaryBtn} onClick={handleExport} disabled={isExporting}>
+            {isExporting ? t('pdf_export.exporting') : t('pdf_export.export')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
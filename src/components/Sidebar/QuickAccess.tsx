@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Pin, PinOff } from 'lucide-react';
+import clsx from 'clsx';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { getLivePages } from '../../lib/trashUtils';
+import { HybridName } from '../UI/HybridName';
+import { PageThumbnail } from '../UI/PageThumbnail';
+import type { Page } from '../../types';
+import sidebarStyles from './Sidebar.module.css';
+import styles from './QuickAccess.module.css';
+
+const RECENTLY_EDITED_LIMIT = 12;
+
+interface QuickAccessEntryProps {
+  page: Page;
+  isActive: boolean;
+  isDarkMode: boolean;
+}
+
+const QuickAccessEntry = ({ page, isActive, isDarkMode }: QuickAccessEntryProps) => {
+  const { t, i18n } = useTranslation();
+  const { selectPage, togglePagePin } = useFileSystemStore();
+
+  return (
+    <div
+      className={clsx(sidebarStyles.item, styles.entry, isActive && styles.entryActive)}
+      onClick={() => selectPage(page.id)}
+    >
+      <PageThumbnail page={page} isDarkMode={isDarkMode} className={styles.thumbnail} />
+      <HybridName
+        className={sidebarStyles.nameContainer}
+        name={page.name}
+        strokes={page.nameStrokes}
+        isRtl={i18n.dir() === 'rtl'}
+      />
+      <button
+        className={clsx(sidebarStyles.iconButton, styles.pinButton, page.pinnedAt && styles.pinned)}
+        onClick={(e) => {
+          e.stopPropagation();
+          togglePagePin(page.id);
+        }}
+        title={page.pinnedAt ? t('quick_access.unpin') : t('quick_access.pin')}
+      >
+        {page.pinnedAt ? <PinOff size={14} /> : <Pin size={14} />}
+      </button>
+    </div>
+  );
+};
+
+interface QuickAccessProps {
+  isDarkMode: boolean;
+}
+
+// Pinned pages sync, what was opened here is remembered per device, edits come from updatedAt
+export const QuickAccess = ({ isDarkMode }: QuickAccessProps) => {
+  const { t } = useTranslation();
+  const { notebooks, folders, pages, recentPageIds, activePageId } = useFileSystemStore();
+
+  const sections = useMemo(() => {
+    const livePages = Object.values(getLivePages(notebooks, folders, pages));
+    const byId = Object.fromEntries(livePages.map(p => [p.id, p]));
+    return [
+      {
+        id: 'pinned',
+        pages: livePages.filter(p => p.pinnedAt).sort((a, b) => b.pinnedAt! - a.pinnedAt!),
+        empty: t('quick_access.pinned_empty'),
+      },
+      {
+        id: 'recent',
+        pages: recentPageIds.map(id => byId[id]).filter((p): p is Page => !!p),
+        empty: t('quick_access.recent_empty'),
+      },
+      {
+        id: 'edited',
+        pages: [...livePages].sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0)).slice(0, RECENTLY_EDITED_LIMIT),
+        empty: t('quick_access.edited_empty'),
+      },
+    ];
+  }, [notebooks, folders, pages, recentPageIds, t]);
+
+  return (
+    <>
+      {sections.map(section => (
+        <div key={section.id} className={styles.section}>
+          <div className={sidebarStyles.sectionLabel}>
+            <span>{t(`quick_access.${section.id}`)}</span>
+          </div>
+          {section.pages.length === 0 ? (
+            <div className={styles.empty}>{section.empty}</div>
+          ) : section.pages.map(page => (
+            <QuickAccessEntry
+              key={page.id}
+              page={page}
+              isActive={page.id === activePageId}
+              isDarkMode={isDarkMode}
+            />
+          ))}
+        </div>
+      ))}
+    </>
+  );
+};
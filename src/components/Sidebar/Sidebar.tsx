@@ -1,19 +1,32 @@
 
 import { useMemo, useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
 import { useFileSystemStore } from '../../store/fileSystemStore';
-import type { Notebook, Folder, Page } from '../../types';
+import type { Notebook, Folder, Page, SmartFolder } from '../../types';
 import styles from './Sidebar.module.css';
-import { FolderPlus, FilePlus, BookPlus, Folder as FolderIcon, File, Book, ChevronRight, Trash2, PanelLeftClose, PanelRightClose, MoreVertical, Copy, Download, Upload, Edit2 } from 'lucide-react';
+import { FolderPlus, FilePlus, BookPlus, Folder as FolderIcon, File, Book, ChevronRight, Trash2, PanelLeftClose, PanelRightClose, MoreVertical, Copy, Download, Upload, Edit2, History, FileText, LayoutTemplate, Tag as TagIcon, FolderSearch, Plus, Pin, PinOff, Star, LayoutGrid, X } from 'lucide-react';
 import clsx from 'clsx';
 import { RenameOverlayV2 } from './RenameOverlay';
 import { DeleteConfirmModal } from './DeleteConfirmModal';
+import { PageHistoryModal } from './PageHistoryModal';
+import { TrashModal } from './TrashModal';
+import { PdfExportModal } from './PdfExportModal';
+import { TemplateModal } from './TemplateModal';
+import { TagsModal } from './TagsModal';
+import { SmartFolderModal } from './SmartFolderModal';
+import { QuickAccess } from './QuickAccess';
+import { GalleryView } from './GalleryView';
 import { CircularButton } from '../UI/CircularButton';
 import { HybridName } from '../UI/HybridName';
+import { PageThumbnail } from '../UI/PageThumbnail';
 import { resolveItemColor, getThemeColorHex } from '../../lib/colorUtils';
 import { useThemeColorHex } from '../../hooks/useThemeColor';
+import { useBulkActionToast } from '../../hooks/useBulkActionToast';
 import { getIsDarkMode } from '../../lib/themeUtils';
 import { Dropdown } from '../UI/Dropdown';
 import { exportItem } from '../../utils/exportUtils';
+import { isInTrash } from '../../lib/trashUtils';
+import { getSmartFolderPages } from '../../lib/smartFolders';
 import {
   DndContext,
   pointerWithin,
@@ -47,6 +60,11 @@ interface SortableItemProps {
   onRename?: (item: any, rect: DOMRect) => void;
   onDuplicate?: (item: Notebook | Folder | Page) => void;
   onDownload?: (item: Notebook | Folder | Page) => void;
+  onExportPdf?: (item: Notebook | Folder | Page) => void;
+  onTemplate?: (item: Notebook | Page) => void;
+  onHistory?: (item: Page) => void;
+  onTags?: (item: Page) => void;
+  onTogglePin?: (item: Page) => void;
   styles: any;
   isRtl: boolean;
   folders: Record<string, Folder>;
@@ -54,13 +72,35 @@ interface SortableItemProps {
   notebooks: Notebook[];
   isDarkMode: boolean; // Add this
   isDraggingDisabled?: boolean;
+  isSelected?: boolean;
+  isSelecting?: boolean;
+  onToggleSelect?: (item: Folder | Page) => void;
 }
 
-const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown, onDelete, onRename, onDuplicate, onDownload, styles, isRtl, folders, pages, notebooks, isDarkMode, isDraggingDisabled }: SortableItemProps) => {
+const HOVER_PREVIEW_DELAY = 400;
+const HOVER_PREVIEW_WIDTH = 170; // Image plus padding and border
+
+// Floating page preview next to a hovered sidebar item, flipped to the other side near the screen edge
+const HoverPreview = ({ page, rect, isDarkMode }: { page: Page; rect: DOMRect; isDarkMode: boolean }) => {
+  const fitsRight = rect.right + 8 + HOVER_PREVIEW_WIDTH <= window.innerWidth;
+  return createPortal(
+    <div
+      className={styles.hoverPreview}
+      style={{ top: rect.top, left: fitsRight ? rect.right + 8 : rect.left - 8 - HOVER_PREVIEW_WIDTH }}
+    >
+      <PageThumbnail page={page} isDarkMode={isDarkMode} className={styles.hoverPreviewImage} iconSize={24} />
+    </div>,
+    document.body
+  );
+};
+
+const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown, onDelete, onRename, onDuplicate, onDownload, onExportPdf, onTemplate, onHistory, onTags, onTogglePin, styles, isRtl, folders, pages, notebooks, isDarkMode, isDraggingDisabled, isSelected, isSelecting, onToggleSelect }: SortableItemProps) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { t } = useTranslation();
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [dropZone, setDropZone] = useState<'top' | 'bottom' | null>(null);
+  const [previewRect, setPreviewRect] = useState<DOMRect | null>(null);
+  const previewTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const {
     attributes,
@@ -87,6 +127,25 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
     if (!isOver) setDropZone(null);
   }, [isOver]);
 
+  const hidePreview = () => {
+    if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = null;
+    setPreviewRect(null);
+  };
+
+  // Only mice hover; touch and pen would show it on every tap
+  const handlePointerEnter = (e: React.PointerEvent) => {
+    if (!('updatedAt' in item) || e.pointerType !== 'mouse') return;
+    previewTimerRef.current = setTimeout(() => {
+      const rect = wrapperRef.current?.getBoundingClientRect();
+      if (rect) setPreviewRect(rect);
+    }, HOVER_PREVIEW_DELAY);
+  };
+
+  useEffect(() => () => {
+    if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
+  }, []);
+
   // Resolve effective color with inheritance
   const itemColorName = useMemo(() => resolveItemColor(item.id, folders, pages, notebooks), [item.id, folders, pages, notebooks]);
   const itemColorHex = useThemeColorHex(itemColorName, isDarkMode);
@@ -132,15 +191,24 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
       className={clsx(
         styles.item,
         isActive && styles.itemActive,
+        isSelected && styles.itemSelected,
         canReceiveDrop && styles.dropInside
       )}
       onPointerMove={handlePointerMove}
+      onPointerEnter={handlePointerEnter}
+      onPointerLeave={hidePreview}
       onPointerDown={(e) => {
+        hidePreview();
         onPointerDown?.(e);
         listeners?.onPointerDown(e);
       }}
       onClick={(e) => {
         if ((e.target as HTMLElement).closest(`.${styles.itemActions}`)) return;
+        // Once something is selected plain clicks keep selecting, that's how touch gets there
+        if (onToggleSelect && !isNotebook && (e.shiftKey || e.metaKey || e.ctrlKey || isSelecting)) {
+          onToggleSelect(item as Folder | Page);
+          return;
+        }
         onSelect(item);
       }}
       onDoubleClick={onDoubleClick}
@@ -170,6 +238,11 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
               { value: 'rename', label: t('rename') },
               { value: 'duplicate', label: t('duplicate') },
               { value: 'download', label: t('download') },
+              { value: 'export_pdf', label: t('pdf_export.menu') },
+              ...(isPage || isNotebook ? [{ value: 'template', label: isPage ? t('templates.menu') : t('templates.notebook_menu') }] : []),
+              ...(isPage ? [{ value: 'pin', label: (item as Page).pinnedAt ? t('quick_access.unpin') : t('quick_access.pin') }] : []),
+              ...(isPage ? [{ value: 'tags', label: t('tags.menu') }] : []),
+              ...(isPage ? [{ value: 'history', label: t('history.title') }] : []),
               { value: 'delete', label: t('delete') },
             ]}
             onChange={(val) => {
@@ -179,6 +252,11 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
               }
               if (val === 'duplicate') onDuplicate?.(item);
               if (val === 'download') onDownload?.(item);
+              if (val === 'export_pdf') onExportPdf?.(item);
+              if (val === 'template') onTemplate?.(item as Notebook | Page);
+              if (val === 'pin') onTogglePin?.(item as Page);
+              if (val === 'tags') onTags?.(item as Page);
+              if (val === 'history') onHistory?.(item as Page);
               if (val === 'delete') onDelete?.(item.id);
             }}
             isOpen={isMenuOpen}
@@ -187,6 +265,11 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
               rename: <Edit2 size={14} />,
               duplicate: <Copy size={14} />,
               download: <Download size={14} />,
+              export_pdf: <FileText size={14} />,
+              template: <LayoutTemplate size={14} />,
+              pin: isPage && (item as Page).pinnedAt ? <PinOff size={14} /> : <Pin size={14} />,
+              tags: <TagIcon size={14} />,
+              history: <History size={14} />,
               delete: <Trash2 size={14} />,
             }}
             menuWidth={140}
@@ -198,6 +281,9 @@ const SortableItem = ({ item, isActive, onSelect, onDoubleClick, onPointerDown,
         </div>
         {(isNotebook || isFolder) && <ChevronRight size={14} style={{ opacity: 0.5 }} />}
       </div>
+      {isPage && previewRect && !isMenuOpen && !isDragging && (
+        <HoverPreview page={item as Page} rect={previewRect} isDarkMode={isDarkMode} />
+      )}
     </div>
   );
 };
@@ -217,8 +303,19 @@ interface ColumnProps {
   onDelete?: (id: string) => void;
   onDuplicate?: (item: Notebook | Folder | Page) => void;
   onDownload?: (item: Notebook | Folder | Page) => void;
+  onExportPdf?: (item: Notebook | Folder | Page) => void;
+  onTemplate?: (item: Notebook | Page) => void;
+  onHistory?: (item: Page) => void;
+  onTags?: (item: Page) => void;
+  onTogglePin?: (item: Page) => void;
   onUpload?: (files: FileList) => void;
-  type: 'notebook' | 'content';
+  onOpenTrash?: () => void;
+  onOpenQuickAccess?: () => void;
+  onOpenGallery?: () => void;
+  onEditSmartFolder?: () => void;
+  selectedIds?: string[];
+  onToggleSelect?: (item: Folder | Page) => void;
+  type: 'notebook' | 'content' | 'smart' | 'quick';
   folders: Record<string, Folder>;
   pages: Record<string, Page>;
   notebooks: Notebook[];
@@ -227,10 +324,11 @@ interface ColumnProps {
   setUploadAccept: (accept: string) => void;
   setCurrentOnUpload: (handler: (files: FileList) => void) => void;
   fileInputRef: React.RefObject<HTMLInputElement | null>;
+  children?: React.ReactNode; // Rendered under the items, inside the scrolling list
 }
 
 
-const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage, onAddNotebook, onRenameStart, onDelete, onDuplicate, onDownload, onUpload, type, folders, pages, notebooks, isDarkMode, isDraggingDisabled, setUploadAccept, setCurrentOnUpload, fileInputRef }: ColumnProps) => {
+const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage, onAddNotebook, onRenameStart, onDelete, onDuplicate, onDownload, onExportPdf, onTemplate, onHistory, onTags, onTogglePin, onUpload, onOpenTrash, onOpenQuickAccess, onOpenGallery, onEditSmartFolder, selectedIds = [], onToggleSelect, type, folders, pages, notebooks, isDarkMode, isDraggingDisabled, setUploadAccept, setCurrentOnUpload, fileInputRef, children }: ColumnProps) => {
   const { t, i18n } = useTranslation();
   const isRtl = i18n.dir() === 'rtl';
 
@@ -325,6 +423,11 @@ const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage,
                 onRename={(item: any, rect: DOMRect) => onRenameStart(item, rect, pointerType)}
                 onDuplicate={onDuplicate}
                 onDownload={onDownload}
+                onExportPdf={onExportPdf}
+                onTemplate={onTemplate}
+                onHistory={onHistory}
+                onTags={onTags}
+                onTogglePin={onTogglePin}
                 styles={styles}
                 isRtl={isRtl}
                 folders={folders}
@@ -332,15 +435,22 @@ const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage,
                 notebooks={notebooks}
                 isDarkMode={isDarkMode}
                 isDraggingDisabled={isDraggingDisabled}
+                isSelected={selectedIds.includes(item.id)}
+                isSelecting={selectedIds.length > 0}
+                onToggleSelect={onToggleSelect}
               />
             </div>
           ))}
         </SortableContext>
+        {type === 'smart' && items.length === 0 && (
+          <div className={styles.emptyHint}>{t('smart_folders.empty')}</div>
+        )}
+        {children}
       </div>
 
 
 
-      <div className={styles.toolbar}>
+      {type !== 'quick' && <div className={styles.toolbar}>
         {type === 'notebook' && (
           <>
             <button className={styles.toolbarButton} onClick={onAddNotebook} title={t('new_notebook')}>
@@ -358,6 +468,27 @@ const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage,
             >
               <Upload size={16} />
             </button>
+            <button
+              className={clsx(styles.toolbarButton, styles.uploadButtonSmall)}
+              onClick={onOpenQuickAccess}
+              title={t('quick_access.title')}
+            >
+              <Star size={16} />
+            </button>
+            <button
+              className={clsx(styles.toolbarButton, styles.uploadButtonSmall)}
+              onClick={onOpenGallery}
+              title={t('gallery.open')}
+            >
+              <LayoutGrid size={16} />
+            </button>
+            <button
+              className={clsx(styles.toolbarButton, styles.uploadButtonSmall)}
+              onClick={onOpenTrash}
+              title={t('trash.title')}
+            >
+              <Trash2 size={16} />
+            </button>
           </>
         )}
         {type === 'content' && (
@@ -385,8 +516,102 @@ const Column = ({ id, title, items, activeId, onSelect, onAddFolder, onAddPage,
             >
               <Upload size={16} />
             </button>
+            <button
+              className={clsx(styles.toolbarButton, styles.uploadButtonSmall)}
+              onClick={onOpenGallery}
+              title={t('gallery.open')}
+            >
+              <LayoutGrid size={16} />
+            </button>
           </>
         )}
+        {type === 'smart' && (
+          <button className={styles.toolbarButton} onClick={onEditSmartFolder} title={t('smart_folders.edit')}>
+            <FolderSearch size={16} />
+            <span>{t('smart_folders.edit')}</span>
+          </button>
+        )}
+      </div>}
+    </div>
+  );
+};
+
+interface SmartFolderItemProps {
+  smartFolder: SmartFolder;
+  isActive: boolean;
+  isDarkMode: boolean;
+  onSelect: () => void;
+  onRenameStart: (rect: DOMRect, pointerType: string) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+// Smart folders live under the notebooks, they aren't sortable nor drop targets
+const SmartFolderItem = ({ smartFolder, isActive, isDarkMode, onSelect, onRenameStart, onEdit, onDelete }: SmartFolderItemProps) => {
+  const { t, i18n } = useTranslation();
+  const isRtl = i18n.dir() === 'rtl';
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const pointerTypeRef = useRef('mouse');
+  const colorHex = useThemeColorHex(smartFolder.color || 'grey', isDarkMode);
+
+  return (
+    <div
+      ref={wrapperRef}
+      className={clsx(styles.item, isActive && styles.itemActive)}
+      style={{
+        backgroundColor: isActive ? colorHex : undefined,
+        color: isActive ? '#fff' : undefined
+      }}
+      onPointerDown={(e) => { pointerTypeRef.current = e.pointerType; }}
+      onClick={(e) => {
+        if ((e.target as HTMLElement).closest(`.${styles.itemActions}`)) return;
+        onSelect();
+      }}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onRenameStart(e.currentTarget.getBoundingClientRect(), pointerTypeRef.current);
+      }}
+    >
+      <FolderSearch className={styles.icon} style={{ color: !isActive ? colorHex : undefined }} />
+      <HybridName
+        className={styles.nameContainer}
+        name={smartFolder.name}
+        strokes={smartFolder.nameStrokes}
+        isRtl={isRtl}
+      />
+      <div className={styles.itemActions}>
+        <div className={styles.menuWrapper}>
+          <Dropdown
+            className={styles.menuDropdown}
+            value=""
+            options={[
+              { value: 'edit', label: t('smart_folders.edit') },
+              { value: 'rename', label: t('rename') },
+              { value: 'delete', label: t('delete') },
+            ]}
+            onChange={(val) => {
+              if (val === 'edit') onEdit();
+              if (val === 'rename') {
+                const rect = wrapperRef.current?.getBoundingClientRect();
+                if (rect) onRenameStart(rect, pointerTypeRef.current);
+              }
+              if (val === 'delete') onDelete();
+            }}
+            isOpen={isMenuOpen}
+            onToggle={() => setIsMenuOpen(!isMenuOpen)}
+            optionIcons={{
+              edit: <FolderSearch size={14} />,
+              rename: <Edit2 size={14} />,
+              delete: <Trash2 size={14} />,
+            }}
+            menuWidth={140}
+            icon={<MoreVertical size={14} />}
+            showChevron={false}
+            showLabel={false}
+            triggerClassName={styles.menuTrigger}
+          />
+        </div>
       </div>
     </div>
   );
@@ -402,6 +627,11 @@ const checkIsDescendant = (childFolderId: string, potentialAncestorId: string, f
   return false;
 };
 
+const getNodeType = (item: Notebook | Folder | Page): 'notebook' | 'folder' | 'page' => {
+  if (!('notebookId' in item)) return 'notebook';
+  return 'updatedAt' in item ? 'page' : 'folder';
+};
+
 export const Sidebar = () => {
   const { t } = useTranslation();
   const theme = useFileSystemStore(state => state.theme);
@@ -416,7 +646,9 @@ export const Sidebar = () => {
     duplicateNotebook, duplicateFolder, duplicatePage,
     importNotebook, importFolder, importPage,
     setActiveNotebook, selectPage, isSidebarOpen, toggleSidebar, renameNode,
-    reorderNotebooks, moveNode, dominantHand, navigatePath
+    reorderNotebooks, moveNode, dominantHand, navigatePath,
+    smartFolders, createSmartFolder, deleteSmartFolder, togglePagePin,
+    moveNodes, duplicateNodes, deleteNodes, setTagOnPages
   } = useFileSystemStore();
 
   // Update global accent color based on active item
@@ -462,11 +694,33 @@ export const Sidebar = () => {
     id: string;
     name: string;
     nameStrokes?: string;
-    type: 'notebook' | 'folder' | 'page';
+    type: 'notebook' | 'folder' | 'page' | 'smartFolder';
     itemCount: number;
     onConfirm: () => void;
   } | null>(null);
 
+  // Page whose version history is being browsed
+  const [historyPage, setHistoryPage] = useState<Page | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [pdfExportItem, setPdfExportItem] = useState<Notebook | Folder | Page | null>(null);
+  const [templateItem, setTemplateItem] = useState<Notebook | Page | null>(null);
+  const [tagsPageIds, setTagsPageIds] = useState<string[] | null>(null);
+
+  // Pages and folders picked for a bulk action, possibly from several columns
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Which smart folder is open is local to this device, like the open menus
+  const [activeSmartFolderId, setActiveSmartFolderId] = useState<string | null>(null);
+  const [isQuickAccessOpen, setIsQuickAccessOpen] = useState(false);
+  // Container shown in the gallery, null opens it on the notebooks
+  const [galleryContainer, setGalleryContainer] = useState<{ id: string | null } | null>(null);
+  const [editingSmartFolderId, setEditingSmartFolderId] = useState<string | null>(null);
+  const activeSmartFolder = activeSmartFolderId ? smartFolders[activeSmartFolderId] : undefined;
+  const editingSmartFolder = editingSmartFolderId ? smartFolders[editingSmartFolderId] : undefined;
+  const sortedSmartFolders = useMemo(
+    () => Object.values(smartFolders).sort((a, b) => (a.order || 0) - (b.order || 0)),
+    [smartFolders]
+  );
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -489,6 +743,44 @@ export const Sidebar = () => {
   // If editing, we should probably disable all dnd-kit sensors to prevent stealing events
 
 
+  // Selected items that were trashed or purged meanwhile drop out
+  const selection = selectedIds.filter(id => (folders[id] && !folders[id].trashedAt) || (pages[id] && !pages[id].trashedAt));
+
+  const toggleSelected = (item: Folder | Page) => {
+    setSelectedIds(ids => (ids.includes(item.id) ? ids.filter(id => id !== item.id) : [...ids, item.id]));
+  };
+
+  // Bulk actions are undone from the toast that reports them
+  const runBulkAction = useBulkActionToast();
+
+  // Tags only apply to pages, a selected folder stands for every live page inside it
+  const getSelectedPageIds = () => {
+    const ids: string[] = [];
+    const collect = (id: string) => {
+      if (pages[id]) {
+        ids.push(id);
+        return;
+      }
+      Object.values(pages).forEach(p => {
+        if (p.parentId === id && !p.trashedAt) ids.push(p.id);
+      });
+      Object.values(folders).forEach(f => {
+        if (f.parentId === id && !f.trashedAt) collect(f.id);
+      });
+    };
+    selection.forEach(collect);
+    return [...new Set(ids)];
+  };
+
+  useEffect(() => {
+    if (selectedIds.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedIds([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds]);
+
   const handleDragStart = (event: DragStartEvent) => {
     const item = event.active.data.current?.item;
     setActiveDragItem(item);
@@ -508,11 +800,18 @@ export const Sidebar = () => {
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
+    const { active, over, delta, activatorEvent } = event;
     setActiveDragItem(null);
 
     if (!over) return;
 
+    // A touch drag that never moved is a long press, it selects instead
+    const activeNode = folders[active.id as string] || pages[active.id as string];
+    if (active.id === over.id && activeNode && 'touches' in activatorEvent && Math.hypot(delta.x, delta.y) < 8) {
+      toggleSelected(activeNode);
+      return;
+    }
+
     if (active.id !== over.id) {
       const activeData = active.data.current;
       const overData = over.data.current;
@@ -548,7 +847,8 @@ export const Sidebar = () => {
       if (isOverContainer) {
         // Dropped on a column header/empty space
         const containerId = (over.id as string).replace('container-', '');
-        if (containerId === 'root-notebooks') return; // Should not happen for content
+        if (containerId === 'root-notebooks' || containerId === 'quick-access') return; // Should not happen for content
+        if (smartFolders[containerId]) return; // Smart folders only list pages, nothing moves into them
         targetParentId = containerId;
         isContainerDrop = true;
       } else if (isOverNotebook) {
@@ -567,6 +867,12 @@ export const Sidebar = () => {
           return;
         }
 
+        // Dragging one of the selected items carries the whole selection
+        if (selection.length > 1 && selection.includes(active.id as string)) {
+          runBulkAction(() => moveNodes(selection, isContainerDrop ? targetParentId : over.id as string, isContainerDrop));
+          return;
+        }
+
         // Move or Reorder
         if (isContainerDrop) {
           moveNode(active.id as string, targetParentId, true);
@@ -587,9 +893,11 @@ export const Sidebar = () => {
     cols.push({
       id: 'root-notebooks',
       title: '',
-      items: notebooks,
-      activeId: activeNotebookId || null,
+      items: notebooks.filter(n => !n.trashedAt),
+      activeId: activeSmartFolder || isQuickAccessOpen ? null : activeNotebookId || null,
       onSelect: (item: any) => {
+        setActiveSmartFolderId(null);
+        setIsQuickAccessOpen(false);
         setActiveNotebook(item.id);
       },
       onAddNotebook: () => createNotebook(t('untitled_notebook')),
@@ -598,8 +906,8 @@ export const Sidebar = () => {
         if (!notebook) return;
 
         // Count all affected items in this notebook
-        const affectedFolders = Object.values(folders).filter(f => f.notebookId === id).length;
-        const affectedPages = Object.values(pages).filter(p => p.notebookId === id).length;
+        const affectedFolders = Object.values(folders).filter(f => f.notebookId === id && !isInTrash(f, notebooks, folders)).length;
+        const affectedPages = Object.values(pages).filter(p => p.notebookId === id && !isInTrash(p, notebooks, folders)).length;
         const totalItems = affectedFolders + affectedPages;
 
         setPendingDelete({
@@ -621,7 +929,8 @@ export const Sidebar = () => {
 
 
     // Determine current path [NB_ID, FOLDER1_ID, FOLDER2_ID, ...]
-    const currentPath = activeNotebookId ? [activeNotebookId, ...activePath] : [];
+    // An open smart folder or quick access takes the place of the notebook's columns
+    const currentPath = activeNotebookId && !activeSmartFolder && !isQuickAccessOpen ? [activeNotebookId, ...activePath] : [];
 
     for (let i = 0; i < currentPath.length; i++) {
       const parentId = currentPath[i];
@@ -647,8 +956,8 @@ export const Sidebar = () => {
       }
 
 
-      const relevantFolders = Object.values(folders).filter(f => f.parentId === parentId);
-      const relevantPages = Object.values(pages).filter(p => p.parentId === parentId);
+      const relevantFolders = Object.values(folders).filter(f => f.parentId === parentId && !f.trashedAt);
+      const relevantPages = Object.values(pages).filter(p => p.parentId === parentId && !p.trashedAt);
       const children = [...relevantFolders, ...relevantPages].sort((a, b) => (a.order || 0) - (b.order || 0));
 
       // Determine the active item in THIS column
@@ -688,11 +997,11 @@ export const Sidebar = () => {
               let count = 0;
               // Count pages in this folder
               Object.values(pages).forEach(p => {
-                if (p.parentId === folderId) count++;
+                if (p.parentId === folderId && !p.trashedAt) count++;
               });
               // Count subfolders and their descendants
               Object.values(folders).forEach(f => {
-                if (f.parentId === folderId) {
+                if (f.parentId === folderId && !f.trashedAt) {
                   count++; // Count the subfolder itself
                   count += countDescendants(f.id); // Count its descendants
                 }
@@ -738,8 +1047,50 @@ export const Sidebar = () => {
 
     }
 
+    if (activeSmartFolder) {
+      cols.push({
+        id: activeSmartFolder.id,
+        title: '',
+        items: getSmartFolderPages(activeSmartFolder.query, notebooks, folders, pages),
+        activeId: activePageId || null,
+        onSelect: (item: Notebook | Folder | Page) => selectPage(item.id),
+        onDelete: (id: string) => {
+          const page = pages[id];
+          if (!page) return;
+          setPendingDelete({
+            id,
+            name: page.name,
+            nameStrokes: page.nameStrokes,
+            type: 'page',
+            itemCount: 0,
+            onConfirm: () => {
+              deletePage(id);
+              setPendingDelete(null);
+            }
+          });
+        },
+        type: 'smart' as const
+      });
+    } else if (isQuickAccessOpen) {
+      cols.push({
+        id: 'quick-access',
+        title: '',
+        items: [],
+        activeId: null,
+        onSelect: (item: Notebook | Folder | Page) => selectPage(item.id),
+        type: 'quick' as const
+      });
+    }
+
     return cols;
-  }, [notebooks, folders, pages, activePath, activeNotebookId, activePageId, setActiveNotebook, createFolder, createPage, selectPage, createNotebook, activeDragItem, t, deleteFolder, deleteNotebook, deletePage, setPendingDelete]);
+  }, [notebooks, folders, pages, activePath, activeNotebookId, activePageId, activeSmartFolder, isQuickAccessOpen, setActiveNotebook, createFolder, createPage, selectPage, createNotebook, activeDragItem, t, deleteFolder, deleteNotebook, deletePage, setPendingDelete]);
+
+  const handleAddSmartFolder = () => {
+    const id = createSmartFolder(t('smart_folders.untitled'));
+    setIsQuickAccessOpen(false);
+    setActiveSmartFolderId(id);
+    setEditingSmartFolderId(id);
+  };
 
   if (!isSidebarOpen) return null;
 
@@ -800,14 +1151,21 @@ export const Sidebar = () => {
               else if (!('updatedAt' in item)) duplicateFolder(item.id);
               else duplicatePage(item.id);
             }}
-            onDownload={(item) => {
-              let type: 'notebook' | 'folder' | 'page' = 'notebook';
-              if ('notebookId' in item) {
-                if ('updatedAt' in item) type = 'page';
-                else type = 'folder';
-              }
-              exportItem(item, folders, pages, type);
+            onDownload={(item) => exportItem(item, folders, pages, getNodeType(item))}
+            onExportPdf={setPdfExportItem}
+            onTemplate={setTemplateItem}
+            onHistory={setHistoryPage}
+            onTags={(page) => setTagsPageIds([page.id])}
+            onTogglePin={(page) => togglePagePin(page.id)}
+            onOpenTrash={() => setIsTrashOpen(true)}
+            onOpenQuickAccess={() => {
+              setActiveSmartFolderId(null);
+              setIsQuickAccessOpen(!isQuickAccessOpen);
             }}
+            onOpenGallery={() => setGalleryContainer({ id: col.type === 'notebook' ? null : col.id })}
+            selectedIds={selection}
+            onToggleSelect={col.type === 'content' ? toggleSelected : undefined}
+            onEditSmartFolder={() => setEditingSmartFolderId(col.id)}
             onUpload={async (files) => {
               for (const file of Array.from(files)) {
                 // Extension check
@@ -875,8 +1233,46 @@ export const Sidebar = () => {
               }
             }}
             type={col.type}
-            isDraggingDisabled={isDraggingDisabled}
-          />
+            isDraggingDisabled={isDraggingDisabled || col.type === 'smart'}
+          >
+            {col.type === 'notebook' && (
+              <>
+                <div className={styles.sectionLabel}>
+                  <span>{t('smart_folders.title')}</span>
+                  <button className={styles.iconButton} onClick={handleAddSmartFolder} title={t('smart_folders.new')}>
+                    <Plus size={14} />
+                  </button>
+                </div>
+                {sortedSmartFolders.map(smartFolder => (
+                  <SmartFolderItem
+                    key={smartFolder.id}
+                    smartFolder={smartFolder}
+                    isActive={smartFolder.id === activeSmartFolderId}
+                    isDarkMode={isDarkMode}
+                    onSelect={() => {
+                      setIsQuickAccessOpen(false);
+                      setActiveSmartFolderId(smartFolder.id);
+                    }}
+                    onRenameStart={(rect, pointerType) => setEditingItem({ item: smartFolder, rect, pointerType })}
+                    onEdit={() => setEditingSmartFolderId(smartFolder.id)}
+                    onDelete={() => setPendingDelete({
+                      id: smartFolder.id,
+                      name: smartFolder.name,
+                      nameStrokes: smartFolder.nameStrokes,
+                      type: 'smartFolder',
+                      itemCount: 0,
+                      onConfirm: () => {
+                        deleteSmartFolder(smartFolder.id);
+                        if (activeSmartFolderId === smartFolder.id) setActiveSmartFolderId(null);
+                        setPendingDelete(null);
+                      }
+                    })}
+                  />
+                ))}
+              </>
+            )}
+            {col.type === 'quick' && <QuickAccess isDarkMode={isDarkMode} />}
+          </Column>
         ))}
       </div>
 
@@ -908,6 +1304,65 @@ export const Sidebar = () => {
         } as React.CSSProperties}
       />
 
+      {selection.length > 0 && (
+        <div
+          className={styles.bulkBar}
+          data-is-ui="true"
+          style={{
+            '--bulk-left': leftHandedMode ? 'auto' : `calc(125px * ${columns.length} + 0.75rem)`,
+            '--bulk-right': leftHandedMode ? `calc(125px * ${columns.length} + 0.75rem)` : 'auto',
+            '--bulk-shift': leftHandedMode ? '50%' : '-50%',
+          } as React.CSSProperties}
+        >
+          <span className={styles.bulkCount}>{t('bulk.selected', { count: selection.length })}</span>
+          <button
+            className={styles.bulkButton}
+            onClick={() => {
+              runBulkAction(() => duplicateNodes(selection));
+              setSelectedIds([]);
+            }}
+            title={t('duplicate')}
+          >
+            <Copy size={16} />
+          </button>
+          <button
+            className={styles.bulkButton}
+            onClick={async () => {
+              for (const id of selection) {
+                const item = folders[id] || pages[id];
+                await exportItem(item, folders, pages, getNodeType(item));
+              }
+            }}
+            title={t('download')}
+          >
+            <Download size={16} />
+          </button>
+          <button
+            className={styles.bulkButton}
+            onClick={() => {
+              const pageIds = getSelectedPageIds();
+              if (pageIds.length > 0) setTagsPageIds(pageIds);
+            }}
+            title={t('tags.menu')}
+          >
+            <TagIcon size={16} />
+          </button>
+          <button
+            className={clsx(styles.bulkButton, styles.bulkDanger)}
+            onClick={() => {
+              runBulkAction(() => deleteNodes(selection));
+              setSelectedIds([]);
+            }}
+            title={t('delete')}
+          >
+            <Trash2 size={16} />
+          </button>
+          <button className={styles.bulkButton} onClick={() => setSelectedIds([])} title={t('bulk.clear')}>
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       <DragOverlay dropAnimation={dropAnimation}>
         {activeDragItem ? (() => {
           // Logic copied from SortableItem to render the preview
@@ -948,6 +1403,48 @@ export const Sidebar = () => {
         })() : null}
       </DragOverlay>
 
+      <PageHistoryModal page={historyPage} onClose={() => setHistoryPage(null)} />
+
+      {isTrashOpen && <TrashModal onClose={() => setIsTrashOpen(false)} />}
+
+      {pdfExportItem && (
+        <PdfExportModal item={pdfExportItem} type={getNodeType(pdfExportItem)} onClose={() => setPdfExportItem(null)} />
+      )}
+
+      {/* Hidden while a tag is being renamed, the rename overlay sits below modals */}
+      {tagsPageIds && !editingItem && tagsPageIds.some(id => pages[id]) && (
+        <TagsModal
+          pages={tagsPageIds.map(id => pages[id]).filter(Boolean)}
+          onRenameTag={(tag, rect, pointerType) => setEditingItem({ item: tag, rect, pointerType })}
+          onTagPages={(pageIds, tagId, isTagged) => runBulkAction(() => setTagOnPages(pageIds, tagId, isTagged))}
+          onClose={() => setTagsPageIds(null)}
+        />
+      )}
+
+      {editingSmartFolder && (
+        <SmartFolderModal
+          key={editingSmartFolder.id}
+          smartFolder={editingSmartFolder}
+          onClose={() => setEditingSmartFolderId(null)}
+        />
+      )}
+
+      {galleryContainer && (
+        <GalleryView
+          containerId={galleryContainer.id}
+          isDarkMode={isDarkMode}
+          onClose={() => setGalleryContainer(null)}
+        />
+      )}
+
+      {templateItem && (
+        <TemplateModal
+          item={templateItem}
+          type={getNodeType(templateItem) === 'page' ? 'page' : 'notebook'}
+          onClose={() => setTemplateItem(null)}
+        />
+      )}
+
       <DeleteConfirmModal
         isOpen={!!pendingDelete}
         itemName={pendingDelete?.name || ''}
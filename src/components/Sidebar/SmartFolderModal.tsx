@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { FolderSearch, Tag as TagIcon, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { getSmartFolderPages, isEmptyQuery, WITHIN_DAYS_OPTIONS } from '../../lib/smartFolders';
+import { getThemeColorHex } from '../../lib/colorUtils';
+import { getIsDarkMode } from '../../lib/themeUtils';
+import { HybridName } from '../UI/HybridName';
+import type { SmartFolder, SmartFolderQuery } from '../../types';
+import styles from './SmartFolderModal.module.css';
+
+interface SmartFolderModalProps {
+  smartFolder: SmartFolder;
+  onClose: () => void;
+}
+
+export const SmartFolderModal = ({ smartFolder, onClose }: SmartFolderModalProps) => {
+  const { t } = useTranslation();
+  const { notebooks, folders, pages, tags, theme, setSmartFolderQuery } = useFileSystemStore();
+  const isDarkMode = getIsDarkMode(theme);
+  const [query, setQuery] = useState<SmartFolderQuery>(smartFolder.query);
+
+  const update = (patch: Partial<SmartFolderQuery>) => setQuery({ ...query, ...patch });
+
+  const sortedTags = Object.values(tags).sort((a, b) => a.name.localeCompare(b.name));
+  const matchCount = getSmartFolderPages(query, notebooks, folders, pages).length;
+
+  const toggleTag = (id: string) => {
+    update({ tagIds: query.tagIds.includes(id) ? query.tagIds.filter(tid => tid !== id) : [...query.tagIds, id] });
+  };
+
+  const handleSave = () => {
+    setSmartFolderQuery(smartFolder.id, query);
+    onClose();
+  };
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()} data-is-ui="true">
+        <div className={styles.header}>
+          <FolderSearch size={18} />
+          <HybridName name={smartFolder.name} strokes={smartFolder.nameStrokes} className={styles.title} />
+          <button className={styles.closeButton} onClick={onClose} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('smart_folders.tags')}</span>
+          {sortedTags.length === 0 ? (
+            <span className={styles.hint}>{t('smart_folders.no_tags')}</span>
+          ) : (
+            <div className={styles.chips}>
+              {sortedTags.map(tag => (
+                <button
+                  key={tag.id}
+                  className={clsx(styles.chip, query.tagIds.includes(tag.id) && styles.chipActive)}
+                  onClick={() => toggleTag(tag.id)}
+                >
+                  <TagIcon size={12} style={{ color: getThemeColorHex(tag.color || 'grey', isDarkMode), flexShrink: 0 }} />
+                  <HybridName name={tag.name} strokes={tag.nameStrokes} className={styles.chipName} />
+                </button>
+              ))}
+            </div>
+          )}
+          {query.tagIds.length > 1 && (
+            <div className={styles.options}>
+              {(['any', 'all'] as const).map(tagMatch => (
+                <button
+                  key={tagMatch}
+                  className={clsx(styles.option, query.tagMatch === tagMatch && styles.optionActive)}
+                  onClick={() => update({ tagMatch })}
+                >
+                  {t(`smart_folders.match_${tagMatch}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('smart_folders.date')}</span>
+          <div className={styles.options}>
+            {(['updatedAt', 'createdAt'] as const).map(dateField => (
+              <button
+                key={dateField}
+                className={clsx(styles.option, query.dateField === dateField && styles.optionActive)}
+                onClick={() => update({ dateField })}
+              >
+                {dateField === 'updatedAt' ? t('smart_folders.updated') : t('smart_folders.created')}
+              </button>
+            ))}
+          </div>
+          <div className={styles.options}>
+            <button
+              className={clsx(styles.option, !query.withinDays && styles.optionActive)}
+              onClick={() => update({ withinDays: undefined })}
+            >
+              {t('smart_folders.any_time')}
+            </button>
+            {WITHIN_DAYS_OPTIONS.map(days => (
+              <button
+                key={days}
+                className={clsx(styles.option, query.withinDays === days && styles.optionActive)}
+                onClick={() => update({ withinDays: days })}
+              >
+                {t('smart_folders.within_days', { count: days })}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <span className={styles.hint}>
+          {isEmptyQuery(query) ? t('smart_folders.empty_query') : t('smart_folders.match_count', { count: matchCount })}
+        </span>
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryBtn} onClick={onClose}>
+            {t('cancel')}
+          </button>
+          <button className={styles.primaryBtn} onClick={handleSave}>
+            {t('smart_folders.save')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { Check, Edit2, Minus, Plus, Tag as TagIcon, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { getThemeColorHex } from '../../lib/colorUtils';
+import { getIsDarkMode } from '../../lib/themeUtils';
+import { HybridName } from '../UI/HybridName';
+import type { Page, Tag } from '../../types';
+import styles from './TagsModal.module.css';
+
+interface TagsModalProps {
+  pages: Page[];
+  onRenameTag: (tag: Tag, rect: DOMRect, pointerType: string) => void;
+  // Several pages are tagged in one go, so the caller can offer to undo it
+  onTagPages: (pageIds: string[], tagId: string, isTagged: boolean) => void;
+  onClose: () => void;
+}
+
+// Tags are shared by every notebook, toggling one here only files these pages under it
+export const TagsModal = ({ pages: targetPages, onRenameTag, onTagPages, onClose }: TagsModalProps) => {
+  const { t } = useTranslation();
+  const { tags, pages, theme, createTag, deleteTag, setPageTags } = useFileSystemStore();
+  const isDarkMode = getIsDarkMode(theme);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const pointerTypeRef = useRef('mouse');
+
+  const pageIds = targetPages.map(p => p.id);
+  const sortedTags = Object.values(tags).sort((a, b) => a.name.localeCompare(b.name));
+  const countTagged = (id: string) => pageIds.filter(pid => pages[pid]?.tagIds?.includes(id)).length;
+
+  const setTag = (id: string, isTagged: boolean) => {
+    if (pageIds.length > 1) {
+      onTagPages(pageIds, id, isTagged);
+      return;
+    }
+    const pageTagIds = pages[pageIds[0]]?.tagIds || [];
+    setPageTags(pageIds[0], isTagged ? [...pageTagIds, id] : pageTagIds.filter(tid => tid !== id));
+  };
+
+  // A tag only some of the pages have is added to the rest first
+  const toggleTag = (id: string) => setTag(id, countTagged(id) < pageIds.length);
+
+  // New tags are written or typed right away, the pages are filed under them meanwhile
+  const handleNewTag = (e: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const id = createTag(t('tags.untitled'));
+    setTag(id, true);
+    const tag = useFileSystemStore.getState().tags[id];
+    if (tag) onRenameTag(tag, rect, pointerTypeRef.current);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmingDeleteId !== id) {
+      setConfirmingDeleteId(id);
+      return;
+    }
+    deleteTag(id);
+    setConfirmingDeleteId(null);
+  };
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={onClose}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => { pointerTypeRef.current = e.pointerType; }}
+        data-is-ui="true"
+      >
+        <div className={styles.header}>
+          <TagIcon size={18} />
+          {targetPages.length === 1 ? (
+            <HybridName name={targetPages[0].name} strokes={targetPages[0].nameStrokes} className={styles.title} />
+          ) : (
+            <span className={styles.title}>{t('bulk.pages', { count: targetPages.length })}</span>
+          )}
+          <button className={styles.closeButton} onClick={onClose} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {sortedTags.length === 0 ? (
+          <div className={styles.empty}>{t('tags.empty')}</div>
+        ) : (
+          <div className={styles.list}>
+            {sortedTags.map(tag => {
+              const tagged = countTagged(tag.id);
+              const isChecked = tagged === pageIds.length;
+              const isConfirming = confirmingDeleteId === tag.id;
+              return (
+                <div key={tag.id} className={clsx(styles.item, isChecked && styles.itemChecked)} onClick={() => toggleTag(tag.id)}>
+                  <span className={styles.check}>
+                    {isChecked ? <Check size={12} /> : tagged > 0 && <Minus size={12} />}
+                  </span>
+                  <TagIcon size={16} className={styles.icon} style={{ color: getThemeColorHex(tag.color || 'grey', isDarkMode) }} />
+                  <HybridName name={tag.name} strokes={tag.nameStrokes} className={styles.itemName} />
+                  <button
+                    className={styles.actionButton}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      const row = e.currentTarget.parentElement;
+                      if (row) onRenameTag(tag, row.getBoundingClientRect(), pointerTypeRef.current);
+                    }}
+                    title={t('tags.rename')}
+                  >
+                    <Edit2 size={14} />
+                  </button>
+                  <button
+                    className={clsx(styles.actionButton, isConfirming && styles.dangerButton)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(tag.id);
+                    }}
+                    title={isConfirming ? t('tags.delete_confirm') : t('tags.delete')}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryBtn} onClick={handleNewTag}>
+            <Plus size={14} />
+            {t('tags.new')}
+          </button>
+          <button className={styles.primaryBtn} onClick={onClose}>
+            {t('tags.done')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
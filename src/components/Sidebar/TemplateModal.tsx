@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { LayoutTemplate, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { renderTemplate, TEMPLATE_TYPES, TEMPLATE_COLORS, TEMPLATE_SPACING, DEFAULT_TEMPLATE } from '../../lib/pageTemplates';
+import type { Notebook, Page, PageTemplate } from '../../types';
+import styles from './TemplateModal.module.css';
+
+const PREVIEW_SIZE = 64;
+const PREVIEW_SCALE = 0.5;
+
+interface TemplateModalProps {
+  item: Notebook | Page;
+  type: 'notebook' | 'page';
+  onClose: () => void;
+}
+
+const TemplatePreview = ({ template, id }: { template: PageTemplate; id: string }) => {
+  const size = PREVIEW_SIZE / PREVIEW_SCALE;
+  return (
+    <svg className={styles.preview} width={PREVIEW_SIZE} height={PREVIEW_SIZE}>
+      <g
+        transform={`scale(${PREVIEW_SCALE})`}
+        dangerouslySetInnerHTML={{ __html: renderTemplate(template, { x: 0, y: 0, w: size, h: size }, id) }}
+      />
+    </svg>
+  );
+};
+
+// Notebooks only hold the template new pages start with, existing pages keep theirs
+export const TemplateModal = ({ item, type, onClose }: TemplateModalProps) => {
+  const { t } = useTranslation();
+  const { setPageTemplate, setNotebookDefaultTemplate } = useFileSystemStore();
+  const [template, setTemplate] = useState<PageTemplate>(() => ({
+    ...DEFAULT_TEMPLATE,
+    ...(type === 'page' ? (item as Page).template : (item as Notebook).defaultTemplate),
+  }));
+
+  const update = (patch: Partial<PageTemplate>) => setTemplate({ ...template, ...patch });
+
+  const handleSave = () => {
+    if (type === 'page') setPageTemplate(item.id, template);
+    else setNotebookDefaultTemplate(item.id, template);
+    onClose();
+  };
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()} data-is-ui="true">
+        <div className={styles.header}>
+          <LayoutTemplate size={18} />
+          <span className={styles.title}>{type === 'page' ? t('templates.title') : t('templates.notebook_title')}</span>
+          <button className={styles.closeButton} onClick={onClose} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className={styles.types}>
+          {TEMPLATE_TYPES.map(templateType => (
+            <button
+              key={templateType}
+              className={clsx(styles.type, template.type === templateType && styles.typeActive)}
+              onClick={() => update({ type: templateType })}
+            >
+              <TemplatePreview template={{ ...template, type: templateType }} id={`template-preview-${templateType}`} />
+              <span>{t(`templates.${templateType}`)}</span>
+            </button>
+          ))}
+        </div>
+
+        {template.type !== 'none' && (
+          <>
+            <div className={styles.field}>
+              <span className={styles.label}>{t('templates.spacing')}</span>
+              <input
+                type="range"
+                min={TEMPLATE_SPACING.min}
+                max={TEMPLATE_SPACING.max}
+                step={4}
+                value={template.spacing}
+                onChange={(e) => update({ spacing: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <span className={styles.label}>{t('templates.color')}</span>
+              <div className={styles.colors}>
+                {TEMPLATE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    className={clsx(styles.color, template.color === color && styles.colorActive)}
+                    style={{ background: color }}
+                    onClick={() => update({ color })}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {type === 'notebook' && <span className={styles.hint}>{t('templates.notebook_hint')}</span>}
+
+        <div className={styles.buttons}>
+          <button className={styles.secondaryBtn} onClick={onClose}>
+            {t('cancel')}
+          </button>
+          <button className={styles.primaryBtn} onClick={handleSave}>
+            {t('templates.apply')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { Book, Folder as FolderIcon, File, RotateCcw, Trash2, X } from 'lucide-react';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { DAY_MS } from '../../lib/trashUtils';
+import { HybridName } from '../UI/HybridName';
+import type { Notebook, Folder, Page } from '../../types';
+import styles from './TrashModal.module.css';
+
+interface TrashModalProps {
+  onClose: () => void;
+}
+
+export const TrashModal = ({ onClose }: TrashModalProps) => {
+  const { t, i18n } = useTranslation();
+  const { notebooks, folders, pages, trashRetentionDays, restoreFromTrash, purgeFromTrash, emptyTrash } = useFileSystemStore();
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [openedAt] = useState(() => Date.now());
+
+  // Only the nodes that were deleted explicitly, their contents travel with them
+  const trashed: (Notebook | Folder | Page)[] = [...notebooks, ...Object.values(folders), ...Object.values(pages)]
+    .filter(node => node.trashedAt)
+    .sort((a, b) => b.trashedAt! - a.trashedAt!);
+
+  const getIcon = (node: Notebook | Folder | Page) => {
+    if (!('notebookId' in node)) return Book;
+    return 'updatedAt' in node ? File : FolderIcon;
+  };
+
+  const getDaysLeft = (trashedAt: number) =>
+    Math.max(0, Math.ceil((trashedAt + trashRetentionDays * DAY_MS - openedAt) / DAY_MS));
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(i18n.language, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()} data-is-ui="true">
+        <div className={styles.header}>
+          <Trash2 size={18} />
+          <span className={styles.title}>{t('trash.title')}</span>
+          <button className={styles.closeButton} onClick={onClose} title={t('cancel')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {trashed.length === 0 ? (
+          <div className={styles.empty}>{t('trash.empty')}</div>
+        ) : (
+          <div className={styles.list}>
+            {trashed.map(node => {
+              const Icon = getIcon(node);
+              return (
+                <div key={node.id} className={styles.item}>
+                  <Icon size={16} className={styles.icon} />
+                  <div className={styles.itemInfo}>
+                    <HybridName name={node.name} strokes={node.nameStrokes} className={styles.itemName} />
+                    <span className={styles.itemMeta}>
+                      {formatDate(node.trashedAt!)} · {t('trash.days_left', { count: getDaysLeft(node.trashedAt!) })}
+                    </span>
+                  </div>
+                  <button className={styles.actionButton} onClick={() => restoreFromTrash(node.id)} title={t('trash.restore')}>
+                    <RotateCcw size={16} />
+                  </button>
+                  <button className={styles.actionButton} onClick={() => purgeFromTrash([node.id])} title={t('trash.delete_forever')}>
+                    <X size={16} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className={styles.buttons}>
+          <span className={styles.retention}>{t('trash.retention_hint', { count: trashRetentionDays })}</span>
+          <button
+            className={styles.dangerBtn}
+            disabled={trashed.length === 0}
+            onClick={() => {
+              if (!isConfirmingEmpty) {
+                setIsConfirmingEmpty(true);
+                return;
+              }
+              emptyTrash();
+              setIsConfirmingEmpty(false);
+            }}
+          >
+            {isConfirmingEmpty ? t('trash.empty_confirm') : t('trash.empty_trash')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,28 @@
+import { File } from 'lucide-react';
+import { clsx } from 'clsx';
+import { usePageThumbnail } from '../../hooks/usePageThumbnail';
+import type { Page } from '../../types';
+import styles from './PageThumbnail.module.css';
+
+interface PageThumbnailProps {
+  page: Page;
+  isDarkMode: boolean;
+  className?: string;
+  iconSize?: number;
+}
+
+/**
+ * Rendered preview of a page, with a file icon while it loads or when the page is empty.
+ * Previews are drawn on white paper, dark mode inverts them to match the canvas.
+ */
+export const PageThumbnail = ({ page, isDarkMode, className, iconSize = 16 }: PageThumbnailProps) => {
+  const thumbnail = usePageThumbnail(page);
+
+  return (
+    <div className={clsx(styles.thumbnail, isDarkMode && styles.dark, className)}>
+      {thumbnail
+        ? <img src={thumbnail} alt="" draggable={false} />
+        : <File size={iconSize} className={styles.placeholder} />}
+    </div>
+  );
+};
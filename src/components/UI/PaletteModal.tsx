@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import styles from './PaletteModal.module.css';
+import { useUserPreferencesStore } from '../../store/userPreferencesStore';
+import { useFileSystemStore } from '../../store/fileSystemStore';
+import { MAX_PALETTE_SIZE, deriveDarkVariant, parseCustomColor, toCustomColor } from '../../lib/customColors';
+
+interface PaletteModalProps {
+  onPick: (color: string) => void;
+  onClose: () => void;
+}
+
+const Swatch = ({ color, onRemove }: { color: string; onRemove: () => void }) => {
+  const parsed = parseCustomColor(color);
+  if (!parsed) return null;
+  return (
+    <div className={styles.swatch} style={{ background: `linear-gradient(135deg, ${parsed.light} 50%, ${parsed.dark} 50%)` }}>
+      <button className={styles.remove} onClick={onRemove}>
+        <X size={10} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Editor for the user's and the active notebook's custom colors. Every color
+ * has a light and a dark variant, the dark one follows the light one until edited.
+ */
+export const PaletteModal = ({ onPick, onClose }: PaletteModalProps) => {
+  const { t } = useTranslation();
+  const { customPalette, updatePreferences } = useUserPreferencesStore();
+  const notebook = useFileSystemStore(state => state.notebooks.find(n => n.id === state.activeNotebookId));
+  const setNotebookPalette = useFileSystemStore(state => state.setNotebookPalette);
+
+  const [light, setLight] = useState('#3b82f6');
+  const [dark, setDark] = useState(() => deriveDarkVariant('#3b82f6'));
+  const [isDarkEdited, setIsDarkEdited] = useState(false);
+
+  const notebookPalette = notebook?.palette || [];
+  const color = toCustomColor({ light, dark });
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const addTo = (palette: string[], save: (next: string[]) => void) => {
+    if (!palette.includes(color)) save([...palette, color].slice(-MAX_PALETTE_SIZE));
+    onPick(color);
+    onClose();
+  };
+
+  return createPortal(
+    <div className={styles.backdrop} onClick={(e) => { e.stopPropagation(); onClose(); }} onPointerDown={(e) => e.stopPropagation()} data-is-ui="true">
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <h3>{t('palette.title')}</h3>
+
+        <div className={styles.editor}>
+          <label className={styles.variant}>
+            <input
+              type="color"
+              value={light}
+              onChange={(e) => {
+                setLight(e.target.value);
+                if (!isDarkEdited) setDark(deriveDarkVariant(e.target.value));
+              }}
+            />
+            <span>{t('palette.light')}</span>
+          </label>
+          <label className={styles.variant}>
+            <input
+              type="color"
+              value={dark}
+              onChange={(e) => {
+                setDark(e.target.value);
+                setIsDarkEdited(true);
+              }}
+            />
+            <span>{t('palette.dark')}</span>
+          </label>
+        </div>
+
+        <div className={styles.actions}>
+          <button className={styles.primary} onClick={() => addTo(customPalette, next => updatePreferences({ customPalette: next }))}>
+            {t('palette.add_mine')}
+          </button>
+          {notebook && (
+            <button className={styles.secondary} onClick={() => addTo(notebookPalette, next => setNotebookPalette(notebook.id, next))}>
+              {t('palette.add_notebook')}
+            </button>
+          )}
+        </div>
+
+        {customPalette.length > 0 && (
+          <div className={styles.section}>
+            <span className={styles.sectionTitle}>{t('palette.mine')}</span>
+            <div className={styles.swatches}>
+              {customPalette.map(c => (
+                <Swatch key={c} color={c} onRemove={() => updatePreferences({ customPalette: customPalette.filter(p => p !== c) })} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {notebook && notebookPalette.length > 0 && (
+          <div className={styles.section}>
+            <span className={styles.sectionTitle}>{t('palette.notebook', { name: notebook.name })}</span>
+            <div className={styles.swatches}>
+              {notebookPalette.map(c => (
+                <Swatch key={c} color={c} onRemove={() => setNotebookPalette(notebook.id, notebookPalette.filter(p => p !== c))} />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,7 @@
+// Google API client, loaded from apis.google.com by index.html. Only the parts
+// checked before talking to Drive are typed, the Drive calls live in lib/googleDrive.ts.
+declare const gapi: {
+  client?: {
+    drive?: unknown;
+  };
+};
@@ -0,0 +1,26 @@
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { useFileSystemStore } from '../store/fileSystemStore';
+
+// Runs a bulk store action and reports it in a toast that can undo it,
+// for as long as nothing else has changed the records it touched
+export const useBulkActionToast = () => {
+  const { t } = useTranslation();
+
+  return (action: () => void) => {
+    const previous = useFileSystemStore.getState().lastBulkAction;
+    action();
+    const done = useFileSystemStore.getState().lastBulkAction;
+    if (!done || done === previous) return;
+    toast.success(t(`bulk.${done.kind}_done`, { count: done.count }), {
+      action: {
+        label: t('undo'),
+        onClick: () => {
+          const { lastBulkAction, undoBulkAction } = useFileSystemStore.getState();
+          if (lastBulkAction === done) undoBulkAction();
+          else toast.info(t('bulk.undo_unavailable'));
+        }
+      }
+    });
+  };
+};
@@ -1,6 +1,9 @@
 import { useEffect, useRef } from 'react';
 import { Editor } from 'tldraw';
 import { opfs } from '../lib/opfs';
+import { searchIndex } from '../lib/searchIndex';
+import { pageHistory } from '../lib/pageHistory';
+import { pageThumbnails } from '../lib/pageThumbnails';
 import { syncLog } from '../lib/debugLog';
 import { useFileSystemStore } from '../store/fileSystemStore';
 
@@ -61,11 +64,21 @@ export const usePagePersistence = (
 
       try {
         const serialized = JSON.stringify(filteredSnapshot);
+        // Guardar una revisión de lo que vamos a pisar (según la política de historial)
+        await pageHistory.captureBeforeOverwrite(pageId, serialized);
         await opfs.saveFile(`page-${pageId}.tldr`, serialized);
 
+        // Re-render the preview before the page is marked dirty, so the sidebar picks up the new one
+        const savedPage = useFileSystemStore.getState().pages[pageId];
+        if (savedPage) pageThumbnails.updatePage(savedPage, filteredSnapshot);
+
         // Señalizar cambio para sincronización
         useFileSystemStore.getState().markPageDirty(pageId);
 
+        // Mantener el índice de búsqueda al día con lo que acabamos de guardar
+        const page = useFileSystemStore.getState().pages[pageId];
+        if (page) searchIndex.indexPage(page, filteredSnapshot);
+
         syncLog(`🔶 [CENTERING] Disco guardado: ${filteredRecords.length} reg. Pos: {x: ${normalizedX.toFixed(0)}, y: ${normalizedY.toFixed(0)}}`);
       } catch (err) {
         console.error(`[CENTERING] ❌ ERROR AL ESCRIBIR EN DISCO:`, err);
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { pageThumbnails } from '../lib/pageThumbnails';
+import type { Page } from '../types';
+
+export const usePageThumbnail = (page: Page) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    pageThumbnails.getThumbnail(page).then(url => {
+      if (!cancelled) setThumbnail(url);
+    });
+    return () => { cancelled = true; };
+  }, [page]);
+
+  return thumbnail;
+};
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { Editor, defaultHandleExternalTldrawContent } from 'tldraw';
+import { sanitizeShapeRecords, warnSanitizedContent } from '../lib/sanitizeHtml';
+
+// Shapes copied from another tab or app arrive as tldraw content with their
+// rich-text markup untouched, so it is cleaned before the default paste runs
+export const usePasteSanitizer = (editor: Editor) => {
+  useEffect(() => {
+    editor.registerExternalContentHandler('tldraw', async (info) => {
+      if (sanitizeShapeRecords(info.content.shapes).removed > 0) warnSanitizedContent();
+      await defaultHandleExternalTldrawContent(editor, info);
+    });
+    return () => {
+      editor.registerExternalContentHandler('tldraw', null);
+    };
+  }, [editor]);
+};
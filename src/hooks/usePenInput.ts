@@ -0,0 +1,79 @@
+import { useEffect } from 'react';
+import { Editor } from 'tldraw';
+import type { TLEventInfo } from 'tldraw';
+import { syncLog } from '../lib/debugLog';
+import { applyPressureCurve, isPalmTouch } from '../lib/penInput';
+import { useUserPreferencesStore } from '../store/userPreferencesStore';
+
+/**
+ * Applies the pen preferences: the pressure curve for draw strokes and
+ * palm rejection for touches that land while writing.
+ */
+export const usePenInput = (editor: Editor) => {
+  useEffect(() => {
+    const container = editor.getContainer();
+    if (!container) return;
+
+    const rejectedTouchIds = new Set<number>();
+    let isPenDown = false;
+    let lastPenTime = 0;
+
+    // tldraw reads the pressure from the event's z, before any tool sees it
+    const handleBeforeEvent = (info: TLEventInfo) => {
+      if (info.type !== 'pointer' || !info.isPen || !editor.isIn('draw')) return;
+      const { pressureCurve, minPressure } = useUserPreferencesStore.getState();
+      info.point.z = applyPressureCurve(info.point.z ?? 0.5, pressureCurve, minPressure);
+    };
+
+    const reject = (e: PointerEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'pen') {
+        isPenDown = true;
+        return;
+      }
+
+      const target = e.target as HTMLElement;
+      if (!container.contains(target) || target.closest?.('[data-is-ui="true"]')) return;
+
+      const { palmRejection, palmContactSize, palmRejectionDelay } = useUserPreferencesStore.getState();
+      if (palmRejection && isPalmTouch(e, palmContactSize, palmRejectionDelay, isPenDown, lastPenTime)) {
+        syncLog(`✋ [PALM] Touch ${e.pointerId} rejected`);
+        rejectedTouchIds.add(e.pointerId);
+        reject(e);
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      // A hovering pen counts as writing, the palm usually lands just before it touches
+      if (e.pointerType === 'pen') lastPenTime = Date.now();
+      if (rejectedTouchIds.has(e.pointerId)) reject(e);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerType === 'pen') {
+        isPenDown = false;
+        lastPenTime = Date.now();
+      }
+      if (rejectedTouchIds.delete(e.pointerId)) reject(e);
+    };
+
+    editor.on('before-event', handleBeforeEvent);
+    // Window capture runs before tldraw and the other canvas hooks
+    window.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    window.addEventListener('pointermove', handlePointerMove, { capture: true });
+    window.addEventListener('pointerup', handlePointerUp, { capture: true });
+    window.addEventListener('pointercancel', handlePointerUp, { capture: true });
+
+    return () => {
+      editor.off('before-event', handleBeforeEvent);
+      window.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      window.removeEventListener('pointermove', handlePointerMove, { capture: true });
+      window.removeEventListener('pointerup', handlePointerUp, { capture: true });
+      window.removeEventListener('pointercancel', handlePointerUp, { capture: true });
+    };
+  }, [editor]);
+};
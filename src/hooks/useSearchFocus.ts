@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { Editor, Box } from 'tldraw';
+import type { TLShapeId } from 'tldraw';
+import { useSearchStore } from '../store/searchStore';
+
+export const useSearchFocus = (
+  editor: Editor,
+  pageId: string,
+  sidebarColumns: number,
+  leftHandedMode: boolean,
+  isLoadingRef: React.MutableRefObject<boolean>
+) => {
+  const pendingFocus = useSearchStore(state => state.pendingFocus);
+
+  useEffect(() => {
+    if (!pendingFocus || pendingFocus.pageId !== pageId) return;
+
+    let attempts = 0;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const focus = () => {
+      const shapeIds = pendingFocus.shapeIds as TLShapeId[];
+      const shapeBounds = shapeIds.map(id => editor.getShapePageBounds(id)).filter(b => !!b);
+
+      // The page snapshot may still be loading, wait for the shapes to appear
+      if (isLoadingRef.current || shapeBounds.length === 0) {
+        if (++attempts < 20) timeout = setTimeout(focus, 100);
+        else useSearchStore.getState().clearPendingFocus();
+        return;
+      }
+
+      const bounds = Box.Common(shapeBounds);
+      const sidebarWidth = sidebarColumns > 0 ? (250 * sidebarColumns + 24) : 0;
+      const padding = 128;
+      const availableWidth = window.innerWidth - sidebarWidth - padding;
+      const availableHeight = window.innerHeight - padding;
+      const z = Math.max(0.1, Math.min(availableWidth / bounds.w, availableHeight / bounds.h, 1));
+
+      const targetX = leftHandedMode ? (window.innerWidth - sidebarWidth) / 2 : sidebarWidth + (window.innerWidth - sidebarWidth) / 2;
+      const targetY = window.innerHeight / 2;
+
+      editor.setCamera(
+        { x: (targetX / z) - (bounds.x + bounds.w / 2), y: (targetY / z) - (bounds.y + bounds.h / 2), z },
+        { animation: { duration: 300 } }
+      );
+      editor.select(...shapeIds.filter(id => editor.getShape(id)));
+      useSearchStore.getState().clearPendingFocus();
+    };
+
+    focus();
+    return () => clearTimeout(timeout);
+  }, [editor, pageId, pendingFocus, sidebarColumns, leftHandedMode, isLoadingRef]);
+};
@@ -0,0 +1,114 @@
+import { useEffect } from 'react';
+import { Editor, createShapeId } from 'tldraw';
+import type { IndexKey, StateNode, TLDrawShape, TLShapePartial, VecModel } from 'tldraw';
+import { recognizeShape } from '../lib/shapeRecognition';
+import type { RecognizedShape } from '../lib/shapeRecognition';
+import { StrokeOpacityStyle, getStrokeOpacity } from '../styles/customStyles';
+import { useUserPreferencesStore } from '../store/userPreferencesStore';
+import { syncLog } from '../lib/debugLog';
+
+const HOLD_MS = 600;
+const HOLD_TOLERANCE = 4; // Screen pixels the pen may wobble while holding still
+
+// Line shape points relative to the first one, in drawing order
+const toLinePoints = (points: VecModel[]) => Object.fromEntries(points.map((point, i) => {
+  const id = `a${i + 1}`;
+  return [id, { id, index: id as IndexKey, x: point.x - points[0].x, y: point.y - points[0].y }];
+}));
+
+// The clean shape that replaces the stroke, drawn with the stroke's own style
+const toCleanShape = (editor: Editor, stroke: TLDrawShape, result: RecognizedShape): TLShapePartial => {
+  const style = {
+    color: stroke.props.color,
+    size: stroke.props.size,
+    dash: stroke.props.dash,
+    [StrokeOpacityStyle.id]: getStrokeOpacity(stroke.props),
+  };
+  const placement = {
+    id: createShapeId(),
+    parentId: editor.getCurrentPageId(),
+    ...(stroke.parentId === editor.getCurrentPageId() ? { index: stroke.index } : {}),
+  };
+
+  if ('bounds' in result) {
+    const { x, y, w, h } = result.bounds;
+    return { ...placement, type: 'geo', x, y, props: { ...style, geo: result.kind, w, h, fill: 'none' } };
+  }
+
+  if (result.kind === 'triangle') {
+    // Closed by coming back to the first corner
+    const [first] = result.corners;
+    return { ...placement, type: 'line', x: first.x, y: first.y, props: { ...style, points: toLinePoints([...result.corners, first]) } };
+  }
+
+  if (result.kind === 'line') {
+    return { ...placement, type: 'line', x: result.start.x, y: result.start.y, props: { ...style, points: toLinePoints([result.start, result.end]) } };
+  }
+  const end = { x: result.end.x - result.start.x, y: result.end.y - result.start.y };
+  return { ...placement, type: 'arrow', x: result.start.x, y: result.start.y, props: { ...style, start: { x: 0, y: 0 }, end } };
+};
+
+/**
+ * "Hold to snap": holding the pen still at the end of a stroke replaces it with
+ * the shape it looks like. The stroke is committed first, so undo brings it back.
+ */
+export const useShapeRecognition = (editor: Editor) => {
+  useEffect(() => {
+    const container = editor.getContainer();
+    if (!container) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let anchor = { x: 0, y: 0 };
+
+    const clear = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+
+    const snap = () => {
+      timer = null;
+      if (!editor.isIn('draw.drawing')) return;
+
+      // tldraw doesn't export the Drawing state type
+      const drawing = editor.getStateDescendant<StateNode & { initialShape?: TLDrawShape }>('draw.drawing');
+      const stroke = drawing?.initialShape ? editor.getShape<TLDrawShape>(drawing.initialShape.id) : undefined;
+      if (!stroke) return;
+
+      const points = editor.getShapePageTransform(stroke).applyToPoints(stroke.props.segments.flatMap(s => s.points));
+      const result = recognizeShape(points);
+      if (!result) return;
+
+      syncLog(`✏️ [Recognition] Stroke ${stroke.id} snapped to ${result.kind}`);
+      // Finish the stroke as if the pen had been lifted, then convert it as a separate undo step
+      editor.complete();
+      editor.markHistoryStoppingPoint('recognize shape');
+      editor.run(() => {
+        editor.deleteShapes([stroke.id]);
+        editor.createShape(toCleanShape(editor, stroke, result));
+      });
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!useUserPreferencesStore.getState().shapeRecognition || !editor.isIn('draw.drawing')) {
+        clear();
+        return;
+      }
+      if (timer && Math.hypot(e.clientX - anchor.x, e.clientY - anchor.y) <= HOLD_TOLERANCE) return;
+
+      clear();
+      anchor = { x: e.clientX, y: e.clientY };
+      timer = setTimeout(snap, HOLD_MS);
+    };
+
+    container.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', clear);
+    window.addEventListener('pointercancel', clear);
+
+    return () => {
+      clear();
+      container.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', clear);
+      window.removeEventListener('pointercancel', clear);
+    };
+  }, [editor]);
+};
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import { Editor } from 'tldraw';
+import { syncLog } from '../lib/debugLog';
+import type { TouchGestureAction } from '../lib/penInput';
+import { useUserPreferencesStore } from '../store/userPreferencesStore';
+
+const TAP_MS = 300;
+const DOUBLE_TAP_MS = 300;
+const TAP_TOLERANCE = 10;
+
+/**
+ * Two-finger tap and double tap, each bound to the action chosen in the pen
+ * settings. A tap waits for a possible second one only when a double tap is bound.
+ */
+export const useTouchGestures = (editor: Editor, onRecenter: () => void) => {
+  const onRecenterRef = useRef(onRecenter);
+
+  useEffect(() => {
+    onRecenterRef.current = onRecenter;
+  }, [onRecenter]);
+
+  useEffect(() => {
+    const container = editor.getContainer();
+    if (!container) return;
+
+    const touches = new Map<number, { x: number; y: number }>();
+    let startTime = 0;
+    let maxTouches = 0;
+    let hasMoved = false;
+    let lastTapTime = 0;
+    let pendingTap: ReturnType<typeof setTimeout> | null = null;
+
+    const run = (action: TouchGestureAction) => {
+      if (action === 'none') return;
+      syncLog(`✌️ [GESTURE] Two-finger ${action}`);
+      if (action === 'undo') editor.undo();
+      else if (action === 'redo') editor.redo();
+      else onRecenterRef.current();
+    };
+
+    const handleTap = () => {
+      const { twoFingerTap, twoFingerDoubleTap } = useUserPreferencesStore.getState();
+      if (twoFingerDoubleTap === 'none') {
+        run(twoFingerTap);
+        return;
+      }
+
+      if (pendingTap && Date.now() - lastTapTime < DOUBLE_TAP_MS) {
+        clearTimeout(pendingTap);
+        pendingTap = null;
+        run(twoFingerDoubleTap);
+        return;
+      }
+
+      lastTapTime = Date.now();
+      pendingTap = setTimeout(() => {
+        pendingTap = null;
+        run(twoFingerTap);
+      }, DOUBLE_TAP_MS);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch') return;
+      const target = e.target as HTMLElement;
+      if (target.closest?.('[data-is-ui="true"]')) return;
+
+      if (touches.size === 0) {
+        startTime = Date.now();
+        maxTouches = 0;
+        hasMoved = false;
+      }
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      maxTouches = Math.max(maxTouches, touches.size);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const start = touches.get(e.pointerId);
+      if (start && Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_TOLERANCE) hasMoved = true;
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.type === 'pointercancel') hasMoved = true;
+      if (!touches.delete(e.pointerId) || touches.size > 0) return;
+      if (maxTouches === 2 && !hasMoved && Date.now() - startTime < TAP_MS) handleTap();
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    container.addEventListener('pointermove', handlePointerMove, { capture: true });
+    window.addEventListener('pointerup', handlePointerUp, { capture: true });
+    window.addEventListener('pointercancel', handlePointerUp, { capture: true });
+
+    return () => {
+      if (pendingTap) clearTimeout(pendingTap);
+      container.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      container.removeEventListener('pointermove', handlePointerMove, { capture: true });
+      window.removeEventListener('pointerup', handlePointerUp, { capture: true });
+      window.removeEventListener('pointercancel', handlePointerUp, { capture: true });
+    };
+  }, [editor]);
+};
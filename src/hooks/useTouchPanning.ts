@@ -46,7 +46,7 @@ export const useTouchPanning = (
         }
       }
 
-      if (penMode && (currentTool === 'draw' || currentTool === 'eraser') && e.pointerType !== 'pen') {
+      if (penMode && ['draw', 'highlight', 'eraser', 'lasso'].includes(currentTool) && e.pointerType !== 'pen') {
         if (activeTouchIds.size === 0) {
           previousTool = currentTool;
           editor.setCurrentTool('hand');
@@ -0,0 +1,78 @@
+/**
+ * Custom palette colors. Shapes store them as a CSS `light-dark()` value with
+ * both variants inlined, so every device renders them without knowing the
+ * palette. tldraw passes color values it doesn't know straight through to the
+ * SVG, and the canvas sets `color-scheme` so the browser picks the variant.
+ */
+export interface CustomColor {
+  light: string;
+  dark: string;
+}
+
+const CUSTOM_COLOR = /^light-dark\((#[0-9a-f]{6}), (#[0-9a-f]{6})\)$/;
+const CUSTOM_COLOR_IN_TEXT = /light-dark\((#[0-9a-f]{6}), (#[0-9a-f]{6})\)/g;
+const HEX = /^#[0-9a-f]{6}$/;
+
+export const MAX_PALETTE_SIZE = 16;
+
+export const isHexColor = (value: string) => HEX.test(value);
+
+export const isCustomColor = (value: unknown): value is string =>
+  typeof value === 'string' && CUSTOM_COLOR.test(value);
+
+export const toCustomColor = ({ light, dark }: CustomColor) =>
+  `light-dark(${light.toLowerCase()}, ${dark.toLowerCase()})`;
+
+export const parseCustomColor = (value: string): CustomColor | null => {
+  const match = CUSTOM_COLOR.exec(value);
+  return match ? { light: match[1], dark: match[2] } : null;
+};
+
+export const getCustomColorVariant = (value: string, isDarkMode: boolean) => {
+  const color = parseCustomColor(value);
+  if (!color) return value;
+  return isDarkMode ? color.dark : color.light;
+};
+
+const toHsl = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return { h: h / 6, s, l };
+};
+
+const toHex = ({ h, s, l }: { h: number; s: number; l: number }) => {
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    t = (t + 1) % 1;
+    const value = t < 1 / 6 ? p + (q - p) * 6 * t : t < 1 / 2 ? q : t < 2 / 3 ? p + (q - p) * (2 / 3 - t) * 6 : p;
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(h + 1 / 3)}${channel(h)}${channel(h - 1 / 3)}`;
+};
+
+/**
+ * Suggested dark-mode variant: same hue, lightness mirrored so dark ink turns
+ * light (like tldraw's black) while mid tones stay readable on a dark page.
+ */
+export const deriveDarkVariant = (light: string) => {
+  const hsl = toHsl(light);
+  return toHex({ ...hsl, l: Math.min(0.9, Math.max(0.45, 1 - hsl.l)) });
+};
+
+// Exported SVGs have no color-scheme to resolve light-dark() against
+export const resolveCustomColors = (svg: SVGElement, isDarkMode: boolean) => {
+  for (const element of [svg, ...svg.querySelectorAll('*')]) {
+    for (const attribute of [...element.attributes]) {
+      if (!attribute.value.includes('light-dark(')) continue;
+      attribute.value = attribute.value.replace(CUSTOM_COLOR_IN_TEXT, (_, light, dark) => isDarkMode ? dark : light);
+    }
+  }
+};
@@ -6,6 +6,31 @@ let gapiInited = false;
 let gisInited = false;
 let initPromise: Promise<void> | null = null;
 
+interface DriveChange {
+  fileId: string;
+  removed?: boolean;
+  file?: { name?: string; parents?: string[]; version?: string; trashed?: boolean };
+}
+
+interface DriveResponse<T> {
+  result: T;
+  body?: string;
+}
+
+// The Drive calls sync relies on, gapi itself comes untyped (see gapi.d.ts)
+interface DriveSyncApi {
+  files: {
+    get(params: { fileId: string; alt: 'media' }): Promise<DriveResponse<unknown>>;
+    list(params: Record<string, unknown>): Promise<DriveResponse<{ files?: { id: string; name: string }[]; nextPageToken?: string }>>;
+  };
+  changes: {
+    getStartPageToken(params: Record<string, unknown>): Promise<DriveResponse<{ startPageToken: string }>>;
+    list(params: Record<string, unknown>): Promise<DriveResponse<{ changes?: DriveChange[]; nextPageToken?: string; newStartPageToken?: string }>>;
+  };
+}
+
+const driveSyncApi = () => gapi.client?.drive as DriveSyncApi;
+
 export const googleDrive = {
   async init(onAuthenticated: (response: any) => void, onError?: (error: any) => void) {
     if (initPromise) return initPromise;
@@ -147,6 +172,27 @@ export const googleDrive = {
     return response.result;
   },
 
+  async downloadFile(fileId: string): Promise<string> {
+    const response = await driveSyncApi().files.get({ fileId, alt: 'media' });
+    return typeof response.body === 'string' ? response.body : JSON.stringify(response.result);
+  },
+
+  async listFiles(parentId: string) {
+    const files: { id: string; name: string }[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await driveSyncApi().files.list({
+        q: `'${parentId}' in parents and trashed=false`,
+        fields: 'nextPageToken, files(id, name)',
+        pageSize: 1000,
+        pageToken,
+      });
+      files.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+    return files;
+  },
+
   async createFolder(name: string, parentId?: string) {
     const fileMetadata = {
       name: name,
@@ -207,12 +253,13 @@ export const googleDrive = {
     }
 
     // @ts-ignore
-    await gapi.client.request({
+    const response = await gapi.client.request({
       path: `/upload/drive/v3/files/${fileId}`,
       method: 'PATCH',
-      params: { uploadType: 'media' },
+      params: { uploadType: 'media', fields: 'version' },
       body: content,
     });
+    return response.result?.version ? String(response.result.version) : null;
   },
 
   async deleteFile(fileId: string) {
@@ -222,6 +269,30 @@ export const googleDrive = {
     });
   },
 
+  async getStartPageToken(): Promise<string> {
+    const response = await driveSyncApi().changes.getStartPageToken({});
+    return response.result.startPageToken;
+  },
+
+  // Every change since the token, across all the files the app can see
+  async listChanges(pageToken: string) {
+    const changes: DriveChange[] = [];
+    let newStartPageToken = pageToken;
+    let nextPageToken: string | undefined = pageToken;
+    while (nextPageToken) {
+      const response = await driveSyncApi().changes.list({
+        pageToken: nextPageToken,
+        fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(name, parents, version, trashed))',
+        includeRemoved: true,
+        pageSize: 1000,
+      });
+      changes.push(...(response.result.changes || []));
+      nextPageToken = response.result.nextPageToken;
+      if (response.result.newStartPageToken) newStartPageToken = response.result.newStartPageToken;
+    }
+    return { changes, newStartPageToken };
+  },
+
   async findFileByName(name: string, parentId?: string) {
     // @ts-ignore
     if (!gapi.client.drive) {
@@ -0,0 +1,118 @@
+import { opfs } from './opfs';
+import { diskLog } from './debugLog';
+import type { TLDrawShape, TLRecord } from 'tldraw';
+import type { PageSnapshot } from './snapshotMerge';
+
+// Stroke widths used by tldraw for each size style, needed to rasterize ink like it is rendered
+export const STROKE_WIDTHS: Record<string, number> = { s: 2, m: 3.5, l: 5, xl: 10 };
+
+export interface InkShape {
+  id: string;
+  x: number;
+  y: number;
+  rotation: number;
+  strokeWidth: number;
+  strokes: { x: number; y: number }[][]; // Relative to the shape origin
+}
+
+export interface InkGroup {
+  shapeIds: string[];
+  text: string;
+}
+
+interface InkSidecar {
+  hash: string;
+  groups: InkGroup[];
+}
+
+// Sidecar file stored next to page-<id>.tldr
+export const inkSidecarName = (pageId: string) => `page-${pageId}.ink.json`;
+
+const isDrawShape = (r: TLRecord): r is TLDrawShape =>
+  r?.typeName === 'shape' && r.type === 'draw' && Array.isArray((r as TLDrawShape).props?.segments);
+
+const extractInkShapes = (snapshot: PageSnapshot | null): InkShape[] => {
+  const records: TLRecord[] = Object.values(snapshot?.store || snapshot?.document?.store || {});
+  return records
+    .filter(isDrawShape)
+    .sort((a, b) => (a.id < b.id ? -1 : 1))
+    .map(r => {
+      const scale = r.props.scale || 1;
+      return {
+        id: r.id,
+        x: r.x,
+        y: r.y,
+        rotation: r.rotation || 0,
+        strokeWidth: (STROKE_WIDTHS[r.props.size] || STROKE_WIDTHS.m) * scale,
+        // Points are already in shape space, only the stroke width follows the shape scale
+        strokes: r.props.segments.map(seg => (seg.points || []).map(p => ({ x: p.x, y: p.y })))
+      };
+    });
+};
+
+const hashInk = async (shapes: InkShape[]) => {
+  const data = new TextEncoder().encode(JSON.stringify(shapes));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Offline handwriting recognition for draw shapes. The heavy lifting happens in a
+// dedicated worker; results are cached per page in an OPFS sidecar keyed by a hash of the ink.
+export const inkIndex = {
+  worker: null as Worker | null,
+  nextJobId: 0,
+  pendingJobs: {} as Record<number, { resolve: (groups: InkGroup[] | null) => void }>,
+  queue: Promise.resolve() as Promise<unknown>,
+
+  getWorker() {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/handwritingRecognition.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent) => {
+        const { jobId, groups, error } = e.data;
+        if (error) console.error('❌ [Ink] Recognition failed:', error);
+        this.pendingJobs[jobId]?.resolve(error ? null : groups);
+        delete this.pendingJobs[jobId];
+      };
+    }
+    return this.worker;
+  },
+
+  async loadSidecar(pageId: string): Promise<InkSidecar | null> {
+    const content = await opfs.loadFile(inkSidecarName(pageId));
+    if (!content) return null;
+    try {
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  },
+
+  runJob(shapes: InkShape[]) {
+    return new Promise<InkGroup[] | null>((resolve) => {
+      const jobId = this.nextJobId++;
+      this.pendingJobs[jobId] = { resolve };
+      this.getWorker().postMessage({ jobId, shapes });
+    });
+  },
+
+  // Returns the recognized text groups of a page, reusing the sidecar when the ink is unchanged.
+  // Jobs are queued so only one page is recognized at a time.
+  recognizePage(pageId: string, snapshot: PageSnapshot | null): Promise<InkGroup[] | null> {
+    const job = this.queue.then(async () => {
+      const shapes = extractInkShapes(snapshot);
+      const hash = await hashInk(shapes);
+
+      const sidecar = await this.loadSidecar(pageId);
+      if (sidecar?.hash === hash) return sidecar.groups;
+
+      const groups = shapes.length > 0 ? await this.runJob(shapes) : [];
+      if (!groups) return null;
+
+      await opfs.saveFile(inkSidecarName(pageId), JSON.stringify({ hash, groups }));
+      diskLog(`✍️ [Ink] Recognized ${groups.length} group(s) on page ${pageId}`);
+      return groups;
+    });
+    this.queue = job.catch(() => null);
+    return job;
+  }
+};
@@ -5,10 +5,27 @@ export const opfs = {
     return await navigator.storage.getDirectory();
   },
 
+  // Walks a "dir/subdir" path from the root. Throws if it doesn't exist and create is false.
+  async getDirectory(path: string, create = false) {
+    let dir = await this.getRoot();
+    for (const segment of path.split('/').filter(Boolean)) {
+      dir = await dir.getDirectoryHandle(segment, { create });
+    }
+    return dir;
+  },
+
+  // Splits "dir/file.ext" into its parent directory handle and file name
+  async resolvePath(path: string, create = false) {
+    const segments = path.split('/');
+    const name = segments.pop()!;
+    const dir = await this.getDirectory(segments.join('/'), create);
+    return { dir, name };
+  },
+
   async saveFile(filename: string, content: string | Blob) {
     try {
-      const root = await this.getRoot();
-      const fileHandle = await root.getFileHandle(filename, { create: true });
+      const { dir, name } = await this.resolvePath(filename, true);
+      const fileHandle = await dir.getFileHandle(name, { create: true });
       const writable = await fileHandle.createWritable();
       await writable.write(content);
       await writable.close();
@@ -19,27 +36,36 @@ export const opfs = {
 
   async loadFile(filename: string): Promise<string | null> {
     try {
-      const root = await this.getRoot();
-      try {
-        const fileHandle = await root.getFileHandle(filename);
-        const file = await fileHandle.getFile();
-        return await file.text();
-      } catch (e) {
-        // File not found is fine
-        return null;
-      }
+      const { dir, name } = await this.resolvePath(filename);
+      const fileHandle = await dir.getFileHandle(name);
+      const file = await fileHandle.getFile();
+      return await file.text();
     } catch (e) {
-      console.error(`Error loading ${filename}`, e);
+      // File (or its directory) not found is fine
+      if ((e as DOMException)?.name !== 'NotFoundError') console.error(`Error loading ${filename}`, e);
       return null;
     }
   },
 
-  async listFiles() {
-    const root = await this.getRoot();
+  async deleteFile(filename: string) {
+    try {
+      const { dir, name } = await this.resolvePath(filename);
+      await dir.removeEntry(name, { recursive: true });
+    } catch {
+      // Already gone is fine
+    }
+  },
+
+  async listFiles(dirPath = '') {
     const files = [];
-    // @ts-ignore - TS might not have full iterator types for FileSystemDirectoryHandle yet
-    for await (const [name, handle] of root.entries()) {
-      files.push(name);
+    try {
+      const dir = await this.getDirectory(dirPath);
+      // @ts-ignore - TS might not have full iterator types for FileSystemDirectoryHandle yet
+      for await (const [name, handle] of dir.entries()) {
+        files.push(name);
+      }
+    } catch {
+      // Missing directory means no files
     }
     return files;
   },
@@ -52,7 +78,7 @@ export const opfs = {
       console.log(`🗑️ Deleting ${files.length} files from OPFS...`);
 
       for (const filename of files) {
-        await root.removeEntry(filename);
+        await root.removeEntry(filename, { recursive: true });
         console.log(`  ✓ Deleted ${filename}`);
       }
 
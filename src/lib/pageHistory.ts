@@ -0,0 +1,96 @@
+import { opfs } from './opfs';
+import { diskLog } from './debugLog';
+
+const HISTORY_DIR = 'history';
+
+// Snapshot policy: a revision is captured before overwriting a page when enough
+// time has passed since the last one, or when the content size changes a lot
+// (e.g. a big erase), so a destructive edit can always be undone.
+const MIN_INTERVAL = 10 * 60 * 1000;
+const SIZE_CHANGE_RATIO = 0.25;
+const MIN_SIZE_CHANGE = 2048;
+
+// Retention rules: everything from the last day, then hourly for a week,
+// then daily for a month. Older revisions are dropped.
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MAX_REVISIONS = 200;
+
+export interface PageRevision {
+  id: string; // Also the file name (without extension) inside the page history folder
+  createdAt: number;
+  size: number;
+}
+
+const pageDir = (pageId: string) => `${HISTORY_DIR}/${pageId}`;
+const indexFile = (pageId: string) => `${pageDir(pageId)}/index.json`;
+const revisionFile = (pageId: string, revisionId: string) => `${pageDir(pageId)}/${revisionId}.tldr`;
+
+const isEmptyContent = (content: string | null) => !content || content === '{}';
+
+// Returns the revisions that survive the retention rules (newest first)
+export const pruneRevisions = (revisions: PageRevision[], now = Date.now()) => {
+  const sorted = [...revisions].sort((a, b) => b.createdAt - a.createdAt);
+  const usedBuckets = new Set<string>();
+
+  return sorted.filter(rev => {
+    const age = now - rev.createdAt;
+    if (age <= DAY) return true;
+    if (age > 30 * DAY) return false;
+
+    const bucket = age <= 7 * DAY ? `h-${Math.floor(rev.createdAt / HOUR)}` : `d-${Math.floor(rev.createdAt / DAY)}`;
+    if (usedBuckets.has(bucket)) return false;
+    usedBuckets.add(bucket);
+    return true;
+  }).slice(0, MAX_REVISIONS);
+};
+
+export const pageHistory = {
+  async listRevisions(pageId: string): Promise<PageRevision[]> {
+    const content = await opfs.loadFile(indexFile(pageId));
+    if (!content) return [];
+    try {
+      return (JSON.parse(content) as PageRevision[]).sort((a, b) => b.createdAt - a.createdAt);
+    } catch (e) {
+      console.error(`Error reading history index for ${pageId}`, e);
+      return [];
+    }
+  },
+
+  async loadRevision(pageId: string, revisionId: string) {
+    return await opfs.loadFile(revisionFile(pageId, revisionId));
+  },
+
+  async addRevision(pageId: string, content: string) {
+    const createdAt = Date.now();
+    const revision: PageRevision = { id: String(createdAt), createdAt, size: content.length };
+    await opfs.saveFile(revisionFile(pageId, revision.id), content);
+
+    const revisions = [revision, ...await this.listRevisions(pageId)];
+    const kept = pruneRevisions(revisions, createdAt);
+    const keptIds = new Set(kept.map(r => r.id));
+    for (const old of revisions.filter(r => !keptIds.has(r.id))) {
+      await opfs.deleteFile(revisionFile(pageId, old.id));
+    }
+
+    await opfs.saveFile(indexFile(pageId), JSON.stringify(kept));
+    diskLog(`🕓 [History] Revision saved for ${pageId} (${kept.length} kept)`);
+    return revision;
+  },
+
+  // Called right before page-<id>.tldr is overwritten with nextContent.
+  // Stores the content being replaced if the snapshot policy says so.
+  async captureBeforeOverwrite(pageId: string, nextContent: string) {
+    const previous = await opfs.loadFile(`page-${pageId}.tldr`);
+    if (isEmptyContent(previous) || previous === nextContent) return;
+
+    const [latest] = await this.listRevisions(pageId);
+    const sizeDelta = Math.abs(nextContent.length - previous!.length);
+    const isBigChange = sizeDelta >= MIN_SIZE_CHANGE && sizeDelta / previous!.length >= SIZE_CHANGE_RATIO;
+    const isDue = !latest || Date.now() - latest.createdAt >= MIN_INTERVAL;
+
+    if (isDue || isBigChange) {
+      await this.addRevision(pageId, previous!);
+    }
+  }
+};
@@ -0,0 +1,101 @@
+import type { PageTemplate, PageTemplateType } from '../types';
+
+export const TEMPLATE_TYPES: PageTemplateType[] = ['none', 'ruled', 'grid', 'dot', 'cornell', 'music'];
+export const TEMPLATE_COLORS = ['#94a3b8', '#93c5fd', '#f9a8d4', '#86efac', '#fcd34d'];
+export const TEMPLATE_SPACING = { min: 16, max: 64, default: 32 };
+
+export const DEFAULT_TEMPLATE: PageTemplate = { type: 'none', spacing: TEMPLATE_SPACING.default, color: TEMPLATE_COLORS[0] };
+
+const HEX_COLOR = /^#[0-9a-f]{3,8}$/i;
+
+/**
+ * Templates end up interpolated into SVG markup, so ones coming from shared
+ * files or other devices are reduced to known types, numbers and hex colors.
+ * Returns the template unchanged when it was already safe.
+ */
+export const sanitizeTemplate = (template: PageTemplate | undefined): PageTemplate | undefined => {
+  if (template === undefined) return undefined;
+  if (!template || typeof template !== 'object') return DEFAULT_TEMPLATE;
+
+  const type = TEMPLATE_TYPES.includes(template.type) ? template.type : 'none';
+  // Out of range spacings would give an empty or absurdly dense pattern
+  const spacing = Number.isFinite(template.spacing)
+    ? Math.min(TEMPLATE_SPACING.max, Math.max(TEMPLATE_SPACING.min, template.spacing))
+    : TEMPLATE_SPACING.default;
+  const color = typeof template.color === 'string' && HEX_COLOR.test(template.color) ? template.color : TEMPLATE_COLORS[0];
+  if (type === template.type && spacing === template.spacing && color === template.color) return template;
+
+  return { type, spacing, color };
+};
+
+// Below this many screen pixels between lines the pattern is just noise
+export const MIN_SCREEN_SPACING = 6;
+
+const LINE = 1;
+
+interface Area {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const line = (x: number, y: number, w: number, h: number, color: string) =>
+  `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${color}"/>`;
+
+// One tile of the repeating pattern. Lines are filled rects inside the tile,
+// strokes on the tile edge would be clipped to half their width.
+const getTile = ({ type, spacing: s, color }: PageTemplate): { w: number; h: number; content: string } | null => {
+  switch (type) {
+    case 'ruled':
+    case 'cornell':
+      return { w: s, h: s, content: line(0, s - LINE, s, LINE, color) };
+    case 'grid':
+      return { w: s, h: s, content: line(0, s - LINE, s, LINE, color) + line(s - LINE, 0, LINE, s, color) };
+    case 'dot':
+      return { w: s, h: s, content: `<circle cx="${s / 2}" cy="${s / 2}" r="${LINE * 1.5}" fill="${color}"/>` };
+    case 'music': {
+      // Five lines spanning `s`, with a staff-high gap before the next staff
+      const gap = s / 4;
+      const content = [0, 1, 2, 3, 4].map(i => line(0, s / 2 + i * gap, s, LINE, color)).join('');
+      return { w: s, h: 2 * s, content };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * SVG markup for a template covering `area` (page coordinates). The pattern is
+ * anchored at the page origin, so the canvas and exported tiles line up.
+ * Cornell adds a title rule and the cue column on top of the ruled lines.
+ */
+export const renderTemplate = (template: PageTemplate, area: Area, id: string): string => {
+  const tile = getTile(template);
+  if (!tile) return '';
+
+  const { x, y, w, h } = area;
+  let markup =
+    `<defs><pattern id="${id}" patternUnits="userSpaceOnUse" width="${tile.w}" height="${tile.h}">${tile.content}</pattern></defs>` +
+    `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="url(#${id})"/>`;
+
+  if (template.type === 'cornell') {
+    const s = template.spacing;
+    const titleY = 2 * s;
+    const cueX = 6 * s;
+    if (titleY > y && titleY < y + h) markup += line(x, titleY - LINE, w, 2 * LINE, template.color);
+    if (cueX > x && cueX < x + w && y + h > titleY) {
+      const top = Math.max(y, titleY);
+      markup += line(cueX - LINE, top, 2 * LINE, y + h - top, template.color);
+    }
+  }
+
+  return markup;
+};
+
+// Draws the template behind the content of an exported SVG, across its whole viewBox
+export const addTemplateToSvg = (svg: SVGSVGElement, template: PageTemplate | undefined, id: string) => {
+  if (!template || template.type === 'none') return;
+  const { x, y, width, height } = svg.viewBox.baseVal;
+  svg.insertAdjacentHTML('afterbegin', `<g>${renderTemplate(template, { x, y, w: width, h: height }, id)}</g>`);
+};
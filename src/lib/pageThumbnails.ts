@@ -0,0 +1,270 @@
+import { DefaultColorThemePalette } from 'tldraw';
+import type { TLDefaultColorStyle, TLDefaultColorThemeColor, TLRecord, TLShape } from 'tldraw';
+import { opfs } from './opfs';
+import { diskLog } from './debugLog';
+import { STROKE_WIDTHS } from './inkIndex';
+import { getCustomColorVariant, isCustomColor } from './customColors';
+import { getRichTextColorsMap, htmlToLines, RICH_TEXT_SIZES } from '../shapes/richTextContent';
+import { getNoteFill, NOTE_FONT_SIZE, NOTE_PADDING, NOTE_SIZE } from '../shapes/noteShape';
+import { MATH_FONT_SIZES, MATH_PADDING } from '../shapes/mathShape';
+import { HIGHLIGHT_WIDTHS } from '../shapes/highlightPath';
+import { FillColorStyle, FillOpacityStyle, getStrokeOpacity } from '../styles/customStyles';
+import type { PageSnapshot } from './snapshotMerge';
+import type { Page } from '../types';
+
+// Drawn at twice the size of the largest place that shows them
+export const THUMBNAIL_WIDTH = 320;
+export const THUMBNAIL_HEIGHT = 240;
+
+const THUMBNAIL_DIR = 'thumbnails';
+
+// Thumbnails are always drawn as ink on white paper; dark mode inverts them when shown
+const theme = DefaultColorThemePalette.lightMode;
+const textColors = getRichTextColorsMap(theme);
+
+// A simplified drawing instruction, positioned by the page transform of its shape
+export interface ThumbnailItem {
+  kind: 'path' | 'rect' | 'ellipse' | 'text';
+  x: number;
+  y: number;
+  rotation: number;
+  w?: number;
+  h?: number;
+  paths?: { x: number; y: number }[][];
+  closed?: boolean;
+  lines?: string[];
+  fontSize?: number;
+  padding?: number;
+  stroke?: string;
+  strokeWidth?: number;
+  fill?: string;
+  opacity: number;
+}
+
+// Versioned so another device's edits invalidate the cached image
+const thumbnailPath = (pageId: string, version: number) => `${THUMBNAIL_DIR}/${pageId}/v${version}.png`;
+export const thumbnailDir = (pageId: string) => `${THUMBNAIL_DIR}/${pageId}`;
+
+// The props read below, across every shape type; each shape only has some of them
+interface ShapeProps {
+  color: string;
+  size: string;
+  w: number;
+  h: number;
+  scale?: number;
+  scaleY?: number;
+  fill?: string;
+  isClosed?: boolean;
+  segments?: { points?: { x: number; y: number }[] }[];
+  points?: Record<string, { x: number; y: number; index: string }>;
+  start?: { x: number; y: number };
+  end?: { x: number; y: number };
+  geo?: string;
+  growY?: number;
+  html?: string;
+  latex?: string;
+  [style: string]: unknown;
+}
+
+const themeColor = (color: string) => theme[color as TLDefaultColorStyle] as TLDefaultColorThemeColor | undefined;
+
+const resolveColor = (color: string) =>
+  isCustomColor(color) ? getCustomColorVariant(color, false) : themeColor(color)?.solid || color;
+
+const resolveFill = (props: ShapeProps) => {
+  if (!props.fill || props.fill === 'none') return undefined;
+  const color = (props[FillColorStyle.id] as string | undefined) || props.color;
+  return resolveColor(color);
+};
+
+const fillOpacity = (props: ShapeProps, fallback: string) => parseFloat((props[FillOpacityStyle.id] as string | undefined) || fallback);
+
+// Draw, highlight and line points are already in shape space, the scale only widens the stroke
+const toPoints = (points: { x: number; y: number }[]) => points.map(p => ({ x: p.x, y: p.y }));
+
+const toShapeItems = (r: TLShape): Omit<ThumbnailItem, 'x' | 'y' | 'rotation'>[] => {
+  const props = (r.props || {}) as ShapeProps;
+  const scale = props.scale || 1;
+  const opacity = (r.opacity ?? 1) * parseFloat(getStrokeOpacity(props));
+  const strokeWidth = (STROKE_WIDTHS[props.size] || STROKE_WIDTHS.m) * scale;
+
+  switch (r.type) {
+    case 'draw': {
+      const paths = (props.segments || []).map(seg => toPoints(seg.points || []));
+      const fill = props.isClosed ? resolveFill(props) : undefined;
+      return [
+        ...(fill ? [{ kind: 'path' as const, paths, closed: true, fill, opacity: opacity * fillOpacity(props, '0') }] : []),
+        { kind: 'path', paths, closed: props.isClosed, stroke: resolveColor(props.color), strokeWidth, opacity }
+      ];
+    }
+    case 'highlight':
+      return [{
+        kind: 'path',
+        paths: (props.segments || []).map(seg => toPoints(seg.points || [])),
+        stroke: themeColor(props.color)?.highlightSrgb || resolveColor(props.color),
+        strokeWidth: (HIGHLIGHT_WIDTHS[props.size] ?? HIGHLIGHT_WIDTHS.m) * scale,
+        opacity: opacity * 0.5
+      }];
+    case 'line': {
+      const points = toPoints(Object.values(props.points || {}).sort((a, b) => (a.index < b.index ? -1 : 1)));
+      return [{ kind: 'path', paths: [points], stroke: resolveColor(props.color), strokeWidth, opacity }];
+    }
+    case 'arrow':
+      if (!props.start || !props.end) return [];
+      return [{ kind: 'path', paths: [[props.start, props.end]], stroke: resolveColor(props.color), strokeWidth, opacity }];
+    case 'geo': {
+      const kind: ThumbnailItem['kind'] = props.geo === 'ellipse' || props.geo === 'oval' ? 'ellipse' : 'rect';
+      const h = props.h + (props.growY || 0);
+      const fill = resolveFill(props);
+      return [
+        ...(fill ? [{ kind, w: props.w, h, fill, opacity: opacity * fillOpacity(props, '0.1') }] : []),
+        { kind, w: props.w, h, stroke: resolveColor(props.color), strokeWidth, opacity }
+      ];
+    }
+    case 'note': {
+      const size = NOTE_SIZE * scale;
+      const height = (NOTE_SIZE + (props.growY || 0)) * scale;
+      return [
+        { kind: 'rect', w: size, h: height, fill: getNoteFill(theme, getCustomColorVariant(props.color, false)), opacity: r.opacity ?? 1 },
+        { kind: 'text', padding: NOTE_PADDING * scale, lines: htmlToLines(props.html || ''), fontSize: parseFloat(NOTE_FONT_SIZE) * scale, fill: theme.black.solid, opacity: r.opacity ?? 1 }
+      ];
+    }
+    case 'rich-text': {
+      const fontSize = parseFloat(RICH_TEXT_SIZES[props.size] || RICH_TEXT_SIZES.m) * (props.scaleY ?? 1);
+      return [{ kind: 'text', padding: 6, lines: htmlToLines(props.html || ''), fontSize, fill: textColors[props.color] || resolveColor(props.color), opacity: r.opacity ?? 1 }];
+    }
+    case 'math':
+      return [{ kind: 'text', padding: MATH_PADDING, lines: [props.latex || ''], fontSize: (MATH_FONT_SIZES[props.size] || MATH_FONT_SIZES.m) * 0.8, fill: textColors[props.color] || resolveColor(props.color), opacity: r.opacity ?? 1 }];
+    case 'image':
+    case 'video':
+    case 'bookmark':
+    case 'embed':
+      return [{ kind: 'rect', w: props.w, h: props.h, fill: theme.grey.semi, opacity: r.opacity ?? 1 }];
+    case 'frame':
+      return [{ kind: 'rect', w: props.w, h: props.h, stroke: theme.grey.solid, strokeWidth: 1, opacity: r.opacity ?? 1 }];
+    default:
+      return [];
+  }
+};
+
+// Flattens the snapshot into drawing instructions in paint order, with group and frame offsets applied
+export const extractThumbnailItems = (snapshot: PageSnapshot): ThumbnailItem[] => {
+  const records: TLRecord[] = Object.values(snapshot?.store || snapshot?.document?.store || {});
+  const shapes = records.filter((r): r is TLShape => r?.typeName === 'shape');
+  const pageRecord = records.find(r => r?.typeName === 'page');
+
+  const children: Record<string, TLShape[]> = {};
+  shapes.forEach(shape => (children[shape.parentId] ||= []).push(shape));
+
+  const items: ThumbnailItem[] = [];
+  const visit = (parentId: string, origin: { x: number; y: number; rotation: number }) => {
+    (children[parentId] || [])
+      .sort((a, b) => (a.index < b.index ? -1 : 1))
+      .forEach(shape => {
+        const cos = Math.cos(origin.rotation);
+        const sin = Math.sin(origin.rotation);
+        const transform = {
+          x: origin.x + shape.x * cos - shape.y * sin,
+          y: origin.y + shape.x * sin + shape.y * cos,
+          rotation: origin.rotation + (shape.rotation || 0)
+        };
+        toShapeItems(shape).forEach(item => items.push({ ...item, ...transform }));
+        visit(shape.id, transform);
+      });
+  };
+  visit(pageRecord?.id || shapes.find(s => s.parentId?.startsWith('page:'))?.parentId || '', { x: 0, y: 0, rotation: 0 });
+  return items;
+};
+
+// Small page previews for the sidebar. Rasterizing happens in a dedicated worker and the
+// PNG is kept in OPFS per page version, so unchanged pages never render twice.
+export const pageThumbnails = {
+  worker: null as Worker | null,
+  nextJobId: 0,
+  pendingJobs: {} as Record<number, { resolve: (blob: Blob | null) => void }>,
+  queue: Promise.resolve() as Promise<unknown>,
+  urls: new Map<string, { version: number; url: Promise<string | null> }>(),
+
+  getWorker() {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pageThumbnail.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent) => {
+        const { jobId, blob, error } = e.data;
+        if (error) console.error('❌ [Thumbnails] Rendering failed:', error);
+        this.pendingJobs[jobId]?.resolve(error ? null : blob);
+        delete this.pendingJobs[jobId];
+      };
+    }
+    return this.worker;
+  },
+
+  runJob(items: ThumbnailItem[]) {
+    return new Promise<Blob | null>((resolve) => {
+      const jobId = this.nextJobId++;
+      this.pendingJobs[jobId] = { resolve };
+      this.getWorker().postMessage({ jobId, items, width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT });
+    });
+  },
+
+  async loadCached(pageId: string, version: number): Promise<Blob | null> {
+    try {
+      const { dir, name } = await opfs.resolvePath(thumbnailPath(pageId, version));
+      return await (await dir.getFileHandle(name)).getFile();
+    } catch {
+      return null;
+    }
+  },
+
+  // Renders the snapshot and replaces whatever was stored for older versions of the page
+  async render(pageId: string, version: number, snapshot: PageSnapshot): Promise<Blob | null> {
+    const items = extractThumbnailItems(snapshot);
+    if (items.length === 0) {
+      await opfs.deleteFile(thumbnailDir(pageId));
+      return null;
+    }
+
+    const blob = await this.runJob(items);
+    if (!blob) return null;
+
+    const stale = (await opfs.listFiles(thumbnailDir(pageId))).filter(name => name !== `v${version}.png`);
+    await Promise.all(stale.map(name => opfs.deleteFile(`${thumbnailDir(pageId)}/${name}`)));
+    await opfs.saveFile(thumbnailPath(pageId, version), blob);
+    diskLog(`🖼️ [Thumbnails] Rendered page ${pageId} v${version}`);
+    return blob;
+  },
+
+  enqueue(pageId: string, version: number, job: () => Promise<Blob | null>) {
+    const blob = this.queue.then(job).catch((e) => {
+      console.warn(`[Thumbnails] Could not render page ${pageId}`, e);
+      return null;
+    });
+    this.queue = blob;
+
+    const previous = this.urls.get(pageId);
+    const url = blob.then(b => (b ? URL.createObjectURL(b) : null));
+    this.urls.set(pageId, { version, url });
+    previous?.url.then(old => old && URL.revokeObjectURL(old));
+    return url;
+  },
+
+  // Called after every save, the stored image for this version is no longer current
+  updatePage(page: Page, snapshot: PageSnapshot) {
+    this.enqueue(page.id, page.version, () => this.render(page.id, page.version, snapshot));
+  },
+
+  // Object URL of the page preview, or null for an empty page.
+  // Falls back to rendering from the page file when this version has no stored image yet.
+  getThumbnail(page: Page): Promise<string | null> {
+    const cached = this.urls.get(page.id);
+    if (cached?.version === page.version) return cached.url;
+
+    return this.enqueue(page.id, page.version, async () => {
+      const stored = await this.loadCached(page.id, page.version);
+      if (stored) return stored;
+
+      const content = await opfs.loadFile(`page-${page.id}.tldr`);
+      if (!content || content === '{}') return null;
+      return this.render(page.id, page.version, JSON.parse(content));
+    });
+  }
+};
@@ -0,0 +1,35 @@
+export type TouchGestureAction = 'none' | 'undo' | 'redo' | 'recenter';
+
+export const TOUCH_GESTURE_ACTIONS: TouchGestureAction[] = ['none', 'undo', 'redo', 'recenter'];
+
+// Exponent applied to the pen pressure: below 1 thickens light strokes, above 1 thins them
+export const PRESSURE_CURVE = { min: 0.4, max: 2.5, default: 1 };
+export const MIN_PRESSURE = { min: 0, max: 0.3, default: 0 };
+export const PALM_CONTACT_SIZE = { min: 15, max: 80, default: 40 }; // CSS pixels
+export const PALM_REJECTION_DELAY = { min: 0, max: 1500, default: 500 }; // ms since the pen was last seen
+
+/**
+ * Maps a raw pen pressure through the user's response curve. Pressures below
+ * the threshold count as no pressure and the rest is stretched back to 0..1.
+ */
+export const applyPressureCurve = (pressure: number, curve: number, minPressure: number) => {
+  if (pressure <= minPressure) return 0;
+  const normalized = (pressure - minPressure) / (1 - minPressure);
+  return Math.min(1, Math.pow(normalized, curve));
+};
+
+/**
+ * Whether a touch looks like a resting palm rather than a finger: its contact
+ * is too large, or it landed while the pen was down or close to the screen.
+ */
+export const isPalmTouch = (
+  e: PointerEvent,
+  contactSize: number,
+  delay: number,
+  isPenDown: boolean,
+  lastPenTime: number
+) => {
+  if (e.pointerType !== 'touch') return false;
+  if (isPenDown || Date.now() - lastPenTime < delay) return true;
+  return Math.max(e.width, e.height) > contactSize;
+};
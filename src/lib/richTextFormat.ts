@@ -0,0 +1,197 @@
+/**
+ * Block and inline formats for rich-text shapes beyond what the browser's
+ * `execCommand` toggles offer directly: checklists (a `ul` tagged with
+ * `data-type="checklist"` whose items carry `data-checked`) and inline code.
+ * Everything runs against the current DOM selection inside the editable
+ * container, and DOM-only edits dispatch an `input` event so the shape syncs.
+ */
+export type BlockFormat = 'h1' | 'h2' | 'h3' | 'ul' | 'ol' | 'checklist';
+
+export interface FormatState {
+  block: BlockFormat | null;
+  code: boolean;
+}
+
+const CHECKLIST = 'checklist';
+const LISTS: BlockFormat[] = ['ul', 'ol', CHECKLIST];
+
+const SHORTCUTS: [RegExp, BlockFormat][] = [
+  [/^[-*] $/, 'ul'],
+  [/^\d+[.)] $/, 'ol'],
+  [/^\[[ x]?\] $/i, 'checklist'],
+  [/^# $/, 'h1'],
+  [/^## $/, 'h2'],
+  [/^### $/, 'h3'],
+];
+
+const INLINE_CODE_SHORTCUT = /`([^`\n]+)`$/;
+
+const BLOCKS = 'div, p, li, h1, h2, h3, blockquote, pre';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const notifyInput = (container: HTMLElement) =>
+  container.dispatchEvent(new Event('input', { bubbles: true }));
+
+const getCaretElement = (container: HTMLElement) => {
+  const node = window.getSelection()?.focusNode;
+  if (!node || !container.contains(node)) return null;
+  return node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as HTMLElement);
+};
+
+// Closest match at the caret that still lives inside the container
+const closestAtCaret = (container: HTMLElement, selector: string) => {
+  const found = getCaretElement(container)?.closest(selector) as HTMLElement | null;
+  return found && container.contains(found) && found !== container ? found : null;
+};
+
+const isChecklist = (list: Element | null) => list?.getAttribute('data-type') === CHECKLIST;
+
+export const getFormatState = (container: HTMLElement): FormatState => {
+  const heading = closestAtCaret(container, 'h1, h2, h3');
+  const list = closestAtCaret(container, 'ul, ol');
+  const block = list
+    ? (isChecklist(list) ? CHECKLIST : list.tagName.toLowerCase() as BlockFormat)
+    : (heading?.tagName.toLowerCase() as BlockFormat | undefined) ?? null;
+  return { block, code: !!closestAtCaret(container, 'code') };
+};
+
+const clearChecklist = (list: HTMLElement) => {
+  list.removeAttribute('data-type');
+  list.querySelectorAll(':scope > li').forEach(li => li.removeAttribute('data-checked'));
+};
+
+/**
+ * Toggles a block format on the lines under the caret, converting between
+ * list kinds when the caret is already inside a different one.
+ */
+export const toggleBlockFormat = (container: HTMLElement, format: BlockFormat) => {
+  const current = getFormatState(container).block;
+
+  if (format === 'h1' || format === 'h2' || format === 'h3') {
+    document.execCommand('formatBlock', false, current === format ? 'div' : format);
+    return;
+  }
+
+  if (format === 'checklist') {
+    if (current === CHECKLIST) {
+      document.execCommand('insertUnorderedList');
+      return;
+    }
+    if (current !== 'ul') document.execCommand('insertUnorderedList');
+    const list = closestAtCaret(container, 'ul');
+    if (list) {
+      list.setAttribute('data-type', CHECKLIST);
+      notifyInput(container);
+    }
+    return;
+  }
+
+  if (current === CHECKLIST && format === 'ul') {
+    const list = closestAtCaret(container, 'ul');
+    if (list) clearChecklist(list);
+    notifyInput(container);
+    return;
+  }
+
+  document.execCommand(format === 'ul' ? 'insertUnorderedList' : 'insertOrderedList');
+
+  // Switching list kinds can carry the checklist attributes over
+  const list = closestAtCaret(container, 'ul, ol');
+  if (list && format === 'ol' && list.hasAttribute('data-type')) {
+    clearChecklist(list);
+    notifyInput(container);
+  }
+};
+
+/**
+ * Wraps the selection in `<code>`, or unwraps the code span under the caret.
+ */
+export const toggleInlineCode = (container: HTMLElement) => {
+  const code = closestAtCaret(container, 'code');
+  if (code) {
+    code.replaceWith(...Array.from(code.childNodes));
+    notifyInput(container);
+    return;
+  }
+
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return;
+  document.execCommand('insertHTML', false, `<code>${escapeHtml(selection.toString())}</code>`);
+};
+
+export const isChecklistMarkerHit = (target: EventTarget | null, clientX: number) => {
+  const item = (target as HTMLElement | null)?.closest?.('li');
+  if (!item || !isChecklist(item.parentElement)) return null;
+  // The box is drawn in the item's left gutter, outside its content box
+  return clientX < item.getBoundingClientRect().left ? item as HTMLElement : null;
+};
+
+export const toggleChecklistItem = (item: HTMLElement) => {
+  item.setAttribute('data-checked', item.getAttribute('data-checked') === 'true' ? 'false' : 'true');
+};
+
+// Enter on a ticked item clones its attributes into the new, empty one
+export const resetNewChecklistItem = (container: HTMLElement) => {
+  const item = closestAtCaret(container, 'li');
+  if (item && isChecklist(item.parentElement) && !item.textContent) {
+    item.removeAttribute('data-checked');
+  }
+};
+
+/**
+ * Markdown-style shortcuts, checked right after a character is typed:
+ * "- ", "1. ", "[ ] ", "# " at the start of a line and `code` anywhere.
+ * Returns the edit that turns the typed text into formatting, if any.
+ */
+export const getMarkdownShortcut = (container: HTMLElement, typed: string): (() => void) | null => {
+  const selection = window.getSelection();
+  const caret = selection?.focusNode;
+  if (!selection || !selection.isCollapsed || !caret || caret.nodeType !== Node.TEXT_NODE || !container.contains(caret)) {
+    return null;
+  }
+  const offset = selection.focusOffset;
+
+  if (typed === '`') {
+    const before = (caret.textContent || '').slice(0, offset);
+    const match = INLINE_CODE_SHORTCUT.exec(before);
+    if (!match || closestAtCaret(container, 'code')) return null;
+
+    return () => {
+      selection.setBaseAndExtent(caret, offset - match[0].length, caret, offset);
+      // The zero-width space leaves the caret outside the code span
+      document.execCommand('insertHTML', false, `<code>${escapeHtml(match[1])}</code>\u200b`);
+    };
+  }
+
+  if (typed !== ' ') return null;
+
+  const block = closestAtCaret(container, BLOCKS) || container;
+  const prefix = document.createRange();
+  prefix.setStart(block, 0);
+  prefix.setEnd(caret, offset);
+  const text = prefix.toString().replace(/\u00a0/g, ' ');
+
+  const format = SHORTCUTS.find(([pattern]) => pattern.test(text))?.[1];
+  if (!format) return null;
+
+  // Typing "- " inside a list item is just text
+  const current = getFormatState(container).block;
+  if (current === format || (LISTS.includes(format) && current && LISTS.includes(current))) return null;
+
+  return () => {
+    selection.removeAllRanges();
+    selection.addRange(prefix);
+    document.execCommand('delete');
+    toggleBlockFormat(container, format);
+
+    if (format === CHECKLIST && /x/i.test(text)) {
+      const item = closestAtCaret(container, 'li');
+      if (item) {
+        toggleChecklistItem(item);
+        notifyInput(container);
+      }
+    }
+  };
+};
@@ -0,0 +1,140 @@
+import { toast } from 'sonner';
+import type { TLRecord } from 'tldraw';
+import i18n from '../i18n';
+
+/**
+ * Allowlist sanitizer for the `html` prop of rich-text shapes. Unknown tags
+ * are unwrapped (their text survives), tags that carry code or embedded
+ * documents are dropped with their content, and only formatting attributes
+ * are kept. Parsing happens in an inert document, so nothing runs meanwhile.
+ *
+ * Only dropped tags and scriptable attributes (event handlers, unsafe links
+ * and styles) count as removed content, also when they sat on an unwrapped
+ * tag like `<img onerror>`; stripping a stray `class` is silent.
+ */
+const ALLOWED_TAGS = new Set([
+  'A', 'B', 'BLOCKQUOTE', 'BR', 'CODE', 'DEL', 'DIV', 'EM', 'FONT', 'H1', 'H2', 'H3',
+  'I', 'LI', 'OL', 'P', 'PRE', 'S', 'SPAN', 'STRIKE', 'STRONG', 'SUB', 'SUP', 'U', 'UL',
+]);
+
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'IFRAME', 'FRAME', 'OBJECT', 'EMBED', 'TEMPLATE', 'NOSCRIPT',
+  'SVG', 'MATH', 'LINK', 'META', 'BASE', 'FORM', 'INPUT', 'TEXTAREA', 'SELECT', 'BUTTON',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['style'],
+  A: ['href', 'target', 'rel'],
+  FONT: ['color', 'face', 'size'],
+  UL: ['data-type'],
+  LI: ['data-checked'],
+};
+
+const SAFE_URL = /^(https?:|mailto:|tel:|#|\/(?!\/))/i;
+const UNSAFE_STYLE = /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:/i;
+
+const isAllowedAttribute = (element: Element, name: string, value: string) => {
+  const allowed = [...ALLOWED_ATTRIBUTES['*'], ...(ALLOWED_ATTRIBUTES[element.tagName] || [])];
+  if (!allowed.includes(name)) return false;
+  if (name === 'href') return SAFE_URL.test(value.trim());
+  if (name === 'style') return !UNSAFE_STYLE.test(value);
+  return true;
+};
+
+// Attributes that could run code or load something if they were kept
+const isActiveAttribute = (name: string) =>
+  name.startsWith('on') || name === 'href' || name === 'style' || name === 'src' || name === 'srcdoc' || name === 'xlink:href';
+
+// Unwrapping drops every attribute, the ones that could load or run something are reported
+const hasActiveAttributes = (element: Element) =>
+  Array.from(element.attributes).some(({ name }) => {
+    const attribute = name.toLowerCase();
+    return attribute !== 'style' && isActiveAttribute(attribute);
+  });
+
+// Returns how many pieces of active content were removed
+const sanitizeNode = (node: Node): number => {
+  let removed = 0;
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove();
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toUpperCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      removed++;
+      continue;
+    }
+
+    removed += sanitizeNode(element);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      if (hasActiveAttributes(element)) removed++;
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+
+    for (const { name, value } of Array.from(element.attributes)) {
+      const attribute = name.toLowerCase();
+      if (isAllowedAttribute(element, attribute, value)) continue;
+      element.removeAttribute(name);
+      if (isActiveAttribute(attribute)) removed++;
+    }
+    if (tag === 'A' && element.getAttribute('target') === '_blank') {
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+  return removed;
+};
+
+export const sanitizeHtmlWithReport = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const removed = sanitizeNode(doc.body);
+  return { html: doc.body.innerHTML, removed };
+};
+
+export const sanitizeRichTextHtml = (html: string) => html ? sanitizeHtmlWithReport(html).html : html;
+
+// Shapes whose html prop is rendered as markup
+const RICH_TEXT_SHAPE_TYPES = ['rich-text', 'note'];
+
+/**
+ * Sanitizes every text box and sticky note among the given records in place.
+ * Any shape whose markup changed gets the sanitized version, even when nothing
+ * counted as removed, so unknown tags never survive in storage.
+ */
+export const sanitizeShapeRecords = (records: Iterable<TLRecord>) => {
+  let changed = 0;
+  let removed = 0;
+  for (const record of records) {
+    if (record?.typeName !== 'shape' || !RICH_TEXT_SHAPE_TYPES.includes(record.type)) continue;
+    if (!('html' in record.props) || typeof record.props.html !== 'string') continue;
+    const result = sanitizeHtmlWithReport(record.props.html);
+    if (result.html === record.props.html) continue;
+    record.props.html = result.html;
+    changed++;
+    removed += result.removed;
+  }
+  return { changed, removed };
+};
+
+// Serialized page snapshot ({ store, schema, camera }) as stored in OPFS and Drive
+export const sanitizePageContent = (content: string) => {
+  let snapshot: { store?: Record<string, TLRecord> };
+  try {
+    snapshot = JSON.parse(content);
+  } catch {
+    return { content, removed: 0 };
+  }
+  const { changed, removed } = snapshot?.store ? sanitizeShapeRecords(Object.values(snapshot.store)) : { changed: 0, removed: 0 };
+  return { content: changed > 0 ? JSON.stringify(snapshot) : content, removed };
+};
+
+// One toast per burst, however many pages or shapes were cleaned
+export const warnSanitizedContent = () => {
+  toast.warning(i18n.t('sanitized_content_warning'), { id: 'sanitized-content' });
+};
@@ -0,0 +1,171 @@
+import { opfs } from './opfs';
+import { diskLog } from './debugLog';
+import { inkIndex } from './inkIndex';
+import type { PageSnapshot } from './snapshotMerge';
+import type { TLRecord, TLShape } from 'tldraw';
+import type { Page } from '../types';
+
+const INDEX_FILE = 'search-index.json';
+
+export interface SearchIndexEntry {
+  shapeIds: string[];
+  text: string;
+}
+
+interface IndexedPage {
+  stamp: string; // version + updatedAt of the page when it was indexed
+  entries: SearchIndexEntry[];
+  ink?: SearchIndexEntry[]; // Recognized handwriting, filled in asynchronously
+}
+
+export interface SearchResult {
+  pageId: string;
+  shapeIds: string[]; // Empty when the match is on the page name
+  source: 'name' | 'text' | 'ink';
+  snippet: string;
+}
+
+// Lowercase and strip diacritics so "canción" matches "cancion"
+export const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const htmlToText = (html: string) => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+const pageStamp = (page: Page) => `${page.version}:${page.updatedAt}`;
+
+const buildSnippet = (text: string, matchIndex: number, queryLength: number) => {
+  const RADIUS = 40;
+  const start = Math.max(0, matchIndex - RADIUS);
+  const end = Math.min(text.length, matchIndex + queryLength + RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+// Incremental full-text index over the rich-text shapes and recognized ink of every page.
+// Page names are not stored here, they are read straight from the file system store.
+export const searchIndex = {
+  pages: new Map<string, IndexedPage>(),
+  loadPromise: null as Promise<void> | null,
+  saveTimeout: undefined as ReturnType<typeof setTimeout> | undefined,
+  inkTimeouts: {} as Record<string, ReturnType<typeof setTimeout>>,
+
+  load() {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const content = await opfs.loadFile(INDEX_FILE);
+        if (!content) return;
+        try {
+          const data = JSON.parse(content);
+          Object.entries(data.pages || {}).forEach(([pageId, entry]) => {
+            this.pages.set(pageId, entry as IndexedPage);
+          });
+        } catch (e) {
+          console.error('Error parsing search index, rebuilding', e);
+        }
+      })();
+    }
+    return this.loadPromise;
+  },
+
+  scheduleSave() {
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = setTimeout(() => {
+      opfs.saveFile(INDEX_FILE, JSON.stringify({ pages: Object.fromEntries(this.pages) }));
+    }, 1000);
+  },
+
+  extractEntries(snapshot: PageSnapshot): SearchIndexEntry[] {
+    const records: TLRecord[] = Object.values(snapshot?.store || snapshot?.document?.store || {});
+    return records
+      .filter((r): r is TLShape => r?.typeName === 'shape' && (r.type === 'rich-text' || r.type === 'note'))
+      .map(r => ({ shapeIds: [r.id], text: htmlToText((r.props as { html?: string })?.html || '') }))
+      .filter(e => e.text.length > 0);
+  },
+
+  async indexPage(page: Page, snapshot: PageSnapshot) {
+    await this.load();
+    const ink = this.pages.get(page.id)?.ink;
+    this.pages.set(page.id, { stamp: pageStamp(page), entries: this.extractEntries(snapshot), ink });
+    this.scheduleSave();
+
+    // Handwriting recognition is expensive, wait until the user pauses writing
+    clearTimeout(this.inkTimeouts[page.id]);
+    this.inkTimeouts[page.id] = setTimeout(() => {
+      delete this.inkTimeouts[page.id];
+      this.indexInk(page.id, snapshot);
+    }, 3000);
+  },
+
+  async indexInk(pageId: string, snapshot: PageSnapshot) {
+    const groups = await inkIndex.recognizePage(pageId, snapshot);
+    const indexed = this.pages.get(pageId);
+    if (!groups || !indexed) return;
+    indexed.ink = groups;
+    this.scheduleSave();
+  },
+
+  // Reindex pages whose content changed since they were indexed (e.g. pulled from sync)
+  // and forget pages that no longer exist.
+  async ensureIndexed(pages: Record<string, Page>) {
+    await this.load();
+
+    let changed = false;
+    for (const pageId of Array.from(this.pages.keys())) {
+      if (!pages[pageId]) {
+        this.pages.delete(pageId);
+        changed = true;
+      }
+    }
+
+    const stale = Object.values(pages).filter(p => this.pages.get(p.id)?.stamp !== pageStamp(p));
+    for (const page of stale) {
+      const content = await opfs.loadFile(`page-${page.id}.tldr`);
+      let snapshot: PageSnapshot | null = null;
+      try {
+        snapshot = content ? JSON.parse(content) : null;
+      } catch (e) {
+        console.error(`Error indexing page ${page.id}`, e);
+      }
+      const ink = this.pages.get(page.id)?.ink;
+      this.pages.set(page.id, { stamp: pageStamp(page), entries: snapshot ? this.extractEntries(snapshot) : [], ink });
+      changed = true;
+
+      // Not awaited: recognition runs in the background and fills in `ink` when done
+      if (snapshot) this.indexInk(page.id, snapshot);
+    }
+
+    if (stale.length > 0) diskLog(`🔎 [Search] Indexed ${stale.length} page(s)`);
+    if (changed) this.scheduleSave();
+  },
+
+  search(query: string, pages: Record<string, Page>, limit = 50): SearchResult[] {
+    const q = normalizeText(query.trim());
+    if (!q) return [];
+
+    const results: SearchResult[] = [];
+
+    // Name matches first, they are usually what the user is looking for
+    Object.values(pages).forEach(page => {
+      if (normalizeText(page.name || '').includes(q)) {
+        results.push({ pageId: page.id, shapeIds: [], source: 'name', snippet: page.name });
+      }
+    });
+
+    this.pages.forEach((indexed, pageId) => {
+      if (!pages[pageId]) return;
+      const addMatches = (entries: SearchIndexEntry[], source: 'text' | 'ink') => entries.forEach(entry => {
+        const matchIndex = normalizeText(entry.text).indexOf(q);
+        if (matchIndex !== -1) {
+          results.push({ pageId, shapeIds: entry.shapeIds, source, snippet: buildSnippet(entry.text, matchIndex, q.length) });
+        }
+      });
+      addMatches(indexed.entries, 'text');
+      addMatches(indexed.ink || [], 'ink');
+    });
+
+    return results.slice(0, limit);
+  }
+};
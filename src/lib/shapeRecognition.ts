@@ -0,0 +1,147 @@
+import { Box, Vec } from 'tldraw';
+import type { VecModel } from 'tldraw';
+
+export type RecognizedShape =
+  | { kind: 'line' | 'arrow'; start: VecModel; end: VecModel }
+  | { kind: 'rectangle' | 'ellipse'; bounds: Box }
+  // Triangles keep the drawn corners, tldraw's geo triangle is always isosceles and apex-up
+  | { kind: 'triangle'; corners: VecModel[] };
+
+// Tolerances are relative to the stroke's size, so they work at any zoom
+const LINE_TOLERANCE = 0.06; // Max deviation from the chord, as a fraction of its length
+const CLOSED_GAP = 0.2; // Max gap between the ends of a closed stroke, as a fraction of its length
+const CORNER_TOLERANCE = 0.08; // Simplification tolerance, as a fraction of the bounds diagonal
+const ELLIPSE_TOLERANCE = 0.12; // Max average deviation from the fitted ellipse
+const MIN_SIZE = 8;
+
+const pathLength = (points: VecModel[]) =>
+  points.reduce((length, point, i) => i === 0 ? 0 : length + Vec.Dist(points[i - 1], point), 0);
+
+const maxDeviation = (points: VecModel[], a: VecModel, b: VecModel) =>
+  Math.max(...points.map(point => Vec.DistanceToLineSegment(a, b, point)));
+
+// Ramer–Douglas–Peucker, keeps the points where the stroke changes direction
+const simplify = (points: VecModel[], epsilon: number): VecModel[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  let index = 0;
+  let distance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = Vec.DistanceToLineSegment(first, last, points[i]);
+    if (d > distance) {
+      index = i;
+      distance = d;
+    }
+  }
+
+  if (distance <= epsilon) return [first, last];
+  return [...simplify(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplify(points.slice(index), epsilon)];
+};
+
+// Corners of a closed stroke. The loop is split at its farthest point from the start,
+// and vertices that only mark where the pen started (mid-edge) are dropped.
+const getCorners = (points: VecModel[], epsilon: number) => {
+  const start = points[0];
+  let farIndex = 0;
+  points.forEach((point, i) => {
+    if (Vec.Dist(start, point) > Vec.Dist(start, points[farIndex])) farIndex = i;
+  });
+  if (farIndex === 0) return [];
+
+  const corners = [
+    ...simplify(points.slice(0, farIndex + 1), epsilon).slice(0, -1),
+    ...simplify([...points.slice(farIndex), start], epsilon).slice(0, -1),
+  ];
+
+  for (let i = 0; i < corners.length && corners.length > 3;) {
+    const prev = corners[(i + corners.length - 1) % corners.length];
+    const next = corners[(i + 1) % corners.length];
+    if (Vec.DistanceToLineSegment(prev, next, corners[i]) <= epsilon) corners.splice(i, 1);
+    else i++;
+  }
+  return corners;
+};
+
+const isStraight = (points: VecModel[]) => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const chord = Vec.Dist(start, end);
+  return chord > 0 && maxDeviation(points, start, end) <= chord * LINE_TOLERANCE;
+};
+
+// A straight shaft ending in a head drawn in the same stroke (going back and forth at the tip)
+const recognizeArrow = (points: VecModel[]): RecognizedShape | null => {
+  const start = points[0];
+  // The pen passes the tip more than once, the shaft ends at the first pass
+  const reach = Math.max(...points.map(point => Vec.Dist(start, point)));
+  const tipIndex = points.findIndex(point => Vec.Dist(start, point) >= reach * 0.95);
+
+  const shaft = points.slice(0, tipIndex + 1);
+  const head = points.slice(tipIndex);
+  const shaftLength = Vec.Dist(start, points[tipIndex]);
+  const headLength = pathLength(head);
+
+  if (shaft.length < 2 || head.length < 3) return null;
+  if (maxDeviation(shaft, start, points[tipIndex]) > shaftLength * LINE_TOLERANCE * 1.5) return null;
+  if (headLength < shaftLength * 0.1 || headLength > shaftLength) return null;
+  if (head.some(point => Vec.Dist(point, points[tipIndex]) > shaftLength * 0.4)) return null;
+
+  return { kind: 'arrow', start, end: points[tipIndex] };
+};
+
+// Area enclosed by the stroke over the area of its bounds: ~1 for rectangles,
+// ~π/4 for ellipses and ~1/2 for triangles
+const fillRatio = (points: VecModel[], bounds: Box) => {
+  let area = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area / 2) / (bounds.w * bounds.h || 1);
+};
+
+const ellipseError = (points: VecModel[], bounds: Box) => {
+  const rx = bounds.w / 2;
+  const ry = bounds.h / 2;
+  if (rx === 0 || ry === 0) return Infinity;
+  const { x: cx, y: cy } = bounds.center;
+  const total = points.reduce((sum, { x, y }) => {
+    const r = Math.hypot((x - cx) / rx, (y - cy) / ry);
+    return sum + Math.abs(r - 1);
+  }, 0);
+  return total / points.length;
+};
+
+/**
+ * Guesses which clean shape a freehand stroke (page space) was meant to be.
+ * Open strokes can be lines or arrows, closed ones triangles, rectangles or
+ * ellipses. Returns null when nothing fits well enough.
+ */
+export const recognizeShape = (points: VecModel[]): RecognizedShape | null => {
+  if (points.length < 2) return null;
+
+  const bounds = Box.FromPoints(points);
+  const diagonal = Math.hypot(bounds.w, bounds.h);
+  if (diagonal < MIN_SIZE) return null;
+
+  const length = pathLength(points);
+  const start = points[0];
+  const end = points[points.length - 1];
+  const isClosed = Vec.Dist(start, end) <= length * CLOSED_GAP;
+
+  if (!isClosed) {
+    if (isStraight(points)) return { kind: 'line', start, end };
+    return recognizeArrow(points);
+  }
+
+  const ratio = fillRatio(points, bounds);
+  if (ratio > 0.85) return { kind: 'rectangle', bounds };
+  if (ratio > 0.68 && ellipseError(points, bounds) <= ELLIPSE_TOLERANCE) return { kind: 'ellipse', bounds };
+  if (ratio > 0.38 && ratio < 0.62) {
+    const corners = getCorners(points, diagonal * CORNER_TOLERANCE);
+    if (corners.length === 3) return { kind: 'triangle', corners };
+  }
+  return null;
+};
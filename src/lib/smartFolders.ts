@@ -0,0 +1,44 @@
+import type { Notebook, Folder, Page, SmartFolderQuery } from '../types';
+import { DAY_MS, isInTrash } from './trashUtils';
+
+export const WITHIN_DAYS_OPTIONS = [7, 30, 90, 365];
+
+export const DEFAULT_SMART_FOLDER_QUERY: SmartFolderQuery = {
+  tagIds: [],
+  tagMatch: 'any',
+  dateField: 'updatedAt',
+};
+
+// A query with neither tags nor a date range would list every page, so it lists none
+export const isEmptyQuery = (query: SmartFolderQuery) => query.tagIds.length === 0 && !query.withinDays;
+
+export const matchesQuery = (page: Page, query: SmartFolderQuery, now = Date.now()): boolean => {
+  if (isEmptyQuery(query)) return false;
+
+  if (query.tagIds.length > 0) {
+    const pageTags = page.tagIds || [];
+    const hasTag = (id: string) => pageTags.includes(id);
+    const tagsMatch = query.tagMatch === 'all' ? query.tagIds.every(hasTag) : query.tagIds.some(hasTag);
+    if (!tagsMatch) return false;
+  }
+
+  if (query.withinDays) {
+    const date = page[query.dateField] || 0;
+    if (date < now - query.withinDays * DAY_MS) return false;
+  }
+
+  return true;
+};
+
+// Matching pages across all notebooks, newest first by the date the query looks at
+export const getSmartFolderPages = (
+  query: SmartFolderQuery,
+  notebooks: Notebook[],
+  folders: Record<string, Folder>,
+  pages: Record<string, Page>
+): Page[] => {
+  const now = Date.now();
+  return Object.values(pages)
+    .filter(p => !isInTrash(p, notebooks, folders) && matchesQuery(p, query, now))
+    .sort((a, b) => (b[query.dateField] || 0) - (a[query.dateField] || 0));
+};
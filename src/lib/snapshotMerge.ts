@@ -0,0 +1,203 @@
+import { createTLSchemaFromUtils, defaultBindingUtils, defaultShapeUtils } from 'tldraw';
+import type { SerializedSchema, TLRecord, TLSchema } from 'tldraw';
+import { opfs } from './opfs';
+import { customShapeUtils } from '../shapes';
+import type { Page } from '../types';
+
+// Three-way merge of tldraw page snapshots ({ store, schema, camera }) at record level.
+// Records added or removed on one side are applied, records edited on one side take that
+// side's value and records edited on both sides are merged field by field. When the same
+// field changed differently on both sides, the deterministic winner (see pickLocalWinner)
+// keeps its value and, for shapes, the clash is reported so the user can override it.
+
+export interface ShapeConflict {
+  id: string;
+  local: TLRecord | null; // null when this device deleted the shape
+  remote: TLRecord | null; // null when the other device deleted the shape
+}
+
+// A page file as saved by the canvas, the camera and other view state ride along
+export interface PageSnapshot {
+  store?: Record<string, TLRecord>;
+  schema?: SerializedSchema;
+  document?: { store?: Record<string, TLRecord> }; // Full editor snapshots nest the records here
+  [key: string]: unknown;
+}
+
+export interface SnapshotMergeResult {
+  snapshot: PageSnapshot;
+  conflicts: ShapeConflict[];
+}
+
+const BASE_DIR = 'sync-base';
+
+export const syncBaseDir = (pageId: string) => `${BASE_DIR}/${pageId}`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+// Both devices must settle on the same winner without talking to each other,
+// so the tie-break depends only on the client IDs involved.
+export const pickLocalWinner = (localClientId: string, remoteClientId: string | undefined) =>
+  !remoteClientId || localClientId > remoteClientId;
+
+// Merges any JSON value. Objects (record props, meta...) are merged key by key,
+// everything else (including arrays like draw segments) is treated as a unit.
+export const mergeValue = <T>(base: T | undefined, local: T, remote: T, preferLocal: boolean): { value: T; conflicted: boolean } => {
+  if (isEqual(local, remote)) return { value: local, conflicted: false };
+  if (isEqual(base, local)) return { value: remote, conflicted: false };
+  if (isEqual(base, remote)) return { value: local, conflicted: false };
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const baseObject: Record<string, unknown> = isPlainObject(base) ? base : {};
+    const value: Record<string, unknown> = {};
+    let conflicted = false;
+    new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(key => {
+      const merged = mergeValue(baseObject[key], local[key], remote[key], preferLocal);
+      if (merged.value !== undefined) value[key] = merged.value;
+      conflicted = conflicted || merged.conflicted;
+    });
+    return { value: value as T, conflicted };
+  }
+
+  return { value: preferLocal ? local : remote, conflicted: true };
+};
+
+// Same shape utils as the canvas, custom ones replacing the tldraw shapes they extend
+let appSchema: TLSchema | null = null;
+const getAppSchema = () => {
+  if (!appSchema) {
+    const customTypes = new Set<string>(customShapeUtils.map(util => util.type));
+    appSchema = createTLSchemaFromUtils({
+      shapeUtils: [...defaultShapeUtils.filter(util => !customTypes.has(util.type)), ...customShapeUtils],
+      bindingUtils: defaultBindingUtils
+    });
+  }
+  return appSchema;
+};
+
+// Brings a snapshot up to the schema this app writes. Null when a newer app version wrote it.
+const migrateToAppSchema = (snapshot: PageSnapshot): PageSnapshot | null => {
+  if (!snapshot?.store || !snapshot.schema) return snapshot;
+  const schema = getAppSchema();
+  const result = schema.migrateStoreSnapshot({ store: snapshot.store, schema: snapshot.schema });
+  if (result.type === 'error') {
+    console.warn(`[Merge] Snapshot can't be migrated (${result.reason})`);
+    return null;
+  }
+  return { ...snapshot, store: result.value, schema: schema.serialize() };
+};
+
+const mergeMigratedSnapshots = (base: PageSnapshot | null, local: PageSnapshot, remote: PageSnapshot, preferLocal: boolean): SnapshotMergeResult => {
+  const baseStore = base?.store || {};
+  const localStore = local?.store || {};
+  const remoteStore = remote?.store || {};
+  const store: Record<string, TLRecord> = {};
+  const conflicts: ShapeConflict[] = [];
+
+  new Set([...Object.keys(localStore), ...Object.keys(remoteStore)]).forEach(id => {
+    const b = baseStore[id];
+    const l = localStore[id];
+    const r = remoteStore[id];
+
+    if (l && r) {
+      const merged = mergeValue(b, l, r, preferLocal);
+      store[id] = merged.value;
+      if (merged.conflicted && l.typeName === 'shape') conflicts.push({ id, local: l, remote: r });
+      return;
+    }
+
+    // Present on one side only: either added there or deleted on the other side
+    const kept = l || r;
+    if (!b) {
+      store[id] = kept;
+    } else if (!isEqual(b, kept)) {
+      // Edited on one side, deleted on the other: keep the edit so no work is lost
+      store[id] = kept;
+      if (kept.typeName === 'shape') conflicts.push({ id, local: l || null, remote: r || null });
+    }
+  });
+
+  return {
+    // Both sides share a schema by now, the camera is how this device views the page
+    snapshot: { ...remote, ...local, store },
+    conflicts
+  };
+};
+
+export const mergeSnapshots = (base: PageSnapshot | null, local: PageSnapshot, remote: PageSnapshot, preferLocal: boolean): SnapshotMergeResult => {
+  // Records are only comparable once both sides are read with the same schema
+  const migratedLocal = migrateToAppSchema(local);
+  const migratedRemote = migrateToAppSchema(remote);
+
+  // A side this version can't read is kept whole rather than mislabelled with our schema
+  if (!migratedRemote) return { snapshot: remote, conflicts: [] };
+  if (!migratedLocal) return { snapshot: local, conflicts: [] };
+
+  return mergeMigratedSnapshots(base && migrateToAppSchema(base), migratedLocal, migratedRemote, preferLocal);
+};
+
+// Builds the page as it would look if one side had won every conflict
+export const applyConflictSide = (snapshot: PageSnapshot, conflicts: ShapeConflict[], side: 'local' | 'remote'): PageSnapshot => {
+  const store = { ...(snapshot?.store || {}) };
+  conflicts.forEach(conflict => {
+    const record = conflict[side];
+    if (record) store[conflict.id] = record;
+    else delete store[conflict.id];
+  });
+  return { ...snapshot, store };
+};
+
+// The common ancestor of each page: what this device and the cloud last agreed on
+export const syncBase = {
+  async load(pageId: string): Promise<{ page: Page; snapshot: PageSnapshot } | null> {
+    const [meta, content] = await Promise.all([
+      opfs.loadFile(`${syncBaseDir(pageId)}/meta.json`),
+      opfs.loadFile(`${syncBaseDir(pageId)}/page.tldr`)
+    ]);
+    if (!meta || !content) return null;
+    try {
+      return { page: JSON.parse(meta), snapshot: JSON.parse(content) };
+    } catch (e) {
+      console.error(`Error reading sync base for ${pageId}`, e);
+      return null;
+    }
+  },
+
+  async save(pageId: string, page: Page, content: string) {
+    await opfs.saveFile(`${syncBaseDir(pageId)}/page.tldr`, content);
+    await opfs.saveFile(`${syncBaseDir(pageId)}/meta.json`, JSON.stringify(page));
+  },
+
+  // Last known remote metadata.json, reused while the change feed shows nobody else wrote it
+  async loadMetadata(): Promise<{ fileId: string; revision: string | null; data: unknown } | null> {
+    const content = await opfs.loadFile(`${BASE_DIR}/metadata.json`);
+    if (!content) return null;
+    try {
+      return JSON.parse(content);
+    } catch (e) {
+      console.error('Error reading cached remote metadata', e);
+      return null;
+    }
+  },
+
+  async saveMetadata(fileId: string, revision: string | null, data: unknown) {
+    await opfs.saveFile(`${BASE_DIR}/metadata.json`, JSON.stringify({ fileId, revision, data }));
+  },
+
+  async clearMetadata() {
+    await opfs.deleteFile(`${BASE_DIR}/metadata.json`);
+  }
+};
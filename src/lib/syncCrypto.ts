@@ -0,0 +1,140 @@
+// Client-side encryption of synced files. The key is derived from the user's
+// passphrase and never leaves the device, the storage provider only sees
+// AES-GCM envelopes.
+
+// Older builds kept the raw key here, it is moved to IndexedDB on first load
+const LEGACY_KEY_STORAGE = 'cuaderno-sync-key';
+const KEY_FLAG_STORAGE = 'cuaderno-sync-key-stored';
+const KEY_DB = 'cuaderno-sync-key';
+const KEY_DB_STORE = 'keys';
+const KEY_DB_ENTRY = 'sync';
+const ITERATIONS = 310000;
+const CHECK_TEXT = 'cuaderno-key-check';
+const ENVELOPE_PREFIX = '{"cuadernoEncrypted":1,';
+
+// Stored in plain text next to the synced files so new devices can verify a passphrase
+export const KEY_FILE = 'encryption.json';
+
+export interface KeyFile {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: string; // CHECK_TEXT encrypted with the key
+}
+
+export type EncryptionErrorCode = 'locked' | 'wrong-passphrase';
+
+export const encryptionError = (code: EncryptionErrorCode, message: string) =>
+  Object.assign(new Error(message), { code });
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, spreading a whole page into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Runs one request against the key database and resolves once its transaction is done
+const withKeyStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open(KEY_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(KEY_DB_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const tx = db.transaction(KEY_DB_STORE, mode);
+      const request = run(tx.objectStore(KEY_DB_STORE));
+      tx.oncomplete = () => {
+        db.close();
+        resolve(request.result);
+      };
+      tx.onerror = tx.onabort = () => {
+        db.close();
+        reject(tx.error);
+      };
+    };
+  });
+
+export const isEncrypted = (content: string) => content.startsWith(ENVELOPE_PREFIX);
+
+export const syncCrypto = {
+  async deriveKey(passphrase: string, salt: string, iterations = ITERATIONS): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  },
+
+  async encrypt(key: CryptoKey, text: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return `${ENVELOPE_PREFIX}"iv":"${toBase64(iv)}","data":"${toBase64(new Uint8Array(data))}"}`;
+  },
+
+  // Throws if the key is wrong or the file was tampered with
+  async decrypt(key: CryptoKey, envelope: string): Promise<string> {
+    const { iv, data } = JSON.parse(envelope);
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+    return new TextDecoder().decode(plain);
+  },
+
+  // Salt is kept when changing the passphrase, so an interrupted re-encryption can be resumed
+  async createKeyFile(passphrase: string, salt?: string): Promise<{ key: CryptoKey; keyFile: KeyFile }> {
+    const keySalt = salt || toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await this.deriveKey(passphrase, keySalt);
+    const check = await this.encrypt(key, CHECK_TEXT);
+    return { key, keyFile: { version: 1, salt: keySalt, iterations: ITERATIONS, check } };
+  },
+
+  // Resolves to null when the passphrase doesn't match the key file
+  async unlock(passphrase: string, keyFile: KeyFile): Promise<CryptoKey | null> {
+    const key = await this.deriveKey(passphrase, keyFile.salt, keyFile.iterations);
+    try {
+      return await this.decrypt(key, keyFile.check) === CHECK_TEXT ? key : null;
+    } catch {
+      return null;
+    }
+  },
+
+  // The derived key is remembered on this device so the passphrase is asked only once.
+  // It is stored as a non-extractable CryptoKey, so scripts can use it here but never read it out.
+  async loadKey(): Promise<CryptoKey | null> {
+    try {
+      const legacy = localStorage.getItem(LEGACY_KEY_STORAGE);
+      if (legacy) {
+        const key = await crypto.subtle.importKey('raw', fromBase64(legacy), 'AES-GCM', false, ['encrypt', 'decrypt']);
+        await this.saveKey(key);
+        localStorage.removeItem(LEGACY_KEY_STORAGE);
+        return key;
+      }
+      if (!localStorage.getItem(KEY_FLAG_STORAGE)) return null;
+      return await withKeyStore<CryptoKey | undefined>('readonly', store => store.get(KEY_DB_ENTRY)) || null;
+    } catch (e) {
+      console.error('Error loading sync key', e);
+      return null;
+    }
+  },
+
+  async saveKey(key: CryptoKey) {
+    await withKeyStore('readwrite', store => store.put(key, KEY_DB_ENTRY));
+    localStorage.setItem(KEY_FLAG_STORAGE, '1');
+  },
+
+  hasKey() {
+    return !!localStorage.getItem(KEY_FLAG_STORAGE) || !!localStorage.getItem(LEGACY_KEY_STORAGE);
+  },
+
+  clearKey() {
+    localStorage.removeItem(KEY_FLAG_STORAGE);
+    localStorage.removeItem(LEGACY_KEY_STORAGE);
+    withKeyStore('readwrite', store => store.delete(KEY_DB_ENTRY)).catch(e => console.error('Error clearing sync key', e));
+  }
+};
@@ -0,0 +1,28 @@
+import { syncCrypto, isEncrypted, encryptionError } from '../syncCrypto';
+import type { SyncProvider } from './types';
+
+// Wraps a provider so file contents are encrypted on upload and decrypted on
+// download. Without a key, plain files pass through and encrypted ones fail
+// with a 'locked' error so sync never mixes plain and encrypted data.
+export const withEncryption = (provider: SyncProvider, key: CryptoKey | null): SyncProvider => ({
+  ...provider,
+
+  async get(fileId) {
+    const content = await provider.get(fileId);
+    if (!isEncrypted(content)) return content;
+    if (!key) throw encryptionError('locked', 'Synced notebooks are encrypted. Enter the passphrase to unlock them.');
+    try {
+      return await syncCrypto.decrypt(key, content);
+    } catch {
+      throw encryptionError('wrong-passphrase', 'Could not decrypt synced notebooks. The passphrase was changed on another device.');
+    }
+  },
+
+  async create(name, content, parentId) {
+    return provider.create(name, key ? await syncCrypto.encrypt(key, content) : content, parentId);
+  },
+
+  async update(fileId, content) {
+    return provider.update(fileId, key ? await syncCrypto.encrypt(key, content) : content);
+  }
+});
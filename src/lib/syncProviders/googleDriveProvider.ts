@@ -0,0 +1,66 @@
+import { googleDrive } from '../googleDrive';
+import type { SyncProvider } from './types';
+
+const ROOT_FOLDER = 'Cuaderno';
+
+export const googleDriveProvider: SyncProvider = {
+  id: 'google-drive',
+
+  isReady() {
+    return typeof gapi !== 'undefined' && !!gapi.client?.drive;
+  },
+
+  async ensureRoot(cachedRootId) {
+    if (cachedRootId) {
+      try {
+        await googleDrive.getFileMetadata(cachedRootId);
+        return cachedRootId;
+      } catch (e) {
+        console.warn('[GoogleDrive] Stale Root Folder ID detected (404/Trashed). Resetting...', e);
+      }
+    }
+    const existing = await googleDrive.findFileByName(ROOT_FOLDER);
+    return existing ? existing.id : await googleDrive.createFolder(ROOT_FOLDER);
+  },
+
+  async list(parentId) {
+    return googleDrive.listFiles(parentId);
+  },
+
+  async get(fileId) {
+    return googleDrive.downloadFile(fileId);
+  },
+
+  async create(name, content, parentId) {
+    return googleDrive.createFile(name, content, 'application/json', parentId);
+  },
+
+  async update(fileId, content) {
+    return googleDrive.updateFile(fileId, content);
+  },
+
+  async delete(fileId) {
+    await googleDrive.deleteFile(fileId);
+  },
+
+  async findByName(name, parentId) {
+    const file = await googleDrive.findFileByName(name, parentId);
+    return file ? { id: file.id, name: file.name } : null;
+  },
+
+  async getChangeCursor() {
+    return googleDrive.getStartPageToken();
+  },
+
+  async listChanges(cursor, parentId) {
+    const { changes, newStartPageToken } = await googleDrive.listChanges(cursor);
+    const files = changes
+      .filter(change => change.removed || change.file?.parents?.includes(parentId))
+      .map(change => ({
+        id: change.fileId,
+        name: change.file?.name || '',
+        revision: change.removed || !change.file || change.file.trashed ? undefined : String(change.file.version)
+      }));
+    return { files, cursor: newStartPageToken };
+  }
+};
@@ -0,0 +1,15 @@
+import { googleDriveProvider } from './googleDriveProvider';
+import { webdavProvider } from './webdavProvider';
+import { localProvider } from './localProvider';
+import type { SyncProvider, SyncProviderId } from './types';
+
+export type { SyncProvider, SyncProviderId, RemoteFile, RemoteChanges } from './types';
+export type { WebDavConfig } from './webdavProvider';
+export { webdavProvider };
+export { withEncryption } from './encryptedProvider';
+
+export const syncProviders: Record<SyncProviderId, SyncProvider> = {
+  'google-drive': googleDriveProvider,
+  webdav: webdavProvider,
+  local: localProvider
+};
@@ -0,0 +1,49 @@
+import { opfs } from '../opfs';
+import type { SyncProvider } from './types';
+
+// Offline stand-in for a cloud drive, backed by a folder in OPFS. Every tab of
+// the app shares it, so the sync algorithm can be exercised without a network.
+const ROOT_FOLDER = 'mock-remote';
+
+export const localProvider: SyncProvider = {
+  id: 'local',
+
+  isReady() {
+    return true;
+  },
+
+  async ensureRoot() {
+    return ROOT_FOLDER;
+  },
+
+  async list(parentId) {
+    const names = await opfs.listFiles(parentId);
+    return names.map(name => ({ id: `${parentId}/${name}`, name }));
+  },
+
+  async get(fileId) {
+    const content = await opfs.loadFile(fileId);
+    if (content === null) throw Object.assign(new Error(`File not found: ${fileId}`), { status: 404 });
+    return content;
+  },
+
+  async create(name, content, parentId) {
+    const id = `${parentId}/${name}`;
+    await opfs.saveFile(id, content);
+    return id;
+  },
+
+  async update(fileId, content) {
+    await opfs.saveFile(fileId, content);
+    return null;
+  },
+
+  async delete(fileId) {
+    await opfs.deleteFile(fileId);
+  },
+
+  async findByName(name, parentId) {
+    const names = await opfs.listFiles(parentId);
+    return names.includes(name) ? { id: `${parentId}/${name}`, name } : null;
+  }
+};
@@ -0,0 +1,32 @@
+export type SyncProviderId = 'google-drive' | 'webdav' | 'local';
+
+export interface RemoteFile {
+  id: string; // Provider specific: Drive file ID, WebDAV path...
+  name: string;
+  revision?: string; // Changes on every write, when the provider reports it
+}
+
+export interface RemoteChanges {
+  files: RemoteFile[]; // Changed, created or removed since the cursor
+  cursor: string; // Pass it to the next listChanges call
+}
+
+// Storage backend used by the sync algorithm. All Cuaderno files live flat
+// inside a single root folder owned by the provider.
+export interface SyncProvider {
+  id: SyncProviderId;
+  // False while the provider client is still loading (e.g. the Drive API)
+  isReady(): boolean;
+  // Returns the root folder ID, validating the cached one and creating the folder if needed
+  ensureRoot(cachedRootId: string | null): Promise<string>;
+  list(parentId: string): Promise<RemoteFile[]>;
+  get(fileId: string): Promise<string>;
+  create(name: string, content: string, parentId: string): Promise<string>;
+  // Resolves to the new revision of the file, or null if the provider doesn't track them
+  update(fileId: string, content: string): Promise<string | null>;
+  delete(fileId: string): Promise<void>;
+  findByName(name: string, parentId: string): Promise<RemoteFile | null>;
+  // Optional change feed. Providers without it get a full metadata diff on every sync.
+  getChangeCursor?(): Promise<string>;
+  listChanges?(cursor: string, parentId: string): Promise<RemoteChanges>;
+}
@@ -0,0 +1,104 @@
+import type { SyncProvider, RemoteFile } from './types';
+
+// Self-hosted storage (Nextcloud, ownCloud, most NAS). File IDs are absolute URLs.
+// The server must allow CORS requests from the app origin.
+
+export interface WebDavConfig {
+  url: string;
+  username: string;
+  password: string;
+}
+
+const ROOT_FOLDER = 'Cuaderno';
+
+let config: WebDavConfig | null = null;
+
+const withSlash = (url: string) => url.endsWith('/') ? url : `${url}/`;
+
+const authHeader = (): Record<string, string> => {
+  if (!config?.username) return {};
+  const bytes = new TextEncoder().encode(`${config.username}:${config.password}`);
+  return { Authorization: `Basic ${btoa(String.fromCharCode(...bytes))}` };
+};
+
+const request = async (method: string, url: string, body?: string, headers: Record<string, string> = {}) => {
+  const response = await fetch(url, { method, body, headers: { ...authHeader(), ...headers } });
+  if (!response.ok) {
+    throw Object.assign(new Error(`WebDAV ${method} failed (${response.status})`), { status: response.status });
+  }
+  return response;
+};
+
+const exists = async (url: string) => {
+  try {
+    await request('PROPFIND', url, undefined, { Depth: '0' });
+    return true;
+  } catch (e) {
+    if ((e as { status?: number }).status === 404) return false;
+    throw e;
+  }
+};
+
+export const webdavProvider: SyncProvider & { configure: (next: WebDavConfig | null) => void } = {
+  id: 'webdav',
+
+  configure(next) {
+    config = next;
+  },
+
+  isReady() {
+    return !!config?.url;
+  },
+
+  async ensureRoot(cachedRootId) {
+    if (!config) throw new Error('WebDAV is not configured');
+    if (cachedRootId && await exists(cachedRootId)) return cachedRootId;
+
+    const rootUrl = withSlash(new URL(ROOT_FOLDER, withSlash(config.url)).href);
+    if (!await exists(rootUrl)) {
+      await request('MKCOL', rootUrl);
+    }
+    return rootUrl;
+  },
+
+  async list(parentId) {
+    const response = await request('PROPFIND', parentId, undefined, { Depth: '1' });
+    const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    const files: RemoteFile[] = [];
+
+    Array.from(xml.getElementsByTagNameNS('DAV:', 'response')).forEach(entry => {
+      const href = entry.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent;
+      if (!href) return;
+      const id = new URL(href, parentId).href;
+      if (withSlash(id) === withSlash(parentId)) return; // The folder itself
+      const name = decodeURIComponent(id.replace(/\/$/, '').split('/').pop() || '');
+      files.push({ id, name });
+    });
+    return files;
+  },
+
+  async get(fileId) {
+    const response = await request('GET', fileId);
+    return response.text();
+  },
+
+  async create(name, content, parentId) {
+    const url = new URL(encodeURIComponent(name), withSlash(parentId)).href;
+    await request('PUT', url, content, { 'Content-Type': 'application/json' });
+    return url;
+  },
+
+  async update(fileId, content) {
+    const response = await request('PUT', fileId, content, { 'Content-Type': 'application/json' });
+    return response.headers.get('ETag');
+  },
+
+  async delete(fileId) {
+    await request('DELETE', fileId);
+  },
+
+  async findByName(name, parentId) {
+    const url = new URL(encodeURIComponent(name), withSlash(parentId)).href;
+    return await exists(url) ? { id: url, name } : null;
+  }
+};
@@ -0,0 +1,27 @@
+import type { Notebook, Folder, Page } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A node is in the Trash when it, or any of its ancestors, has been trashed
+export const isInTrash = (
+  node: Notebook | Folder | Page | undefined,
+  notebooks: Notebook[],
+  folders: Record<string, Folder>
+): boolean => {
+  if (!node) return false;
+  if (node.trashedAt) return true;
+  if (!('notebookId' in node)) return false;
+
+  let parentId: string | null = node.parentId;
+  while (parentId && parentId !== node.notebookId) {
+    const folder: Folder | undefined = folders[parentId];
+    if (!folder) break;
+    if (folder.trashedAt) return true;
+    parentId = folder.parentId;
+  }
+  return !!notebooks.find(n => n.id === node.notebookId)?.trashedAt;
+};
+
+// Pages that are visible in the file tree (not trashed themselves or through an ancestor)
+export const getLivePages = (notebooks: Notebook[], folders: Record<string, Folder>, pages: Record<string, Page>) =>
+  Object.fromEntries(Object.entries(pages).filter(([, p]) => !isInTrash(p, notebooks, folders)));
@@ -3,7 +3,19 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import './i18n'
 import App from './App.tsx'
-import { DefaultSizeStyle, STROKE_SIZES, FONT_SIZES } from 'tldraw'
+import { DefaultColorStyle, DefaultSizeStyle, STROKE_SIZES, FONT_SIZES } from 'tldraw'
+import { isCustomColor } from './lib/customColors'
+
+// Helper to wrap validator
+const wrapValidator = (obj: { validate?: (value: unknown) => unknown } | undefined, accepts: (value: unknown) => boolean) => {
+  if (obj && obj.validate) {
+    const original = obj.validate.bind(obj);
+    obj.validate = (value: unknown) => {
+      if (accepts(value)) return value;
+      return original(value);
+    };
+  }
+};
 
 // Monkey-patch Tldraw constants to support extra sizes
 if (DefaultSizeStyle) {
@@ -12,22 +24,18 @@ if (DefaultSizeStyle) {
     dss.values.push('xs', 'xxl');
   }
 
-  // Helper to wrap validator
-  const wrapValidator = (obj: any) => {
-    if (obj && obj.validate) {
-      const original = obj.validate.bind(obj);
-      obj.validate = (value: any) => {
-        if (value === 'xs' || value === 'xxl') return value;
-        return original(value);
-      };
-    }
-  };
-
-  wrapValidator(dss);
-  wrapValidator(dss.type);
+  const isExtraSize = (value: unknown) => value === 'xs' || value === 'xxl';
+  wrapValidator(dss, isExtraSize);
+  wrapValidator(dss.type, isExtraSize);
 
   // If it's an enum style, it might have internal validators
-  if (dss.props && dss.props.type) wrapValidator(dss.props.type);
+  if (dss.props && dss.props.type) wrapValidator(dss.props.type, isExtraSize);
+}
+
+// Custom palette colors travel as light-dark() values next to the named ones
+if (DefaultColorStyle) {
+  wrapValidator(DefaultColorStyle, isCustomColor);
+  wrapValidator(DefaultColorStyle.type, isCustomColor);
 }
 if (STROKE_SIZES) {
   (STROKE_SIZES as any).xs = 1.2;
@@ -1,5 +1,6 @@
 import { ArrowShapeUtil, arrowShapeProps } from 'tldraw'
-import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../styles/customStyles'
+import type { TLArrowShape, SvgExportContext } from 'tldraw'
+import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle, getStrokeOpacity } from '../styles/customStyles'
 
 export class CustomArrowShapeUtil extends ArrowShapeUtil {
   static override type = 'arrow' as const
@@ -19,4 +20,10 @@ export class CustomArrowShapeUtil extends ArrowShapeUtil {
       [StrokeOpacityStyle.id]: '1',
     }
   }
+
+  // Labels and heads share the stroke opacity
+  override toSvg(shape: TLArrowShape, ctx: SvgExportContext) {
+    const strokeOpacity = parseFloat(getStrokeOpacity(shape.props))
+    return <g opacity={strokeOpacity}>{super.toSvg(shape, ctx)}</g>
+  }
 }
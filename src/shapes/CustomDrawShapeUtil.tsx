@@ -1,5 +1,6 @@
 import { DrawShapeUtil, drawShapeProps } from 'tldraw'
-import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../styles/customStyles'
+import type { TLDrawShape, SvgExportContext } from 'tldraw'
+import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle, getStrokeOpacity } from '../styles/customStyles'
 
 export class CustomDrawShapeUtil extends DrawShapeUtil {
   static override type = 'draw' as const
@@ -19,4 +20,10 @@ export class CustomDrawShapeUtil extends DrawShapeUtil {
       [StrokeOpacityStyle.id]: '1',
     }
   }
+
+  // The base util knows nothing about our opacity style, exports (PDF, copy as SVG) need it
+  override toSvg(shape: TLDrawShape, ctx: SvgExportContext) {
+    const strokeOpacity = parseFloat(getStrokeOpacity(shape.props))
+    return <g opacity={strokeOpacity}>{super.toSvg(shape, ctx)}</g>
+  }
 }
@@ -10,7 +10,7 @@ import {
 import type {
   TLGeoShape,
 } from 'tldraw'
-import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../styles/customStyles'
+import { FillColorStyle, FillOpacityStyle, getStrokeOpacity } from '../styles/customStyles'
 import { getGeoShapePath } from './geoPath'
 import { RichTextLabel } from 'tldraw'
 import type { CustomGeoShapeUtil } from './CustomGeoShapeUtil'
@@ -57,7 +57,7 @@ export const GeoShapeComponent = track(({ shape, util }: { shape: TLGeoShape; ut
 
   const fillColor = (props as any)[FillColorStyle.id] || 'black'
   const fillOpacity = parseFloat((props as any)[FillOpacityStyle.id] || '1')
-  const strokeOpacity = parseFloat((props as any)[StrokeOpacityStyle.id] || '1')
+  const strokeOpacity = parseFloat(getStrokeOpacity(props))
 
   const isSelected = useValue(
     'isGeoSelected',
@@ -8,8 +8,9 @@ import {
 } from '@tldraw/editor'
 import type {
   TLGeoShape,
+  SvgExportContext,
 } from 'tldraw'
-import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../styles/customStyles'
+import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle, getStrokeOpacity } from '../styles/customStyles'
 import { getGeoShapePath } from './geoPath'
 import { GeoShapeComponent, ShapeFill } from './CustomGeoShapeComponent'
 
@@ -44,13 +45,13 @@ export class CustomGeoShapeUtil extends GeoShapeUtil {
     return <GeoShapeComponent shape={shape} util={this} />
   }
 
-  override toSvg(shape: TLGeoShape) {
-    const theme = getDefaultColorTheme({ isDarkMode: this.editor.user.getIsDarkMode() })
+  override toSvg(shape: TLGeoShape, ctx: SvgExportContext) {
+    const theme = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode })
     const { color, fill, dash, size, scale } = shape.props
 
     const fillColor = (shape.props as any)[FillColorStyle.id] || 'black'
     const fillOpacity = parseFloat((shape.props as any)[FillOpacityStyle.id] || '1')
-    const strokeOpacity = parseFloat((shape.props as any)[StrokeOpacityStyle.id] || '1')
+    const strokeOpacity = parseFloat(getStrokeOpacity(shape.props))
 
     const path = getGeoShapePath(shape)
     const sw = STROKE_SIZES[size] * scale
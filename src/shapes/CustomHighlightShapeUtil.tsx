@@ -0,0 +1,60 @@
+import { Group2d, HighlightShapeUtil, Polygon2d, SVGContainer, Vec, getDefaultColorTheme } from 'tldraw'
+import type { TLHighlightShape, SvgExportContext } from 'tldraw'
+import { getChiselHulls, getChiselPath } from './highlightPath'
+
+// Opaque enough to read as a marker, light enough that page template lines show through
+const HIGHLIGHT_OPACITY = 0.85
+
+const renderChiselStroke = (shape: TLHighlightShape, isDarkMode: boolean) => {
+  const theme = getDefaultColorTheme({ isDarkMode })
+  const color = theme[shape.props.color]?.highlightSrgb || shape.props.color
+  return <path d={getChiselPath(getChiselHulls(shape))} fill={color} opacity={HIGHLIGHT_OPACITY} />
+}
+
+/**
+ * Highlighter with a chisel tip. It only draws in the background layer, so it
+ * stays under ink whatever the shape order; the blend mode is set in index.css
+ * (multiply on light pages, screen on dark ones).
+ */
+export class CustomHighlightShapeUtil extends HighlightShapeUtil {
+  static override type = 'highlight' as const
+
+  // The base util is typed to a single polygon, the editor accepts any geometry
+  override getGeometry(shape: TLHighlightShape) {
+    return new Group2d({
+      children: getChiselHulls(shape).map(hull => new Polygon2d({ points: hull.map(p => Vec.From(p)), isFilled: true }))
+    }) as unknown as Polygon2d
+  }
+
+  override component() {
+    return <SVGContainer />
+  }
+
+  override backgroundComponent(shape: TLHighlightShape) {
+    return (
+      <SVGContainer>
+        {renderChiselStroke(shape, this.editor.user.getIsDarkMode())}
+      </SVGContainer>
+    )
+  }
+
+  // The outline of overlapping hulls is busy, the centre line is enough to show the selection
+  override indicator(shape: TLHighlightShape) {
+    const points = shape.props.segments.flatMap(s => s.points)
+    if (points.length < 2) return <path d={getChiselPath(getChiselHulls(shape))} />
+    return <path d={`M${points.map(p => `${p.x},${p.y}`).join('L')}`} />
+  }
+
+  override toSvg() {
+    return <g />
+  }
+
+  override toBackgroundSvg(shape: TLHighlightShape, ctx?: SvgExportContext) {
+    const isDarkMode = ctx?.isDarkMode ?? false
+    return (
+      <g style={{ mixBlendMode: isDarkMode ? 'screen' : 'multiply' }}>
+        {renderChiselStroke(shape, isDarkMode)}
+      </g>
+    )
+  }
+}
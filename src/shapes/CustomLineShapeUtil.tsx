@@ -1,5 +1,6 @@
 import { LineShapeUtil, lineShapeProps } from 'tldraw'
-import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle } from '../styles/customStyles'
+import type { TLLineShape } from 'tldraw'
+import { FillColorStyle, FillOpacityStyle, StrokeOpacityStyle, getStrokeOpacity } from '../styles/customStyles'
 
 export class CustomLineShapeUtil extends LineShapeUtil {
   static override type = 'line' as const
@@ -19,4 +20,9 @@ export class CustomLineShapeUtil extends LineShapeUtil {
       [StrokeOpacityStyle.id]: '1',
     }
   }
+
+  override toSvg(shape: TLLineShape) {
+    const strokeOpacity = parseFloat(getStrokeOpacity(shape.props))
+    return <g opacity={strokeOpacity}>{super.toSvg(shape)}</g>
+  }
 }
@@ -0,0 +1,134 @@
+import * as React from 'react'
+import { HTMLContainer, getDefaultColorTheme, stopEventPropagation, useValue } from 'tldraw'
+import { sanitizeRichTextHtml } from '../lib/sanitizeHtml'
+import { RICH_TEXT_CSS, applyRichTextInput, pasteSanitizedHtml, toggleChecklistAtPointer } from './richTextContent'
+import { NOTE_FONT_FAMILY, NOTE_FONT_SIZE, NOTE_PADDING, NOTE_SIZE, getNoteFill } from './noteShape'
+import type { CustomNoteShape } from './noteShape'
+import type { CustomNoteShapeUtil } from './CustomNoteShapeUtil'
+
+const ALIGNS: Record<string, React.CSSProperties['textAlign']> = {
+  start: 'left',
+  middle: 'center',
+  end: 'right',
+  justify: 'justify'
+}
+
+/**
+ * Sticky note: a colored square with the same rich text as text boxes. The
+ * text is centred vertically and the note grows downwards when it overflows.
+ */
+export const CustomNoteShapeComponent = ({ shape, util }: { shape: CustomNoteShape; util: CustomNoteShapeUtil }) => {
+  const editor = util.editor
+  const isEditing = useValue('isEditing', () => editor.getEditingShapeId() === shape.id, [editor, shape.id])
+  const isDarkMode = useValue('isDarkMode', () => editor.user.getIsDarkMode(), [editor])
+  const theme = getDefaultColorTheme({ isDarkMode })
+  const textRef = React.useRef<HTMLDivElement>(null)
+
+  // Focus with the caret after the existing text
+  React.useEffect(() => {
+    const el = textRef.current
+    if (!isEditing || !el) return
+    el.focus()
+    const range = document.createRange()
+    range.selectNodeContents(el)
+    range.collapse(false)
+    window.getSelection()?.removeAllRanges()
+    window.getSelection()?.addRange(range)
+    return () => window.getSelection()?.removeAllRanges()
+  }, [isEditing])
+
+  React.useEffect(() => {
+    if (!textRef.current) return
+    if (textRef.current.innerHTML !== shape.props.html) {
+      textRef.current.innerHTML = sanitizeRichTextHtml(shape.props.html)
+    }
+  }, [shape.props.html])
+
+  // Auto-grow: measured unscaled, growY is in note units like tldraw's own notes
+  React.useEffect(() => {
+    const el = textRef.current
+    if (!el) return
+
+    const observer = new ResizeObserver(() => {
+      const growY = Math.max(0, Math.ceil(el.scrollHeight + NOTE_PADDING * 2 - NOTE_SIZE))
+      if (Math.abs(growY - shape.props.growY) > 1) {
+        editor.updateShape<CustomNoteShape>({ id: shape.id, type: 'note', props: { growY } })
+      }
+    })
+
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [editor, shape.id, shape.props.growY])
+
+  const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
+    const el = e.currentTarget
+    applyRichTextInput(editor, el, e.nativeEvent as InputEvent)
+    editor.updateShape<CustomNoteShape>({ id: shape.id, type: 'note', props: { html: el.innerHTML } })
+  }
+
+  return (
+    <HTMLContainer id={shape.id}>
+      <div
+        style={{
+          width: NOTE_SIZE,
+          height: NOTE_SIZE + shape.props.growY,
+          padding: NOTE_PADDING,
+          boxSizing: 'border-box',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          backgroundColor: getNoteFill(theme, shape.props.color),
+          borderRadius: 2,
+          boxShadow: isDarkMode
+            ? '0 1px 2px rgba(0, 0, 0, 0.5), 0 8px 16px -6px rgba(0, 0, 0, 0.6)'
+            : '0 1px 2px rgba(0, 0, 0, 0.15), 0 8px 16px -6px rgba(0, 0, 0, 0.3)',
+          transformOrigin: 'top left',
+          transform: `scale(${shape.props.scale})`,
+          pointerEvents: 'all'
+        }}
+      >
+        <div
+          ref={textRef}
+          id={`field_${shape.id}`}
+          className="rich-text-container"
+          contentEditable={isEditing}
+          suppressContentEditableWarning
+          style={{
+            minHeight: '1.25em',
+            fontFamily: NOTE_FONT_FAMILY,
+            fontSize: NOTE_FONT_SIZE,
+            lineHeight: 1.25,
+            color: theme.text,
+            caretColor: theme.text,
+            textAlign: ALIGNS[shape.props.align] || 'left',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            outline: 'none',
+            userSelect: isEditing ? 'text' : 'none',
+            WebkitUserSelect: isEditing ? 'text' : 'none',
+            cursor: isEditing ? 'text' : 'move'
+          }}
+          onPointerDown={(e) => {
+            if (textRef.current && toggleChecklistAtPointer(editor, e)) {
+              editor.updateShape<CustomNoteShape>({ id: shape.id, type: 'note', props: { html: textRef.current.innerHTML } })
+              return
+            }
+            if (isEditing || (e.target as HTMLElement).closest('a')) stopEventPropagation(e)
+          }}
+          onClick={(e) => {
+            if (isEditing) return
+            const href = (e.target as HTMLElement).closest('a')?.getAttribute('href')
+            if (href) {
+              window.open(href, '_blank', 'noopener,noreferrer')
+              e.preventDefault()
+              e.stopPropagation()
+            }
+          }}
+          onInput={handleInput}
+          onPaste={pasteSanitizedHtml}
+        />
+      </div>
+      <style>{RICH_TEXT_CSS}</style>
+    </HTMLContainer>
+  )
+}
@@ -0,0 +1,108 @@
+import { DefaultColorStyle, Rectangle2d, ShapeUtil, T, getDefaultColorTheme } from 'tldraw'
+import type { RecordProps, SvgExportContext } from 'tldraw'
+import { CustomNoteShapeComponent } from './CustomNoteShapeComponent'
+import { htmlToLines } from './richTextContent'
+import { NOTE_FONT_FAMILY, NOTE_FONT_SIZE, NOTE_PADDING, NOTE_SIZE, customNoteShapeMigrations, getNoteFill, getNoteHeight } from './noteShape'
+import type { CustomNoteShape } from './noteShape'
+
+const LINE_HEIGHT = 1.25
+
+/**
+ * Replaces tldraw's note with one that holds the app's rich text. It keeps the
+ * `note` type, tool and size, so tldraw's note creation and adjacent-note
+ * snapping keep working.
+ */
+export class CustomNoteShapeUtil extends ShapeUtil<CustomNoteShape> {
+  static override type = 'note' as const
+
+  static override props: RecordProps<CustomNoteShape> = {
+    color: DefaultColorStyle,
+    align: T.string,
+    html: T.string,
+    growY: T.positiveNumber,
+    scale: T.nonZeroNumber
+  }
+
+  // Continues tldraw's note sequence, whose versions stored pages already carry
+  static override migrations = customNoteShapeMigrations
+
+  override getDefaultProps(): CustomNoteShape['props'] {
+    return {
+      color: 'yellow',
+      align: 'start',
+      html: '',
+      growY: 0,
+      scale: 1
+    }
+  }
+
+  override canEdit() {
+    return true
+  }
+
+  // The text sets the height and the note tool the scale
+  override hideResizeHandles() {
+    return true
+  }
+
+  override getGeometry(shape: CustomNoteShape) {
+    return new Rectangle2d({
+      width: NOTE_SIZE * shape.props.scale,
+      height: getNoteHeight(shape),
+      isFilled: true
+    })
+  }
+
+  override component(shape: CustomNoteShape) {
+    return <CustomNoteShapeComponent shape={shape} util={this} />
+  }
+
+  override indicator(shape: CustomNoteShape) {
+    return <rect width={NOTE_SIZE * shape.props.scale} height={getNoteHeight(shape)} rx={2} />
+  }
+
+  // Shape-level text only, like rich text exports; lines are re-wrapped to the note width
+  override toSvg(shape: CustomNoteShape, ctx: SvgExportContext) {
+    const theme = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode })
+    const fontSize = parseFloat(NOTE_FONT_SIZE)
+    const align = shape.props.align === 'middle' || shape.props.align === 'end' ? shape.props.align : 'start'
+    const height = NOTE_SIZE + shape.props.growY
+
+    const text = htmlToLines(shape.props.html).join('\n')
+    const spans = text.trim()
+      ? this.editor.textMeasure.measureTextSpans(text, {
+        overflow: 'wrap',
+        width: NOTE_SIZE - NOTE_PADDING * 2,
+        height: height - NOTE_PADDING * 2,
+        padding: 0,
+        fontSize,
+        fontWeight: 'normal',
+        fontFamily: NOTE_FONT_FAMILY,
+        fontStyle: 'normal',
+        lineHeight: LINE_HEIGHT,
+        textAlign: align
+      })
+      : []
+    const textHeight = spans.reduce((max, span) => Math.max(max, span.box.y + span.box.h), 0)
+    const top = Math.max(NOTE_PADDING, (height - textHeight) / 2)
+
+    return (
+      <g transform={`scale(${shape.props.scale})`}>
+        <rect width={NOTE_SIZE} height={height} rx={2} fill={getNoteFill(theme, shape.props.color)} />
+        <text fontFamily={NOTE_FONT_FAMILY} fontSize={fontSize} fill={theme.text}>
+          {spans.map((span, i) => (
+            <tspan
+              key={i}
+              x={NOTE_PADDING + span.box.x}
+              y={top + span.box.y + span.box.h / 2}
+              dominantBaseline="central"
+              xmlSpace="preserve"
+            >
+              {span.text}
+            </tspan>
+          ))}
+        </text>
+      </g>
+    )
+  }
+}
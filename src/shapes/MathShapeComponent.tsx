@@ -0,0 +1,115 @@
+import * as React from 'react'
+import { HTMLContainer, getDefaultColorTheme, stopEventPropagation, useValue } from 'tldraw'
+import { useTranslation } from 'react-i18next'
+import type { MathShapeUtil } from './MathShapeUtil'
+import { MATH_PADDING, getLoadedMathRenderer, getMathBounds, getMathFontSize, loadMathRenderer } from './mathShape'
+import type { MathShape } from './mathShape'
+
+/**
+ * Typeset equation. While editing, the LaTeX source is typed in a box under
+ * the formula, which itself acts as the live preview.
+ */
+export const MathShapeComponent = ({ shape, util }: { shape: MathShape; util: MathShapeUtil }) => {
+  const { t } = useTranslation()
+  const editor = util.editor
+  const isEditing = useValue('isEditing', () => editor.getEditingShapeId() === shape.id, [editor, shape.id])
+  const isDarkMode = useValue('isDarkMode', () => editor.user.getIsDarkMode(), [editor])
+  const [renderer, setRenderer] = React.useState(getLoadedMathRenderer)
+  const sourceRef = React.useRef<HTMLTextAreaElement>(null)
+
+  React.useEffect(() => {
+    if (!renderer) loadMathRenderer().then(setRenderer)
+  }, [renderer])
+
+  // Shapes saved before the renderer loaded (or by another device) may need their box fixed
+  React.useEffect(() => {
+    if (!renderer) return
+    const { w, h } = getMathBounds(renderer, shape.props.latex, shape.props.size)
+    if (w === shape.props.w && h === shape.props.h) return
+    editor.run(() => {
+      editor.updateShape({ id: shape.id, type: 'math', props: { w, h } })
+    }, { history: 'ignore' })
+  }, [renderer, editor, shape.id, shape.props.latex, shape.props.size, shape.props.w, shape.props.h])
+
+  React.useEffect(() => {
+    if (!isEditing || !sourceRef.current) return
+    const source = sourceRef.current
+    source.focus()
+    source.setSelectionRange(source.value.length, source.value.length)
+  }, [isEditing])
+
+  const theme = getDefaultColorTheme({ isDarkMode })
+  const color = theme[shape.props.color]?.solid || shape.props.color
+  const rendered = renderer && shape.props.latex.trim() ? renderer.renderMath(shape.props.latex) : null
+
+  return (
+    <HTMLContainer id={shape.id} style={{ overflow: 'visible', pointerEvents: 'all' }}>
+      <div
+        style={{
+          width: shape.props.w,
+          height: shape.props.h,
+          padding: MATH_PADDING,
+          boxSizing: 'border-box',
+          color,
+          fontSize: getMathFontSize(shape.props.size),
+          borderRadius: 4,
+          border: isEditing ? '1px dashed var(--color-accent)' : '1px solid transparent'
+        }}
+      >
+        {rendered ? (
+          <svg
+            width="100%"
+            height="100%"
+            viewBox={rendered.viewBox}
+            style={{ display: 'block', overflow: 'visible' }}
+            dangerouslySetInnerHTML={{ __html: rendered.markup }}
+          />
+        ) : (
+          // Source stays readable until MathJax is ready
+          !renderer && <span style={{ fontFamily: 'monospace', fontSize: '0.6em', whiteSpace: 'nowrap' }}>{shape.props.latex}</span>
+        )}
+      </div>
+
+      {isEditing && (
+        <div
+          style={{ position: 'absolute', top: shape.props.h + 6, left: 0, width: Math.max(shape.props.w, 260) }}
+          onPointerDown={stopEventPropagation}
+        >
+          <textarea
+            ref={sourceRef}
+            value={shape.props.latex}
+            placeholder={t('math.placeholder')}
+            spellCheck={false}
+            rows={Math.min(6, Math.max(2, shape.props.latex.split('\n').length))}
+            onChange={(e) => editor.updateShape({ id: shape.id, type: 'math', props: { latex: e.target.value } })}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              // Escape or Ctrl/Cmd+Enter finishes, plain Enter adds a line
+              if (e.key === 'Escape' || (e.key === 'Enter' && (e.metaKey || e.ctrlKey))) {
+                e.preventDefault()
+                editor.setEditingShape(null)
+              }
+            }}
+            style={{
+              width: '100%',
+              boxSizing: 'border-box',
+              resize: 'none',
+              padding: '6px 8px',
+              fontFamily: 'monospace',
+              fontSize: 14,
+              color: 'hsl(var(--color-text-primary))',
+              background: 'var(--glass-bg)',
+              border: '1px solid var(--glass-border)',
+              borderRadius: 6,
+              outline: 'none',
+              boxShadow: 'var(--shadow-md)'
+            }}
+          />
+          {rendered?.error && (
+            <div style={{ marginTop: 4, fontSize: 12, color: 'hsl(var(--color-danger))' }}>{rendered.error}</div>
+          )}
+        </div>
+      )}
+    </HTMLContainer>
+  )
+}
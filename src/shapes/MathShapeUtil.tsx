@@ -0,0 +1,88 @@
+import { BaseBoxShapeUtil, DefaultColorStyle, DefaultSizeStyle, T, getDefaultColorTheme } from 'tldraw'
+import type { RecordProps, SvgExportContext } from 'tldraw'
+import { MathShapeComponent } from './MathShapeComponent'
+import { MATH_PADDING, getLoadedMathRenderer, getMathBounds, loadMathRenderer } from './mathShape'
+import type { MathShape } from './mathShape'
+
+export class MathShapeUtil extends BaseBoxShapeUtil<MathShape> {
+  static override type = 'math' as const
+
+  // Color and size are tldraw style props, so the Bubble and "next shape" styles apply as-is
+  static override props: RecordProps<MathShape> = {
+    w: T.nonZeroNumber,
+    h: T.nonZeroNumber,
+    latex: T.string,
+    color: DefaultColorStyle,
+    size: DefaultSizeStyle
+  }
+
+  override getDefaultProps(): MathShape['props'] {
+    return {
+      w: 60,
+      h: 42,
+      latex: '',
+      color: 'black',
+      size: 'm'
+    }
+  }
+
+  override canEdit() {
+    return true
+  }
+
+  // The box always hugs the formula, the size style is how it grows
+  override canResize() {
+    return false
+  }
+
+  override onBeforeCreate(next: MathShape) {
+    return this.withFittedBounds(next)
+  }
+
+  override onBeforeUpdate(prev: MathShape, next: MathShape) {
+    if (prev.props.latex === next.props.latex && prev.props.size === next.props.size) return
+    return this.withFittedBounds(next)
+  }
+
+  override onEditEnd(shape: MathShape) {
+    if (!shape.props.latex.trim()) this.editor.deleteShape(shape.id)
+  }
+
+  override component(shape: MathShape) {
+    return <MathShapeComponent shape={shape} util={this} />
+  }
+
+  override indicator(shape: MathShape) {
+    return <rect width={shape.props.w} height={shape.props.h} rx={4} />
+  }
+
+  // Real paths with the glyphs inlined, so SVG and PDF exports need no fonts
+  override async toSvg(shape: MathShape, ctx: SvgExportContext) {
+    if (!shape.props.latex.trim()) return null
+    const renderer = await loadMathRenderer()
+    const { markup, viewBox } = renderer.renderMath(shape.props.latex)
+    const theme = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode })
+    const color = theme[shape.props.color]?.solid || shape.props.color
+
+    return (
+      <svg
+        x={MATH_PADDING}
+        y={MATH_PADDING}
+        width={shape.props.w - MATH_PADDING * 2}
+        height={shape.props.h - MATH_PADDING * 2}
+        viewBox={viewBox}
+        overflow="visible"
+        dangerouslySetInnerHTML={{ __html: markup.replace(/currentColor/g, color) }}
+      />
+    )
+  }
+
+  // Sizes can only be measured once MathJax is loaded, the component catches up otherwise
+  private withFittedBounds(shape: MathShape): MathShape | undefined {
+    const renderer = getLoadedMathRenderer()
+    if (!renderer) return
+    const { w, h } = getMathBounds(renderer, shape.props.latex, shape.props.size)
+    if (w === shape.props.w && h === shape.props.h) return
+    return { ...shape, props: { ...shape.props, w, h } }
+  }
+}
@@ -1,6 +1,17 @@
 import { BaseBoxShapeUtil, HTMLContainer, stopEventPropagation, useValue, getDefaultColorTheme } from 'tldraw'
-import type { TLBaseShape } from 'tldraw'
+import type { TLBaseShape, SvgExportContext } from 'tldraw'
 import * as React from 'react'
+import { sanitizeRichTextHtml } from '../lib/sanitizeHtml'
+import {
+  RICH_TEXT_CSS,
+  RICH_TEXT_FONTS,
+  RICH_TEXT_SIZES,
+  applyRichTextInput,
+  getRichTextColorsMap,
+  htmlToLines,
+  pasteSanitizedHtml,
+  toggleChecklistAtPointer
+} from './richTextContent'
 
 export type RichTextShape = TLBaseShape<
   'rich-text',
@@ -58,6 +69,41 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
     return true
   }
 
+  // Vector approximation for exports: shape-level styles only, inline formatting
+  // (per-span colors or sizes) is flattened and fixed-width boxes are not re-wrapped.
+  override toSvg(shape: RichTextShape, ctx: SvgExportContext) {
+    const sx = shape.props.scaleX ?? 1
+    const sy = shape.props.scaleY ?? 1
+    const colorsMap = getRichTextColorsMap(getDefaultColorTheme({ isDarkMode: ctx.isDarkMode }))
+    const fontSize = parseFloat(RICH_TEXT_SIZES[shape.props.size] || RICH_TEXT_SIZES.m)
+    const lineHeight = fontSize * 1.25
+    const width = shape.props.w / sx
+
+    // Matches the 2px border and 4px padding of the editable container
+    const anchor = shape.props.align === 'middle' ? 'middle' : shape.props.align === 'end' ? 'end' : 'start'
+    const x = anchor === 'middle' ? width / 2 : anchor === 'end' ? width - 6 : 6
+    const decoration = [shape.props.underline && 'underline', shape.props.strike && 'line-through'].filter(Boolean).join(' ')
+
+    return (
+      <g transform={`scale(${sx}, ${sy})`}>
+        <text
+          fontFamily={RICH_TEXT_FONTS[shape.props.font] || RICH_TEXT_FONTS.draw}
+          fontSize={fontSize}
+          fontWeight={shape.props.bold ? 'bold' : 'normal'}
+          fontStyle={shape.props.italic ? 'italic' : 'normal'}
+          textDecoration={decoration || undefined}
+          textAnchor={anchor}
+          fill={colorsMap[shape.props.color] || shape.props.color || '#000000'}
+        >
+          {htmlToLines(shape.props.html).map((line, i) => (
+            // Baseline sits roughly 80% down each line box
+            <tspan key={i} x={x} y={2 + i * lineHeight + lineHeight * 0.8} xmlSpace="preserve">{line}</tspan>
+          ))}
+        </text>
+      </g>
+    )
+  }
+
   override component(shape: RichTextShape) {
     // strict tracking of editing state
     const isEditing = useValue('isEditing', () => this.editor.getEditingShapeId() === shape.id, [this.editor, shape.id])
@@ -66,34 +112,11 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
     const sy = shape.props.scaleY ?? 1
 
     // Map Props to CSS
-    const fonts: Record<string, string> = {
-      draw: '"Comic Sans MS", "Chalkboard SE", "Comic Neue", sans-serif',
-      sans: 'Inter, sans-serif',
-      serif: 'serif',
-      mono: 'monospace'
-    }
-    const sizes: Record<string, string> = {
-      xs: '14px',
-      s: '18px',
-      m: '24px',
-      l: '32px',
-      xl: '48px',
-      xxl: '64px'
-    }
+    const fonts = RICH_TEXT_FONTS
+    const sizes = RICH_TEXT_SIZES
     const isDarkMode = this.editor.user.getIsDarkMode();
     const theme = getDefaultColorTheme({ isDarkMode });
-
-    const colorsMap: Record<string, string> = {
-      black: theme.black.solid,
-      grey: theme.grey.solid,
-      red: theme.red.solid,
-      orange: theme.yellow.solid, // tldraw usa 'yellow' pero lo llamamos 'orange' en la UI
-      yellow: theme.yellow.solid,
-      green: theme.green.solid,
-      blue: theme.blue.solid,
-      purple: theme.violet.solid,
-      violet: theme.violet.solid,
-    };
+    const colorsMap = getRichTextColorsMap(theme);
 
     // Style for the container
     const style: React.CSSProperties = {
@@ -243,12 +266,14 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
     React.useEffect(() => {
       if (!rRef.current) return;
       if (rRef.current.innerHTML !== shape.props.html) {
-        rRef.current.innerHTML = shape.props.html;
+        rRef.current.innerHTML = sanitizeRichTextHtml(shape.props.html);
       }
     }, [shape.props.html]);
 
     const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
       const el = e.currentTarget
+      applyRichTextInput(this.editor, el, e.nativeEvent as InputEvent)
+
       const html = el.innerHTML
 
       const update: any = { html }
@@ -303,6 +328,15 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
           contentEditable={isEditing}
           suppressContentEditableWarning
           onPointerDown={(e) => {
+            if (rRef.current && toggleChecklistAtPointer(this.editor, e)) {
+              this.editor.updateShape({
+                id: shape.id,
+                type: 'rich-text',
+                props: { html: rRef.current.innerHTML }
+              });
+              return;
+            }
+
             const isLink = (e.target as HTMLElement).closest('a');
             if (isEditing || isLink) {
               stopEventPropagation(e);
@@ -322,6 +356,7 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
             }
           }}
           onInput={handleInput}
+          onPaste={pasteSanitizedHtml}
           onFocus={() => {
             // Redundant priming on manual focus if empty
             if (isEditing && shape.props.html === '' && rRef.current) {
@@ -340,19 +375,7 @@ export class RichTextShapeUtil extends BaseBoxShapeUtil<RichTextShape> {
               line-height: 1.25 !important;
               min-height: 1em !important;
             }
-            .rich-text-container * {
-              text-align: inherit;
-              cursor: inherit;
-              color: inherit;
-              user-select: inherit;
-              -webkit-user-select: inherit;
-            }
-            .rich-text-container a {
-              color: var(--color-accent) !important;
-              text-decoration: underline !important;
-              cursor: pointer !important;
-              pointer-events: all !important;
-            }
+            ${RICH_TEXT_CSS}
             /* Force Pointer instead of Crosshair for Text Tool */
           .tl-canvas.tl-cursor-cross, 
           .tl-canvas.tl-cursor-crosshair,
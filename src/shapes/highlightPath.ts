@@ -0,0 +1,58 @@
+import { Vec } from 'tldraw'
+import type { TLHighlightShape, VecModel } from 'tldraw'
+
+// Marker widths per size, wider than ink so a single pass covers a line of handwriting
+export const HIGHLIGHT_WIDTHS: Record<string, number> = { xs: 8, s: 12, m: 18, l: 26, xl: 34, xxl: 44 }
+
+// The chisel nib is held almost upright: horizontal strokes get the full width, vertical ones are thin
+const NIB_ANGLE = Math.PI * 0.42
+const NIB_THICKNESS = 0.2
+
+export const getHighlightWidth = (shape: TLHighlightShape) =>
+  (HIGHLIGHT_WIDTHS[shape.props.size] ?? HIGHLIGHT_WIDTHS.m) * shape.props.scale
+
+// Andrew's monotone chain, counter-clockwise so every hull winds the same way
+const convexHull = (points: VecModel[]) => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const cross = (o: VecModel, a: VecModel, b: VecModel) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const half = (list: VecModel[]) => {
+    const hull: VecModel[] = []
+    for (const point of list) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop()
+      hull.push(point)
+    }
+    return hull.slice(0, -1)
+  }
+  return [...half(sorted), ...half(sorted.reverse())]
+}
+
+/**
+ * The stroke swept by a flat nib: one convex hull per pair of consecutive
+ * points. The hulls overlap, filling them as one nonzero path gives their union.
+ */
+export const getChiselHulls = (shape: TLHighlightShape): VecModel[][] => {
+  const width = getHighlightWidth(shape)
+  const along = Vec.FromAngle(NIB_ANGLE, width / 2)
+  const across = Vec.FromAngle(NIB_ANGLE + Math.PI / 2, width * NIB_THICKNESS / 2)
+  const nib = (p: VecModel) => [
+    Vec.Add(p, along).add(across),
+    Vec.Add(p, along).sub(across),
+    Vec.Sub(p, along).sub(across),
+    Vec.Sub(p, along).add(across),
+  ]
+
+  // Points closer than the nib thickness add hulls without changing the outline
+  const points: VecModel[] = []
+  const all = shape.props.segments.flatMap(s => s.points)
+  all.forEach((point, i) => {
+    const last = points[points.length - 1]
+    if (!last || i === all.length - 1 || Vec.Dist(point, last) >= width * NIB_THICKNESS / 2) points.push(point)
+  })
+  if (points.length === 0) return []
+  if (points.length === 1) return [nib(points[0])]
+
+  return points.slice(1).map((point, i) => convexHull([...nib(points[i]), ...nib(point)]))
+}
+
+export const getChiselPath = (hulls: VecModel[][]) =>
+  hulls.map(hull => `M${hull.map(p => `${p.x.toFixed(2)},${p.y.toFixed(2)}`).join('L')}Z`).join('')
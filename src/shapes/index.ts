@@ -0,0 +1,20 @@
+import { RichTextShapeUtil } from './RichTextShapeUtil';
+import { CustomGeoShapeUtil } from './CustomGeoShapeUtil';
+import { CustomDrawShapeUtil } from './CustomDrawShapeUtil';
+import { CustomLineShapeUtil } from './CustomLineShapeUtil';
+import { CustomArrowShapeUtil } from './CustomArrowShapeUtil';
+import { CustomHighlightShapeUtil } from './CustomHighlightShapeUtil';
+import { MathShapeUtil } from './MathShapeUtil';
+import { CustomNoteShapeUtil } from './CustomNoteShapeUtil';
+
+// Shared by the main canvas and any secondary (read-only) editors
+export const customShapeUtils = [
+  RichTextShapeUtil,
+  CustomGeoShapeUtil,
+  CustomDrawShapeUtil,
+  CustomLineShapeUtil,
+  CustomArrowShapeUtil,
+  CustomHighlightShapeUtil,
+  MathShapeUtil,
+  CustomNoteShapeUtil
+];
@@ -0,0 +1,58 @@
+import { mathjax } from 'mathjax-full/js/mathjax.js'
+import { TeX } from 'mathjax-full/js/input/tex.js'
+import { SVG } from 'mathjax-full/js/output/svg.js'
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js'
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js'
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js'
+import type { LiteElement } from 'mathjax-full/js/adaptors/lite/Element.js'
+
+// MathJax works in units of 1/1000 em
+const UNITS_PER_EM = 1000
+const CACHE_SIZE = 200
+
+export interface RenderedMath {
+  markup: string // Contents of the formula's <svg>, drawn in currentColor
+  viewBox: string
+  width: number // em
+  height: number // em
+  error: string | null
+}
+
+const adaptor = liteAdaptor()
+RegisterHTMLHandler(adaptor)
+
+const mathDocument = mathjax.document('', {
+  // The html package (\href, \class, \style...) would let synced source write markup
+  InputJax: new TeX({ packages: AllPackages.filter(name => name !== 'html') }),
+  // Glyphs are inlined as paths in each formula, so nothing depends on web fonts
+  OutputJax: new SVG({ fontCache: 'none' })
+})
+
+const cache = new Map<string, RenderedMath>()
+
+/**
+ * Typesets LaTeX (display style) into standalone SVG markup. Errors don't
+ * throw: MathJax draws the faulty source in red and the message is returned.
+ */
+export const renderMath = (latex: string): RenderedMath => {
+  const cached = cache.get(latex)
+  if (cached) return cached
+
+  const container = mathDocument.convert(latex, { display: true }) as LiteElement
+  const svg = adaptor.firstChild(container) as LiteElement
+  const viewBox = adaptor.getAttribute(svg, 'viewBox')
+  const [, , w, h] = viewBox.split(' ').map(Number)
+  const markup = adaptor.innerHTML(svg)
+
+  const result: RenderedMath = {
+    markup,
+    viewBox,
+    width: w / UNITS_PER_EM,
+    height: h / UNITS_PER_EM,
+    error: /data-mjx-error="([^"]*)"/.exec(markup)?.[1] ?? null
+  }
+
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value!)
+  cache.set(latex, result)
+  return result
+}
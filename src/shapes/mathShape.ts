@@ -0,0 +1,52 @@
+import type { TLBaseShape, TLDefaultColorStyle, TLDefaultSizeStyle } from 'tldraw'
+
+export type MathShape = TLBaseShape<
+  'math',
+  {
+    w: number
+    h: number
+    latex: string
+    color: TLDefaultColorStyle
+    size: TLDefaultSizeStyle
+  }
+>
+
+// Same steps as rich text, so an equation sits naturally next to the text around it
+export const MATH_FONT_SIZES: Record<string, number> = {
+  xs: 14,
+  s: 18,
+  m: 24,
+  l: 32,
+  xl: 48,
+  xxl: 64
+}
+
+export const MATH_PADDING = 6
+
+// Room for the caret while the source is still empty
+const EMPTY_SIZE_EM = { w: 2, h: 1.25 }
+
+type MathRenderer = typeof import('./mathRender')
+
+// MathJax is large, so it loads the first time an equation is shown or exported
+let loaded: MathRenderer | null = null
+let loading: Promise<MathRenderer> | null = null
+
+export const loadMathRenderer = () => {
+  loading ??= import('./mathRender').then(module => (loaded = module))
+  return loading
+}
+
+export const getLoadedMathRenderer = () => loaded
+
+export const getMathFontSize = (size: string) => MATH_FONT_SIZES[size] || MATH_FONT_SIZES.m
+
+// Box of the typeset formula plus padding, in page units
+export const getMathBounds = (renderer: MathRenderer, latex: string, size: string) => {
+  const fontSize = getMathFontSize(size)
+  const { width, height } = latex.trim() ? renderer.renderMath(latex) : { width: EMPTY_SIZE_EM.w, height: EMPTY_SIZE_EM.h }
+  return {
+    w: Math.ceil(width * fontSize + MATH_PADDING * 2),
+    h: Math.ceil(height * fontSize + MATH_PADDING * 2)
+  }
+}
@@ -0,0 +1,109 @@
+import { createShapePropsMigrationIds, createShapePropsMigrationSequence, noteShapeMigrations } from 'tldraw'
+import type { TLBaseShape, TLDefaultColorStyle, TLDefaultColorTheme, TLDefaultColorThemeColor } from 'tldraw'
+
+export type CustomNoteShape = TLBaseShape<
+  'note',
+  {
+    color: TLDefaultColorStyle
+    align: string
+    html: string
+    growY: number
+    scale: number
+  }
+>
+
+// tldraw's note tool and adjacent-note snapping assume a square of this side, grown downwards by growY
+export const NOTE_SIZE = 200
+export const NOTE_PADDING = 16
+
+export const NOTE_FONT_SIZE = '18px'
+export const NOTE_FONT_FAMILY = 'Inter, sans-serif'
+
+export const getNoteFill = (theme: TLDefaultColorTheme, color: string) =>
+  (theme[color as TLDefaultColorStyle] as TLDefaultColorThemeColor | undefined)?.noteFill || color
+
+export const getNoteHeight = (shape: CustomNoteShape) => (NOTE_SIZE + shape.props.growY) * shape.props.scale
+
+// tldraw keeps note text as TipTap JSON
+interface TipTapNode {
+  type?: string
+  text?: string
+  attrs?: { level?: number; checked?: boolean }
+  marks?: { type?: string }[]
+  content?: TipTapNode[]
+}
+
+const MARK_TAGS: Record<string, string> = { bold: 'b', italic: 'i', underline: 'u', strike: 's', code: 'code' }
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const inlineToHtml = (node: TipTapNode): string =>
+  (node.content || []).map(child => {
+    if (child.type === 'hardBreak') return '<br>'
+    if (child.type !== 'text') return inlineToHtml(child)
+    return (child.marks || []).reduce((html, mark) => {
+      const tag = MARK_TAGS[mark.type || '']
+      return tag ? `<${tag}>${html}</${tag}>` : html
+    }, escapeHtml(child.text || ''))
+  }).join('')
+
+const listItemToHtml = (item: TipTapNode, isTask: boolean) => {
+  const checked = isTask ? ` data-checked="${item.attrs?.checked ? 'true' : 'false'}"` : ''
+  const content = (item.content || []).map(child => child.type === 'paragraph' ? inlineToHtml(child) : blockToHtml(child)).join('')
+  return `<li${checked}>${content || '<br>'}</li>`
+}
+
+// Same markup the note editor writes: one div per line, plus its headings and lists
+const blockToHtml = (node: TipTapNode): string => {
+  const children = node.content || []
+  switch (node.type) {
+    case 'paragraph':
+      return `<div>${inlineToHtml(node) || '<br>'}</div>`
+    case 'heading': {
+      const level = Math.min(3, Math.max(1, node.attrs?.level || 1))
+      return `<h${level}>${inlineToHtml(node)}</h${level}>`
+    }
+    case 'bulletList':
+      return `<ul>${children.map(item => listItemToHtml(item, false)).join('')}</ul>`
+    case 'orderedList':
+      return `<ol>${children.map(item => listItemToHtml(item, false)).join('')}</ol>`
+    case 'taskList':
+      return `<ul data-type="checklist">${children.map(item => listItemToHtml(item, true)).join('')}</ul>`
+    case 'codeBlock':
+      return `<pre>${inlineToHtml(node)}</pre>`
+    case 'blockquote':
+      return `<blockquote>${children.map(blockToHtml).join('')}</blockquote>`
+    default:
+      return children.map(blockToHtml).join('')
+  }
+}
+
+const noteVersions = createShapePropsMigrationIds('note', {
+  // Follows tldraw's own note migrations, which end at AddRichText (9)
+  ConvertToHtml: 10
+})
+
+/**
+ * The note type is shared with tldraw, so pages and clipboards from other tldraw
+ * apps hold notes with tldraw's props. They go through tldraw's note migrations
+ * first and then have their rich text turned into this app's HTML.
+ */
+export const customNoteShapeMigrations = createShapePropsMigrationSequence({
+  sequence: [
+    ...noteShapeMigrations.sequence,
+    {
+      id: noteVersions.ConvertToHtml,
+      up: (props) => {
+        if (typeof props.html === 'string') return props
+        const align = typeof props.align === 'string' ? props.align.replace('-legacy', '') : 'start'
+        return {
+          color: props.color ?? 'yellow',
+          align: align === 'middle' || align === 'end' ? align : 'start',
+          html: props.richText ? blockToHtml(props.richText) : '',
+          growY: props.growY ?? 0,
+          scale: props.scale ?? 1
+        }
+      }
+    }
+  ]
+})
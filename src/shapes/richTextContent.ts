@@ -0,0 +1,189 @@
+import { stopEventPropagation } from 'tldraw'
+import type { Editor, TLDefaultColorTheme } from 'tldraw'
+import type * as React from 'react'
+import { sanitizeHtmlWithReport, warnSanitizedContent } from '../lib/sanitizeHtml'
+import { getMarkdownShortcut, isChecklistMarkerHit, resetNewChecklistItem, toggleChecklistItem } from '../lib/richTextFormat'
+
+// Editing pieces shared by every shape whose text lives in a `.rich-text-container`
+
+export const RICH_TEXT_FONTS: Record<string, string> = {
+  draw: '"Comic Sans MS", "Chalkboard SE", "Comic Neue", sans-serif',
+  sans: 'Inter, sans-serif',
+  serif: 'serif',
+  mono: 'monospace'
+}
+
+export const RICH_TEXT_SIZES: Record<string, string> = {
+  xs: '14px',
+  s: '18px',
+  m: '24px',
+  l: '32px',
+  xl: '48px',
+  xxl: '64px'
+}
+
+export const getRichTextColorsMap = (theme: TLDefaultColorTheme): Record<string, string> => ({
+  black: theme.black.solid,
+  grey: theme.grey.solid,
+  red: theme.red.solid,
+  orange: theme.yellow.solid, // tldraw usa 'yellow' pero lo llamamos 'orange' en la UI
+  yellow: theme.yellow.solid,
+  green: theme.green.solid,
+  blue: theme.blue.solid,
+  purple: theme.violet.solid,
+  violet: theme.violet.solid,
+})
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI', 'UL', 'OL', 'H1', 'H2', 'H3', 'BLOCKQUOTE', 'PRE'])
+
+// Plain-text stand-in for the bullet, number or checkbox of a list item
+const listMarker = (item: Element) => {
+  const list = item.parentElement
+  if (list?.getAttribute('data-type') === 'checklist') return item.getAttribute('data-checked') === 'true' ? '☑ ' : '☐ '
+  if (list?.nodeName === 'OL') return `${Array.from(list.children).indexOf(item) + 1}. `
+  return '• '
+}
+
+// Splits the editor HTML into the visual lines it renders as
+export const htmlToLines = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const lines: string[] = ['']
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        lines[lines.length - 1] += child.textContent || ''
+      } else if (child.nodeName === 'BR') {
+        lines.push('')
+      } else {
+        const isBlock = BLOCK_TAGS.has(child.nodeName)
+        if (isBlock && lines[lines.length - 1] !== '') lines.push('')
+        if (child.nodeName === 'LI') lines[lines.length - 1] += listMarker(child as Element)
+        walk(child)
+        if (isBlock) lines.push('')
+      }
+    })
+  }
+  walk(doc.body)
+  while (lines.length > 1 && lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+// Runs the list and markdown side effects of an edit, before the shape reads the new HTML
+export const applyRichTextInput = (editor: Editor, el: HTMLElement, nativeEvent: InputEvent) => {
+  if (nativeEvent.inputType === 'insertParagraph') resetNewChecklistItem(el)
+
+  // A markdown shortcut becomes its own undo step, apart from the typing around it
+  const shortcut = nativeEvent.inputType === 'insertText' && nativeEvent.data
+    ? getMarkdownShortcut(el, nativeEvent.data)
+    : null
+  if (shortcut) {
+    editor.markHistoryStoppingPoint('markdown shortcut')
+    shortcut()
+    editor.markHistoryStoppingPoint('markdown shortcut')
+  }
+}
+
+// Toggles the checkbox under the pointer, if any; the caller then stores the new HTML
+export const toggleChecklistAtPointer = (editor: Editor, e: React.PointerEvent) => {
+  const checklistItem = isChecklistMarkerHit(e.target, e.clientX)
+  if (!checklistItem || editor.getIsReadonly()) return false
+  stopEventPropagation(e)
+  e.preventDefault()
+  toggleChecklistItem(checklistItem)
+  editor.markHistoryStoppingPoint('toggle checklist item')
+  return true
+}
+
+// Plain text is left to the browser, markup goes through the allowlist
+export const pasteSanitizedHtml = (e: React.ClipboardEvent) => {
+  const html = e.clipboardData.getData('text/html')
+  if (!html) return
+  e.preventDefault()
+  const { html: clean, removed } = sanitizeHtmlWithReport(html)
+  if (removed > 0) warnSanitizedContent()
+  document.execCommand('insertHTML', false, clean)
+}
+
+// Lists, headings, code, checklists and links inside any rich text container
+export const RICH_TEXT_CSS = `
+.rich-text-container * {
+  text-align: inherit;
+  cursor: inherit;
+  color: inherit;
+  user-select: inherit;
+  -webkit-user-select: inherit;
+}
+.rich-text-container ul,
+.rich-text-container ol {
+  margin: 0;
+  padding-left: 1.4em;
+}
+.rich-text-container h1,
+.rich-text-container h2,
+.rich-text-container h3 {
+  margin: 0;
+  font-weight: bold;
+  line-height: 1.2;
+}
+.rich-text-container h1 { font-size: 1.75em; }
+.rich-text-container h2 { font-size: 1.4em; }
+.rich-text-container h3 { font-size: 1.15em; }
+/* Headings keep their size over the per-span sizes of typed text */
+.rich-text-container :is(h1, h2, h3) * {
+  font-size: inherit !important;
+}
+.rich-text-container code {
+  font-family: monospace !important;
+  font-size: 0.9em;
+  padding: 0 0.2em;
+  border-radius: 0.2em;
+  background-color: rgba(127, 127, 127, 0.18);
+}
+.rich-text-container code * {
+  font-family: inherit !important;
+}
+.rich-text-container ul[data-type="checklist"] {
+  list-style: none;
+}
+.rich-text-container ul[data-type="checklist"] > li {
+  position: relative;
+}
+.rich-text-container ul[data-type="checklist"] > li::before {
+  content: '';
+  position: absolute;
+  left: -1.25em;
+  top: 0.2em;
+  width: 0.85em;
+  height: 0.85em;
+  box-sizing: border-box;
+  border: 0.1em solid currentColor;
+  border-radius: 0.2em;
+  cursor: pointer;
+}
+.rich-text-container ul[data-type="checklist"] > li[data-checked="true"]::before {
+  background-color: var(--color-accent);
+  border-color: var(--color-accent);
+}
+.rich-text-container ul[data-type="checklist"] > li[data-checked="true"]::after {
+  content: '';
+  position: absolute;
+  left: -0.97em;
+  top: 0.3em;
+  width: 0.22em;
+  height: 0.45em;
+  border: solid white;
+  border-width: 0 0.1em 0.1em 0;
+  transform: rotate(45deg);
+  pointer-events: none;
+}
+.rich-text-container ul[data-type="checklist"] > li[data-checked="true"] {
+  text-decoration: line-through;
+  opacity: 0.6;
+}
+.rich-text-container a {
+  color: var(--color-accent) !important;
+  text-decoration: underline !important;
+  cursor: pointer !important;
+  pointer-events: all !important;
+}
+`
@@ -1,19 +1,342 @@
 
 import { create } from 'zustand';
-import type { Notebook, Folder, Page } from '../types';
+import type { Notebook, Folder, Page, PageTemplate, Tag, SmartFolder, SmartFolderQuery } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { opfs } from '../lib/opfs';
+import { pageHistory } from '../lib/pageHistory';
+import { inkSidecarName } from '../lib/inkIndex';
+import { thumbnailDir } from '../lib/pageThumbnails';
+import { isInTrash, DAY_MS } from '../lib/trashUtils';
+import { syncBaseDir } from '../lib/snapshotMerge';
+import { sanitizeTemplate } from '../lib/pageTemplates';
+import { DEFAULT_SMART_FOLDER_QUERY } from '../lib/smartFolders';
+import { sanitizePageContent, warnSanitizedContent } from '../lib/sanitizeHtml';
 import { useSyncStore } from './syncStore';
 import { diskLog, syncLog } from '../lib/debugLog';
 import i18n from '../i18n';
 
 const METADATA_FILE = 'metadata.json';
+const TRASH_RETENTION_KEY = 'cuaderno-trash-retention-days';
+const RECENT_PAGES_KEY = 'cuaderno-recent-pages';
+const RECENT_PAGES_LIMIT = 12;
+
+const loadRecentPageIds = (): string[] => {
+  try {
+    const ids = JSON.parse(localStorage.getItem(RECENT_PAGES_KEY) || '[]');
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+};
+
+const markTrashed = <T extends Notebook | Folder | Page>(node: T, clientId: string): T =>
+  ({ ...node, trashedAt: Date.now(), dirty: true, lastModifier: clientId });
+
+// Working copies a store action mutates before committing them with a single set()
+interface NodeDraft {
+  folders: Record<string, Folder>;
+  pages: Record<string, Page>;
+}
+
+interface BulkRecords {
+  folders: Record<string, Folder | undefined>;
+  pages: Record<string, Page | undefined>;
+}
+
+export interface BulkAction {
+  kind: 'move' | 'duplicate' | 'delete' | 'tag';
+  count: number;
+  undo: BulkRecords; // Records as they were before, undefined for the ones the action created
+  applied: BulkRecords; // Records as the action left them, to tell when something changed them since
+}
+
+// Moves a folder or page into a container, or in front of a sibling. Returns false when the move isn't allowed.
+const applyMove = (
+  { folders, pages }: NodeDraft,
+  notebooks: Notebook[],
+  activeId: string,
+  overId: string,
+  isContainer: boolean,
+  clientId: string
+): boolean => {
+  // Helper to update notebookId recursively
+  const recursiveUpdateNotebookId = (folderId: string, newNotebookId: string) => {
+    // Update subfolders
+    Object.keys(folders).forEach(fid => {
+      if (folders[fid].parentId === folderId) {
+        folders[fid] = { ...folders[fid], notebookId: newNotebookId };
+        recursiveUpdateNotebookId(fid, newNotebookId); // Recurse
+      }
+    });
+    // Update pages
+    Object.keys(pages).forEach(pid => {
+      if (pages[pid].parentId === folderId) {
+        pages[pid] = { ...pages[pid], notebookId: newNotebookId };
+      }
+    });
+  };
+
+
+  // 0. Security check: Cannot move an item to itself or its descendants
+  if (activeId === overId) return false;
+
+  // Helper to check for descendants in state
+  const isNodeDescendant = (childId: string, ancestorId: string): boolean => {
+    let current = folders[childId] || pages[childId];
+    while (current && current.parentId) {
+      if (current.parentId === ancestorId) return true;
+      current = folders[current.parentId];
+    }
+    return false;
+  };
+
+  if (isNodeDescendant(overId, activeId)) {
+    syncLog(`🚫 [FileSystem] Blocked circular move: cannot move "${activeId}" into its descendant "${overId}"`);
+    return false;
+  }
+
+  // 1. Identify what is being moved
+  const activeItem = folders[activeId] || pages[activeId];
+  if (!activeItem) return false;
+
+  let targetParentId: string | null = null;
+  let targetNotebookId = "";
+  let newOrder = 0;
+
+  // 2. Determine Target Parent and Order based on isContainer
+  if (isContainer) {
+    // Explicit drop into a container (Folder or Notebook)
+    targetParentId = overId;
+
+    const folderContainer = folders[overId];
+    const notebookContainer = notebooks.find(n => n.id === overId);
+
+    if (folderContainer) {
+      targetNotebookId = folderContainer.notebookId;
+    } else if (notebookContainer) {
+      targetNotebookId = notebookContainer.id;
+    } else {
+      return false; // Unknown container
+    }
+
+    // Append to end: Find max order of active siblings in this container
+    const siblings = [
+      ...Object.values(folders).filter(f => f.parentId === targetParentId),
+      ...Object.values(pages).filter(p => p.parentId === targetParentId)
+    ];
+    const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
+    newOrder = maxOrder + 10000;
+
+  } else {
+    // Dropped on an item (Reorder relative to it)
+    const overItem = folders[overId] || pages[overId];
+    if (!overItem) return false;
+
+    targetParentId = overItem.parentId;
+    targetNotebookId = overItem.notebookId;
+
+    // Get siblings of target
+    const siblings = [
+      ...Object.values(folders).filter(f => f.parentId === targetParentId),
+      ...Object.values(pages).filter(p => p.parentId === targetParentId)
+    ].sort((a, b) => (a.order || 0) - (b.order || 0));
+
+    // Find index where we want to insert (before overItem)
+    const overIndex = siblings.findIndex(s => s.id === overId);
+    if (overIndex === -1) return false;
+
+    // Calculate new order. 
+    const prevItem = siblings[overIndex - 1];
+    const nextItem = siblings[overIndex]; // This is overItem
+
+    const prevOrder = prevItem ? (prevItem.order || 0) : 0;
+    const nextOrder = nextItem.order || 0;
+
+    if (!prevItem) {
+      newOrder = nextOrder / 2;
+    } else {
+      newOrder = (prevOrder + nextOrder) / 2;
+    }
+  }
+
+  // Update the moved item
+  const newItem = {
+    ...activeItem,
+    parentId: targetParentId,
+    notebookId: targetNotebookId,
+    order: newOrder,
+    dirty: true,
+    lastModifier: clientId
+  };
+
+  // If moving a folder to a new notebook, recursive update
+  if (folders[activeId] && newItem.notebookId !== activeItem.notebookId) {
+    recursiveUpdateNotebookId(activeId, newItem.notebookId);
+  }
+
+  if (folders[activeId]) folders[activeId] = newItem as Folder;
+  if (pages[activeId]) pages[activeId] = newItem as Page;
+
+  const itemType = folders[activeId] ? 'folder' : 'page';
+  const itemName = newItem.name || activeId;
+  syncLog(`🔶 [FileSystem] Moved ${itemType} "${itemName}" - dirty`);
+
+  return true;
+};
+
+// Copies a folder (with its live contents) or a page to the end of a container.
+// Page files are copied later by the caller, from the [source, copy] pairs collected here.
+const applyDuplicate = (
+  draft: NodeDraft,
+  id: string,
+  parentId: string | null,
+  notebookId: string,
+  clientId: string,
+  pageCopies: [string, string][]
+): string | null => {
+  const source = draft.folders[id] || draft.pages[id];
+  if (!source) return null;
+
+  // Children are read before the copy exists, a folder duplicated into itself doesn't recurse forever
+  const childFolders = Object.values(draft.folders).filter(f => f.parentId === id && !f.trashedAt);
+  const childPages = Object.values(draft.pages).filter(p => p.parentId === id && !p.trashedAt);
+
+  const siblings = [
+    ...Object.values(draft.folders).filter(f => f.parentId === parentId),
+    ...Object.values(draft.pages).filter(p => p.parentId === parentId)
+  ];
+  const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
+
+  const newId = uuidv4();
+  const copy = {
+    ...source,
+    id: newId,
+    parentId,
+    notebookId,
+    createdAt: Date.now(),
+    order: maxOrder + 10000,
+    version: 1,
+    dirty: true,
+    lastModifier: clientId,
+  };
+
+  if (draft.pages[id]) {
+    // The copy isn't pinned along with the original
+    draft.pages[newId] = { ...(copy as Page), updatedAt: Date.now(), pinnedAt: undefined };
+    pageCopies.push([id, newId]);
+    return newId;
+  }
+
+  draft.folders[newId] = copy as Folder;
+  childFolders.forEach(f => applyDuplicate(draft, f.id, newId, notebookId, clientId, pageCopies));
+  childPages.forEach(p => applyDuplicate(draft, p.id, newId, notebookId, clientId, pageCopies));
+  return newId;
+};
+
+const copyPageFiles = (pageCopies: [string, string][]) => {
+  pageCopies.forEach(([sourceId, copyId]) => {
+    opfs.loadFile(`page-${sourceId}.tldr`).then(content => {
+      if (content) opfs.saveFile(`page-${copyId}.tldr`, content);
+    });
+  });
+};
+
+// Selecting a folder already selects what it holds, those ids would otherwise be moved or copied twice
+const withoutNestedIds = (ids: string[], folders: Record<string, Folder>, pages: Record<string, Page>) =>
+  ids.filter(id => {
+    let parentId = (folders[id] || pages[id])?.parentId;
+    while (parentId && folders[parentId]) {
+      if (ids.includes(parentId)) return false;
+      parentId = folders[parentId].parentId;
+    }
+    return true;
+  });
+
+// Marks every record the draft replaced dirty in one pass, remembering the previous ones for undo
+const commitDraft = (state: NodeDraft, draft: NodeDraft, clientId: string) => {
+  const undo: BulkRecords = { folders: {}, pages: {} };
+  const applied: BulkRecords = { folders: {}, pages: {} };
+  const folders = { ...draft.folders };
+  const pages = { ...draft.pages };
+  Object.entries(draft.folders).forEach(([id, folder]) => {
+    if (state.folders[id] === folder) return;
+    undo.folders[id] = state.folders[id];
+    folders[id] = applied.folders[id] = { ...folder, dirty: true, lastModifier: clientId };
+  });
+  Object.entries(draft.pages).forEach(([id, page]) => {
+    if (state.pages[id] === page) return;
+    undo.pages[id] = state.pages[id];
+    pages[id] = applied.pages[id] = { ...page, dirty: true, lastModifier: clientId };
+  });
+  return { folders, pages, undo, applied };
+};
+
+// Pushing a record to the cloud rewrites these without changing what it holds
+const SYNC_BOOKKEEPING_FIELDS = new Set(['version', 'dirty', 'lastModifier', 'driveFileId', 'isPlaceholder']);
+
+const isSameContent = (a: Folder | Page | undefined, b: Folder | Page | undefined) => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const fields = (node: Folder | Page) =>
+    JSON.stringify(Object.entries(node).filter(([key]) => !SYNC_BOOKKEEPING_FIELDS.has(key)).sort(([x], [y]) => (x < y ? -1 : 1)));
+  return fields(a) === fields(b);
+};
+
+// Undo puts whole records back, so once anything else edited, purged or merged one of them it would revert that too
+const isBulkActionStale = (action: BulkAction, state: NodeDraft) =>
+  Object.entries(action.applied.folders).some(([id, folder]) => !isSameContent(folder, state.folders[id])) ||
+  Object.entries(action.applied.pages).some(([id, page]) => !isSameContent(page, state.pages[id]));
+
+// Templates become raw SVG markup, so ones from files or other devices are checked.
+// The same object comes back when there was nothing to fix.
+const withSafeTemplate = (page: Page): Page => {
+  const template = sanitizeTemplate(page.template);
+  return template === page.template ? page : { ...page, template };
+};
+
+const withSafeDefaultTemplate = (notebook: Notebook): Notebook => {
+  const defaultTemplate = sanitizeTemplate(notebook.defaultTemplate);
+  return defaultTemplate === notebook.defaultTemplate ? notebook : { ...notebook, defaultTemplate };
+};
+
+const markRestored = <T extends Notebook | Folder | Page>(node: T, clientId: string): T => {
+  const restored = { ...node, dirty: true, lastModifier: clientId };
+  delete restored.trashedAt;
+  return restored;
+};
+
+// Remote wins on a higher version, local dirty items are kept, tombstoned ids are dropped
+const mergeRecords = <T extends { version: number; dirty?: boolean }>(
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  deletedItemIds: string[]
+): { records: Record<string, T>; changed: boolean } => {
+  let changed = false;
+  const merged = { ...local };
+
+  Object.entries(remote).forEach(([id, r]) => {
+    const l = local[id];
+    if (!l || r.version > l.version) {
+      merged[id] = r;
+      changed = true;
+    }
+  });
+
+  const records: Record<string, T> = {};
+  Object.entries(merged).forEach(([id, item]) => {
+    if (!deletedItemIds.includes(id)) records[id] = item;
+    else changed = true;
+  });
+  return { records, changed };
+};
 
 
 interface FileSystemState {
   notebooks: Notebook[];
   folders: Record<string, Folder>; // Keyed by ID
   pages: Record<string, Page>; // Keyed by ID
+  tags: Record<string, Tag>; // Keyed by ID
+  smartFolders: Record<string, SmartFolder>; // Keyed by ID
 
   activeNotebookId: string | null;
   activePath: string[]; // Array of IDs starting from notebook -> folder -> subfolder
@@ -26,7 +349,9 @@ interface FileSystemState {
   penMode: boolean;
   language: 'en' | 'es' | 'fr' | 'de' | 'pt' | 'zh' | 'ja' | 'ko' | 'ar' | 'ca' | 'gl' | 'eu' | 'ru' | 'it' | 'nl' | 'sv' | 'pl' | 'tr';
   deletedItemIds: string[]; // Tombstones for sync
+  trashRetentionDays: number; // Trashed items older than this are purged (and tombstoned)
   lastSelfPushedVersions: Record<string, number>; // { pageId: version }
+  recentPageIds: string[]; // Most recently opened first, kept per device (never synced)
 
   // Actions
   toggleSidebar: () => void;
@@ -45,14 +370,35 @@ interface FileSystemState {
   closeFolder: (id: string) => void; // Removes from path (and children)
   selectPage: (id: string) => void;
   renameNode: (id: string, name: string, strokes?: string, color?: string) => void;
+  setPageTemplate: (pageId: string, template: PageTemplate) => void;
+  setNotebookDefaultTemplate: (notebookId: string, template: PageTemplate) => void;
+  setNotebookPalette: (notebookId: string, palette: string[]) => void;
+
+  // Tags and smart folders are renamed with renameNode like any other node
+  createTag: (name: string) => string;
+  deleteTag: (id: string) => void;
+  setPageTags: (pageId: string, tagIds: string[]) => void;
+  togglePagePin: (pageId: string) => void;
+  createSmartFolder: (name: string) => string;
+  setSmartFolderQuery: (id: string, query: SmartFolderQuery) => void;
+  deleteSmartFolder: (id: string) => void;
 
   deleteNotebook: (id: string) => void;
   deleteFolder: (id: string) => void;
   deletePage: (id: string) => void;
 
+  // Trash: delete* only mark nodes as trashed, purging is what creates tombstones
+  setTrashRetentionDays: (days: number) => void;
+  restoreFromTrash: (id: string) => void;
+  purgeFromTrash: (ids: string[]) => void;
+  emptyTrash: () => void;
+  purgeExpiredTrash: () => void;
+
   duplicateNotebook: (id: string) => void;
   duplicateFolder: (id: string, parentId?: string | null, notebookId?: string) => void;
   duplicatePage: (id: string, parentId?: string | null, notebookId?: string) => void;
+  restorePageRevision: (id: string, content: string, asCopy: boolean) => Promise<void>;
+  replacePageContent: (id: string, content: string) => Promise<void>;
 
   importNotebook: (data: any) => void;
   importFolder: (data: any, parentId?: string | null, notebookId?: string) => void;
@@ -64,6 +410,14 @@ interface FileSystemState {
   save: () => Promise<void>;
   reorderNotebooks: (activeId: string, overId: string) => void;
   moveNode: (activeId: string, overId: string, isContainer?: boolean) => void;
+
+  // Bulk sidebar actions: one state update, one dirty pass and one save each, undone as a whole
+  lastBulkAction: BulkAction | null;
+  moveNodes: (ids: string[], overId: string, isContainer?: boolean) => void;
+  duplicateNodes: (ids: string[]) => void;
+  deleteNodes: (ids: string[]) => void;
+  setTagOnPages: (pageIds: string[], tagId: string, isTagged: boolean) => void;
+  undoBulkAction: () => void;
   markPageDirty: (pageId: string) => void;
 
   // Sync helpers
@@ -74,14 +428,20 @@ interface FileSystemState {
   forceSaveActivePage: (() => Promise<void>) | null;
   registerActivePageSaver: (saver: () => Promise<void>) => void;
   recordSelfPush: (pageId: string, version: number) => void;
+  clearDriveFileIds: () => void;
 }
 
 export const useFileSystemStore = create<FileSystemState>((set, get) => ({
   notebooks: [],
   folders: {},
   pages: {},
+  tags: {},
+  smartFolders: {},
   deletedItemIds: [],
   lastSelfPushedVersions: {},
+  recentPageIds: loadRecentPageIds(),
+  lastBulkAction: null,
+  trashRetentionDays: Number(localStorage.getItem(TRASH_RETENTION_KEY)) || 30,
 
   activeNotebookId: null,
   activePath: [],
@@ -105,6 +465,14 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       }
     }));
   },
+  clearDriveFileIds: () => {
+    const pages = Object.fromEntries(Object.entries(get().pages).map(([id, page]) => {
+      const { driveFileId: _driveFileId, ...rest } = page;
+      return [id, rest];
+    }));
+    set({ pages });
+    setTimeout(() => get().save(), 0);
+  },
 
   toggleSidebar: () => {
     const newState = !useFileSystemStore.getState().isSidebarOpen;
@@ -200,6 +568,7 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         version: 1,
         dirty: true,
         lastModifier: clientId,
+        template: state.notebooks.find(n => n.id === notebookId)?.defaultTemplate,
       };
       syncLog(`🔶 [FileSystem] Created page "${name}" (${newPage.id}) - dirty`);
 
@@ -274,12 +643,15 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
     }
 
     const clientId = useSyncStore.getState().clientId;
+    const recentPageIds = [id, ...state.recentPageIds.filter(pid => pid !== id)].slice(0, RECENT_PAGES_LIMIT);
+    localStorage.setItem(RECENT_PAGES_KEY, JSON.stringify(recentPageIds));
     set({
       activePageId: id,
       activeNotebookId: notebookId,
       activePath: path, // Array of folder IDs
       activeStateUpdatedAt: Date.now(),
-      activeStateModifier: clientId
+      activeStateModifier: clientId,
+      recentPageIds
     });
     diskLog(`💾 [FileSystem] Selected page "${page.name}" (${id})`);
     setTimeout(() => get().save(), 0);
@@ -292,6 +664,8 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       const notebooks = [...state.notebooks];
       const folders = { ...state.folders };
       const pages = { ...state.pages };
+      const tags = { ...state.tags };
+      const smartFolders = { ...state.smartFolders };
 
       const nbIdx = notebooks.findIndex(n => n.id === id);
       if (nbIdx !== -1) {
@@ -326,8 +700,28 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
           lastModifier: clientId
         };
       }
+      if (tags[id]) {
+        tags[id] = {
+          ...tags[id],
+          name,
+          nameStrokes: strokes,
+          ...(color !== undefined ? { color } : {}),
+          dirty: true,
+          lastModifier: clientId
+        };
+      }
+      if (smartFolders[id]) {
+        smartFolders[id] = {
+          ...smartFolders[id],
+          name,
+          nameStrokes: strokes,
+          ...(color !== undefined ? { color } : {}),
+          dirty: true,
+          lastModifier: clientId
+        };
+      }
 
-      const nextState = { notebooks, folders, pages };
+      const nextState = { notebooks, folders, pages, tags, smartFolders };
 
       // Log what was renamed
       if (nbIdx !== -1) {
@@ -336,6 +730,10 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         syncLog(`🔶 [FileSystem] Renamed folder "${name}" (${id}) - dirty`);
       } else if (pages[id]) {
         syncLog(`🔶 [FileSystem] Renamed page "${name}" (${id}) - dirty`);
+      } else if (tags[id]) {
+        syncLog(`🔶 [FileSystem] Renamed tag "${name}" (${id}) - dirty`);
+      } else if (smartFolders[id]) {
+        syncLog(`🔶 [FileSystem] Renamed smart folder "${name}" (${id}) - dirty`);
       }
 
       setTimeout(() => get().save(), 0);
@@ -343,96 +741,374 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
     });
   },
 
-  deleteNotebook: (id) => {
-    set((state) => {
-      const notebooks = state.notebooks.filter(n => n.id !== id);
-      const folders = { ...state.folders };
-      const pages = { ...state.pages };
+  setPageTemplate: (pageId, template) => {
+    const page = get().pages[pageId];
+    if (!page) return;
+    const clientId = useSyncStore.getState().clientId;
+    syncLog(`🔶 [FileSystem] Set template "${template.type}" on page "${page.name}" (${pageId}) - dirty`);
+    set(state => ({
+      pages: { ...state.pages, [pageId]: { ...page, template, dirty: true, lastModifier: clientId } }
+    }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  setNotebookDefaultTemplate: (notebookId, template) => {
+    const clientId = useSyncStore.getState().clientId;
+    syncLog(`🔶 [FileSystem] Set default template "${template.type}" on notebook ${notebookId} - dirty`);
+    set(state => ({
+      notebooks: state.notebooks.map(n => n.id === notebookId
+        ? { ...n, defaultTemplate: template, dirty: true, lastModifier: clientId }
+        : n)
+    }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  setNotebookPalette: (notebookId, palette) => {
+    const clientId = useSyncStore.getState().clientId;
+    syncLog(`🔶 [FileSystem] Set palette (${palette.length} colors) on notebook ${notebookId} - dirty`);
+    set(state => ({
+      notebooks: state.notebooks.map(n => n.id === notebookId
+        ? { ...n, palette, dirty: true, lastModifier: clientId }
+        : n)
+    }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  createTag: (name) => {
+    const clientId = useSyncStore.getState().clientId;
+    const newTag: Tag = {
+      id: uuidv4(),
+      name,
+      createdAt: Date.now(),
+      version: 1,
+      dirty: true,
+      lastModifier: clientId,
+    };
+    syncLog(`🔶 [FileSystem] Created tag "${name}" (${newTag.id}) - dirty`);
+    set(state => ({ tags: { ...state.tags, [newTag.id]: newTag } }));
+    setTimeout(() => get().save(), 0);
+    return newTag.id;
+  },
 
-      // Recursive delete: find all folders and pages belonging to this notebook
-      const deletedIds: string[] = [id]; // Start with notebook ID
+  // Tags skip the Trash, the tombstone also removes them from pages and smart folders on other devices
+  deleteTag: (id) => {
+    const clientId = useSyncStore.getState().clientId;
+    set((state) => {
+      if (!state.tags[id]) return {};
+      const tags = { ...state.tags };
+      delete tags[id];
 
-      Object.keys(folders).forEach(fid => {
-        if (folders[fid].notebookId === id) {
-          delete folders[fid];
-          deletedIds.push(fid);
+      const pages = { ...state.pages };
+      Object.values(pages).forEach(p => {
+        if (p.tagIds?.includes(id)) {
+          pages[p.id] = { ...p, tagIds: p.tagIds.filter(tid => tid !== id), dirty: true, lastModifier: clientId };
         }
       });
-      Object.keys(pages).forEach(pid => {
-        if (pages[pid].notebookId === id) {
-          delete pages[pid];
-          deletedIds.push(pid);
+
+      const smartFolders = { ...state.smartFolders };
+      Object.values(smartFolders).forEach(sf => {
+        if (sf.query.tagIds.includes(id)) {
+          smartFolders[sf.id] = {
+            ...sf,
+            query: { ...sf.query, tagIds: sf.query.tagIds.filter(tid => tid !== id) },
+            dirty: true,
+            lastModifier: clientId
+          };
         }
       });
 
+      syncLog(`☁️ [FileSystem] Deleted tag (${id}) - tombstoned`);
+      setTimeout(() => get().save(), 0);
+      return { tags, pages, smartFolders, deletedItemIds: [...(state.deletedItemIds || []), id] };
+    });
+  },
+
+  setPageTags: (pageId, tagIds) => {
+    const page = get().pages[pageId];
+    if (!page) return;
+    const clientId = useSyncStore.getState().clientId;
+    syncLog(`🔶 [FileSystem] Set ${tagIds.length} tags on page "${page.name}" (${pageId}) - dirty`);
+    set(state => ({
+      pages: { ...state.pages, [pageId]: { ...page, tagIds, dirty: true, lastModifier: clientId } }
+    }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  togglePagePin: (pageId) => {
+    const page = get().pages[pageId];
+    if (!page) return;
+    const clientId = useSyncStore.getState().clientId;
+    const updated: Page = { ...page, dirty: true, lastModifier: clientId };
+    if (page.pinnedAt) delete updated.pinnedAt;
+    else updated.pinnedAt = Date.now();
+    syncLog(`🔶 [FileSystem] ${page.pinnedAt ? 'Unpinned' : 'Pinned'} page "${page.name}" (${pageId}) - dirty`);
+    set(state => ({ pages: { ...state.pages, [pageId]: updated } }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  createSmartFolder: (name) => {
+    const clientId = useSyncStore.getState().clientId;
+    const smartFolders = Object.values(get().smartFolders);
+    const maxOrder = smartFolders.length > 0 ? Math.max(...smartFolders.map(sf => sf.order || 0)) : 0;
+    const newSmartFolder: SmartFolder = {
+      id: uuidv4(),
+      name,
+      query: DEFAULT_SMART_FOLDER_QUERY,
+      createdAt: Date.now(),
+      order: maxOrder + 10000,
+      version: 1,
+      dirty: true,
+      lastModifier: clientId,
+    };
+    syncLog(`🔶 [FileSystem] Created smart folder "${name}" (${newSmartFolder.id}) - dirty`);
+    set(state => ({ smartFolders: { ...state.smartFolders, [newSmartFolder.id]: newSmartFolder } }));
+    setTimeout(() => get().save(), 0);
+    return newSmartFolder.id;
+  },
+
+  setSmartFolderQuery: (id, query) => {
+    const smartFolder = get().smartFolders[id];
+    if (!smartFolder) return;
+    const clientId = useSyncStore.getState().clientId;
+    syncLog(`🔶 [FileSystem] Set query on smart folder "${smartFolder.name}" (${id}) - dirty`);
+    set(state => ({
+      smartFolders: { ...state.smartFolders, [id]: { ...smartFolder, query, dirty: true, lastModifier: clientId } }
+    }));
+    setTimeout(() => get().save(), 0);
+  },
+
+  // Only the saved query goes away, the pages it listed stay where they are
+  deleteSmartFolder: (id) => {
+    set((state) => {
+      if (!state.smartFolders[id]) return {};
+      const smartFolders = { ...state.smartFolders };
+      delete smartFolders[id];
+      syncLog(`☁️ [FileSystem] Deleted smart folder (${id}) - tombstoned`);
+      setTimeout(() => get().save(), 0);
+      return { smartFolders, deletedItemIds: [...(state.deletedItemIds || []), id] };
+    });
+  },
+
+  deleteNotebook: (id) => {
+    const clientId = useSyncStore.getState().clientId;
+    set((state) => {
+      const notebooks = state.notebooks.map(n => n.id === id ? markTrashed(n, clientId) : n);
+
       const activeNotebookId = state.activeNotebookId === id ? null : state.activeNotebookId;
       const activePath = state.activeNotebookId === id ? [] : state.activePath;
-      const activePageId = (state.activePageId && !pages[state.activePageId]) ? null : state.activePageId;
+      const activePageId = state.activeNotebookId === id ? null : state.activePageId;
 
-      // Add to tombstones
-      const deletedItemIds = [...(state.deletedItemIds || []), ...deletedIds];
-
-      syncLog(`☁️ [FileSystem] Deleted notebook (${id}) and ${deletedIds.length - 1} child items. Total tombstones: ${deletedItemIds.length}`);
+      syncLog(`🔶 [FileSystem] Moved notebook (${id}) to trash - dirty`);
       setTimeout(() => get().save(), 0);
-      return { notebooks, folders, pages, activeNotebookId, activePath, activePageId, deletedItemIds };
+      return { notebooks, activeNotebookId, activePath, activePageId };
     });
   },
 
   deleteFolder: (id) => {
+    const clientId = useSyncStore.getState().clientId;
+    set((state) => {
+      if (!state.folders[id]) return {};
+      const folders = { ...state.folders, [id]: markTrashed(state.folders[id], clientId) };
+
+      // If active path contains this folder or its children, truncate it
+      const folderIdx = state.activePath.indexOf(id);
+      const activePath = folderIdx !== -1 ? state.activePath.slice(0, folderIdx) : state.activePath;
+      const activePage = state.activePageId ? state.pages[state.activePageId] : undefined;
+      const activePageId = isInTrash(activePage, state.notebooks, folders) ? null : state.activePageId;
+
+      syncLog(`🔶 [FileSystem] Moved folder (${id}) to trash - dirty`);
+      setTimeout(() => get().save(), 0);
+      return { folders, activePath, activePageId };
+    });
+  },
+
+  deletePage: (id) => {
+    const clientId = useSyncStore.getState().clientId;
+    set((state) => {
+      if (!state.pages[id]) return {};
+      const pages = { ...state.pages, [id]: markTrashed(state.pages[id], clientId) };
+      const activePageId = state.activePageId === id ? null : state.activePageId;
+
+      syncLog(`🔶 [FileSystem] Moved page (${id}) to trash - dirty`);
+      setTimeout(() => get().save(), 0);
+      return { pages, activePageId };
+    });
+  },
+
+  setTrashRetentionDays: (days) => {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+    set({ trashRetentionDays: days });
+    get().purgeExpiredTrash();
+  },
+
+  restoreFromTrash: (id) => {
+    const clientId = useSyncStore.getState().clientId;
     set((state) => {
+      const notebooks = [...state.notebooks];
       const folders = { ...state.folders };
       const pages = { ...state.pages };
 
-      const deletedIds: string[] = [id]; // Start with folder ID
+      const notebookIdx = notebooks.findIndex(n => n.id === id);
+      if (notebookIdx !== -1) {
+        notebooks[notebookIdx] = markRestored(notebooks[notebookIdx], clientId);
+        syncLog(`🔶 [FileSystem] Restored notebook (${id}) from trash - dirty`);
+        setTimeout(() => get().save(), 0);
+        return { notebooks };
+      }
+
+      const node: Folder | Page | undefined = folders[id] || pages[id];
+      if (!node) return {};
+      const isFolder = !!folders[id];
+
+      // Original notebook gone: fall back to the first notebook still alive
+      let notebookId = node.notebookId;
+      const notebook = notebooks.find(n => n.id === notebookId);
+      if (!notebook || notebook.trashedAt) {
+        const fallback = notebooks.find(n => !n.trashedAt);
+        if (fallback) {
+          notebookId = fallback.id;
+        } else if (notebook) {
+          // Nothing else to restore into, bring the original notebook back too
+          notebooks[notebooks.indexOf(notebook)] = markRestored(notebook, clientId);
+        } else {
+          console.warn(`[FileSystem] Cannot restore ${id}: no notebook available`);
+          return {};
+        }
+      }
+
+      // Original parent gone (purged or still in the trash): restore to the notebook root
+      let parentId = node.parentId;
+      const parentFolder = parentId ? folders[parentId] : undefined;
+      const parentIsAlive = notebookId === node.notebookId && (
+        parentId === notebookId || (parentFolder && !isInTrash(parentFolder, notebooks, folders))
+      );
+      let order = node.order;
+      if (!parentIsAlive) {
+        parentId = notebookId;
+        const siblings = [
+          ...Object.values(folders).filter(f => f.parentId === parentId),
+          ...Object.values(pages).filter(p => p.parentId === parentId)
+        ];
+        order = (siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0) + 10000;
+      }
+
+      const restored = { ...markRestored(node, clientId), parentId: parentId as string, notebookId, order };
+      if (isFolder) folders[id] = restored as Folder;
+      else pages[id] = restored as Page;
+
+      // A folder that changed notebook takes its whole subtree along
+      if (isFolder && notebookId !== node.notebookId) {
+        const reassign = (folderId: string) => {
+          Object.values(pages).filter(p => p.parentId === folderId).forEach(p => {
+            pages[p.id] = { ...p, notebookId, dirty: true, lastModifier: clientId };
+          });
+          Object.values(folders).filter(f => f.parentId === folderId).forEach(f => {
+            folders[f.id] = { ...f, notebookId, dirty: true, lastModifier: clientId };
+            reassign(f.id);
+          });
+        };
+        reassign(id);
+      }
+
+      syncLog(`🔶 [FileSystem] Restored ${isFolder ? 'folder' : 'page'} (${id}) from trash into ${parentId} - dirty`);
+      setTimeout(() => get().save(), 0);
+      return { notebooks, folders, pages };
+    });
+  },
+
+  purgeFromTrash: (ids) => {
+    const state = get();
+    let notebooks = state.notebooks;
+    const folders = { ...state.folders };
+    const pages = { ...state.pages };
+    const deletedIds: string[] = [];
+
+    ids.forEach(id => {
+      if (notebooks.find(n => n.id === id)) {
+        notebooks = notebooks.filter(n => n.id !== id);
+        deletedIds.push(id);
+        Object.keys(folders).forEach(fid => {
+          if (folders[fid].notebookId === id) {
+            delete folders[fid];
+            deletedIds.push(fid);
+          }
+        });
+        Object.keys(pages).forEach(pid => {
+          if (pages[pid].notebookId === id) {
+            delete pages[pid];
+            deletedIds.push(pid);
+          }
+        });
+        return;
+      }
 
       const deleteRecursive = (folderId: string) => {
-        // Delete pages in this folder
         Object.keys(pages).forEach(pid => {
           if (pages[pid].parentId === folderId) {
             delete pages[pid];
             deletedIds.push(pid);
           }
         });
-        // Find subfolders
         Object.keys(folders).forEach(fid => {
-          if (folders[fid].parentId === folderId) {
-            deleteRecursive(fid);
-            // Folder ID added below when deleted
-          }
+          if (folders[fid]?.parentId === folderId) deleteRecursive(fid);
         });
         delete folders[folderId];
-        // Ensure folder itself is added if not root call (root call added at top)
-        if (folderId !== id) deletedIds.push(folderId);
+        deletedIds.push(folderId);
       };
 
-      deleteRecursive(id);
+      if (folders[id]) deleteRecursive(id);
+      else if (pages[id]) {
+        delete pages[id];
+        deletedIds.push(id);
+      }
+    });
 
-      // If active path contains this folder or its children, truncate it
-      const folderIdx = state.activePath.indexOf(id);
-      const activePath = folderIdx !== -1 ? state.activePath.slice(0, folderIdx) : state.activePath;
-      const activePageId = (state.activePageId && !pages[state.activePageId]) ? null : state.activePageId;
+    if (deletedIds.length === 0) return;
 
-      // Add to tombstones
-      const deletedItemIds = [...(state.deletedItemIds || []), ...deletedIds];
+    // Page files are only kept around while the page can still be restored
+    deletedIds.filter(did => state.pages[did]).forEach(pid => {
+      opfs.deleteFile(`page-${pid}.tldr`);
+      opfs.deleteFile(inkSidecarName(pid));
+      opfs.deleteFile(thumbnailDir(pid));
+      opfs.deleteFile(`history/${pid}`);
+      opfs.deleteFile(syncBaseDir(pid));
+    });
 
-      syncLog(`☁️ [FileSystem] Deleted folder (${id}) and ${deletedIds.length - 1} child items. Total tombstones: ${deletedItemIds.length}`);
-      setTimeout(() => get().save(), 0);
-      return { folders, pages, activePath, activePageId, deletedItemIds };
+    // Add to tombstones so other devices drop them too
+    const deletedItemIds = [...(state.deletedItemIds || []), ...deletedIds];
+    const activePageId = state.activePageId && !pages[state.activePageId] ? null : state.activePageId;
+    const isNotebookGone = state.activeNotebookId && !notebooks.find(n => n.id === state.activeNotebookId);
+
+    syncLog(`☁️ [FileSystem] Purged ${deletedIds.length} items from trash. Total tombstones: ${deletedItemIds.length}`);
+    set({
+      notebooks,
+      folders,
+      pages,
+      deletedItemIds,
+      activePageId,
+      ...(isNotebookGone ? { activeNotebookId: null, activePath: [] } : {})
     });
+    setTimeout(() => get().save(), 0);
   },
 
-  deletePage: (id) => {
-    set((state) => {
-      const pages = { ...state.pages };
-      delete pages[id];
-      const activePageId = state.activePageId === id ? null : state.activePageId;
-
-      const deletedItemIds = [...(state.deletedItemIds || []), id];
+  emptyTrash: () => {
+    const { notebooks, folders, pages } = get();
+    const trashedIds = [...notebooks, ...Object.values(folders), ...Object.values(pages)]
+      .filter(node => node.trashedAt)
+      .map(node => node.id);
+    get().purgeFromTrash(trashedIds);
+  },
 
-      syncLog(`☁️ [FileSystem] Deleted page (${id}). Total tombstones: ${deletedItemIds.length}`);
-      setTimeout(() => get().save(), 0);
-      return { pages, activePageId, deletedItemIds };
-    });
+  purgeExpiredTrash: () => {
+    const { notebooks, folders, pages, trashRetentionDays } = get();
+    const cutoff = Date.now() - trashRetentionDays * DAY_MS;
+    const expiredIds = [...notebooks, ...Object.values(folders), ...Object.values(pages)]
+      .filter(node => node.trashedAt && node.trashedAt < cutoff)
+      .map(node => node.id);
+    if (expiredIds.length > 0) {
+      syncLog(`🗑️ [FileSystem] ${expiredIds.length} trashed items expired after ${trashRetentionDays} days`);
+      get().purgeFromTrash(expiredIds);
+    }
   },
 
   duplicateNotebook: (id) => {
@@ -460,12 +1136,12 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
 
     // Duplicate all top-level items in this notebook
     Object.values(state.folders).forEach(f => {
-      if (f.notebookId === id && f.parentId === id) {
+      if (f.notebookId === id && f.parentId === id && !f.trashedAt) {
         get().duplicateFolder(f.id, newNotebookId, newNotebookId);
       }
     });
     Object.values(state.pages).forEach(p => {
-      if (p.notebookId === id && p.parentId === id) {
+      if (p.notebookId === id && p.parentId === id && !p.trashedAt) {
         get().duplicatePage(p.id, newNotebookId, newNotebookId);
       }
     });
@@ -478,47 +1154,12 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
     const folder = state.folders[id];
     if (!folder) return;
 
-    const clientId = useSyncStore.getState().clientId;
-    const targetParentId = parentId || folder.parentId;
-    const targetNotebookId = notebookId || folder.notebookId;
-
-    // Calculate order
-    const siblings = [
-      ...Object.values(state.folders).filter(f => f.parentId === targetParentId),
-      ...Object.values(state.pages).filter(p => p.parentId === targetParentId)
-    ];
-    const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
-
-    const newFolderId = uuidv4();
-    const newFolder: Folder = {
-      ...folder,
-      id: newFolderId,
-      name: folder.name,
-      parentId: targetParentId,
-      notebookId: targetNotebookId,
-      createdAt: Date.now(),
-      order: maxOrder + 10000,
-      version: 1,
-      dirty: true,
-      lastModifier: clientId,
-    };
-
-    set(state => ({
-      folders: { ...state.folders, [newFolderId]: newFolder }
-    }));
-
-    // Duplicate children
-    Object.values(state.folders).forEach(f => {
-      if (f.parentId === id) {
-        get().duplicateFolder(f.id, newFolderId, targetNotebookId);
-      }
-    });
-    Object.values(state.pages).forEach(p => {
-      if (p.parentId === id) {
-        get().duplicatePage(p.id, newFolderId, targetNotebookId);
-      }
-    });
+    const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+    const pageCopies: [string, string][] = [];
+    applyDuplicate(draft, id, parentId || folder.parentId, notebookId || folder.notebookId, useSyncStore.getState().clientId, pageCopies);
 
+    set(draft);
+    copyPageFiles(pageCopies);
     setTimeout(() => get().save(), 0);
   },
 
@@ -527,44 +1168,79 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
     const page = state.pages[id];
     if (!page) return;
 
+    const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+    const pageCopies: [string, string][] = [];
+    applyDuplicate(draft, id, parentId || page.parentId, notebookId || page.notebookId, useSyncStore.getState().clientId, pageCopies);
+
+    set(draft);
+    copyPageFiles(pageCopies);
+    setTimeout(() => get().save(), 0);
+  },
+
+  restorePageRevision: async (id, content, asCopy) => {
+    const page = get().pages[id];
+    if (!page) return;
     const clientId = useSyncStore.getState().clientId;
-    const targetParentId = parentId || page.parentId;
-    const targetNotebookId = notebookId || page.notebookId;
 
-    // Calculate order
-    const siblings = [
-      ...Object.values(state.folders).filter(f => f.parentId === targetParentId),
-      ...Object.values(state.pages).filter(p => p.parentId === targetParentId)
-    ];
-    const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
+    if (asCopy) {
+      const siblings = [
+        ...Object.values(get().folders).filter(f => f.parentId === page.parentId),
+        ...Object.values(get().pages).filter(p => p.parentId === page.parentId)
+      ];
+      const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
 
-    const newPageId = uuidv4();
-    const newPage: Page = {
-      ...page,
-      id: newPageId,
-      name: page.name,
-      parentId: targetParentId,
-      notebookId: targetNotebookId,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      order: maxOrder + 10000,
-      version: 1,
-      dirty: true,
-      lastModifier: clientId,
-    };
+      const newPageId = uuidv4();
+      const newPage: Page = {
+        ...page,
+        id: newPageId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        order: maxOrder + 10000,
+        version: 1,
+        dirty: true,
+        lastModifier: clientId,
+        // The copy isn't pinned along with the original
+        pinnedAt: undefined,
+      };
+      delete newPage.driveFileId;
 
-    set(state => ({
-      pages: { ...state.pages, [newPageId]: newPage }
-    }));
+      await opfs.saveFile(`page-${newPageId}.tldr`, content);
+      set(state => ({ pages: { ...state.pages, [newPageId]: newPage } }));
+      syncLog(`🔶 [FileSystem] Restored revision of "${page.name}" as new page (${newPageId}) - dirty`);
+      get().selectPage(newPageId);
+      return;
+    }
 
-    // Copy content in OPFS
-    opfs.loadFile(`page-${id}.tldr`).then(content => {
-      if (content) {
-        opfs.saveFile(`page-${newPageId}.tldr`, content);
-      }
-    });
+    await get().replacePageContent(id, content);
+  },
 
-    setTimeout(() => get().save(), 0);
+  replacePageContent: async (id, content) => {
+    const page = get().pages[id];
+    if (!page) return;
+    const clientId = useSyncStore.getState().clientId;
+
+    // Flush pending edits so the version being replaced ends up in the history too
+    if (get().activePageId === id) await get().forceSaveActivePage?.();
+    const current = await opfs.loadFile(`page-${id}.tldr`);
+    if (current && current !== '{}' && current !== content) await pageHistory.addRevision(id, current);
+
+    await opfs.saveFile(`page-${id}.tldr`, content);
+
+    // Version bump makes the canvas reload it and sync push it to other devices
+    set(state => ({
+      pages: {
+        ...state.pages,
+        [id]: {
+          ...state.pages[id],
+          version: (state.pages[id].version || 0) + 1,
+          dirty: true,
+          updatedAt: Date.now(),
+          lastModifier: clientId
+        }
+      }
+    }));
+    syncLog(`🔶 [FileSystem] Replaced content of page "${page.name}" (${id}) - dirty`);
+    get().save();
   },
 
   importNotebook: (data) => {
@@ -574,8 +1250,10 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
 
     // We expect data to have { notebook, folders: [], pages: [] } or just notebook
     const notebookData = data.notebook || data;
+    const safeNotebook = withSafeDefaultTemplate(notebookData);
+    if (safeNotebook !== notebookData) warnSanitizedContent();
     const newNotebook: Notebook = {
-      ...notebookData,
+      ...safeNotebook,
       id: newNotebookId,
       createdAt: Date.now(),
       order: maxOrder + 10000,
@@ -697,8 +1375,10 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
 
     const newPageId = uuidv4();
     const pageData = data.page || data;
+    const safePage = withSafeTemplate(pageData);
+    if (safePage !== pageData) warnSanitizedContent();
     const newPage: Page = {
-      ...pageData,
+      ...safePage,
       id: newPageId,
       parentId: targetParentId,
       notebookId: targetNotebookId,
@@ -714,9 +1394,14 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       pages: { ...state.pages, [newPageId]: newPage }
     }));
 
-    // Save content if provided
+    // Save content if provided, never trusting the markup of a shared file
     if (data.content) {
-      opfs.saveFile(`page-${newPageId}.tldr`, typeof data.content === 'string' ? data.content : JSON.stringify(data.content));
+      const { content, removed } = sanitizePageContent(typeof data.content === 'string' ? data.content : JSON.stringify(data.content));
+      if (removed > 0) {
+        syncLog(`🔶 [FileSystem] Removed ${removed} unsafe items from imported page "${newPage.name}"`);
+        warnSanitizedContent();
+      }
+      opfs.saveFile(`page-${newPageId}.tldr`, content);
     } else {
       opfs.saveFile(`page-${newPageId}.tldr`, '{}');
     }
@@ -754,134 +1439,117 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
 
   moveNode: (activeId, overId, isContainer = false) => {
     set((state) => {
-      const folders = { ...state.folders };
-      const pages = { ...state.pages };
-
-      // Helper to update notebookId recursively
-      const recursiveUpdateNotebookId = (folderId: string, newNotebookId: string) => {
-        // Update subfolders
-        Object.keys(folders).forEach(fid => {
-          if (folders[fid].parentId === folderId) {
-            folders[fid] = { ...folders[fid], notebookId: newNotebookId };
-            recursiveUpdateNotebookId(fid, newNotebookId); // Recurse
-          }
-        });
-        // Update pages
-        Object.keys(pages).forEach(pid => {
-          if (pages[pid].parentId === folderId) {
-            pages[pid] = { ...pages[pid], notebookId: newNotebookId };
-          }
-        });
-      };
-
-
-      // 0. Security check: Cannot move an item to itself or its descendants
-      if (activeId === overId) return {};
-
-      // Helper to check for descendants in state
-      const isNodeDescendant = (childId: string, ancestorId: string): boolean => {
-        let current = folders[childId] || pages[childId];
-        while (current && current.parentId) {
-          if (current.parentId === ancestorId) return true;
-          current = folders[current.parentId];
-        }
-        return false;
-      };
-
-      if (isNodeDescendant(overId, activeId)) {
-        syncLog(`🚫 [FileSystem] Blocked circular move: cannot move "${activeId}" into its descendant "${overId}"`);
-        return {};
-      }
-
-      // 1. Identify what is being moved
-      const activeItem = folders[activeId] || pages[activeId];
-      if (!activeItem) return {};
-
-      let targetParentId: string | null = null;
-      let targetNotebookId = "";
-      let newOrder = 0;
+      const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+      if (!applyMove(draft, state.notebooks, activeId, overId, isContainer, useSyncStore.getState().clientId)) return {};
 
-      // 2. Determine Target Parent and Order based on isContainer
-      if (isContainer) {
-        // Explicit drop into a container (Folder or Notebook)
-        targetParentId = overId;
-
-        const folderContainer = folders[overId];
-        const notebookContainer = state.notebooks.find(n => n.id === overId);
-
-        if (folderContainer) {
-          targetNotebookId = folderContainer.notebookId;
-        } else if (notebookContainer) {
-          targetNotebookId = notebookContainer.id;
-        } else {
-          return {}; // Unknown container
-        }
-
-        // Append to end: Find max order of active siblings in this container
-        const siblings = [
-          ...Object.values(folders).filter(f => f.parentId === targetParentId),
-          ...Object.values(pages).filter(p => p.parentId === targetParentId)
-        ];
-        const maxOrder = siblings.length > 0 ? Math.max(...siblings.map(s => s.order || 0)) : 0;
-        newOrder = maxOrder + 10000;
+      setTimeout(() => get().save(), 0);
+      return draft;
+    });
+  },
 
-      } else {
-        // Dropped on an item (Reorder relative to it)
-        const overItem = folders[overId] || pages[overId];
-        if (!overItem) return {};
+  moveNodes: (ids, overId, isContainer = false) => {
+    const state = get();
+    const clientId = useSyncStore.getState().clientId;
+    const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+    const moved = withoutNestedIds(ids, state.folders, state.pages)
+      .filter(id => applyMove(draft, state.notebooks, id, overId, isContainer, clientId));
+    if (moved.length === 0) return;
+
+    const { folders, pages, undo, applied } = commitDraft(state, draft, clientId);
+    syncLog(`🔶 [FileSystem] Moved ${moved.length} items - dirty`);
+    set({ folders, pages, lastBulkAction: { kind: 'move', count: moved.length, undo, applied } });
+    setTimeout(() => get().save(), 0);
+  },
 
-        targetParentId = overItem.parentId;
-        targetNotebookId = overItem.notebookId;
+  // Copies land next to their originals, like duplicating one item at a time
+  duplicateNodes: (ids) => {
+    const state = get();
+    const clientId = useSyncStore.getState().clientId;
+    const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+    const pageCopies: [string, string][] = [];
+    const copied = withoutNestedIds(ids, state.folders, state.pages).filter(id => {
+      const node = state.folders[id] || state.pages[id];
+      return node && applyDuplicate(draft, id, node.parentId, node.notebookId, clientId, pageCopies);
+    });
+    if (copied.length === 0) return;
 
-        // Get siblings of target
-        const siblings = [
-          ...Object.values(folders).filter(f => f.parentId === targetParentId),
-          ...Object.values(pages).filter(p => p.parentId === targetParentId)
-        ].sort((a, b) => (a.order || 0) - (b.order || 0));
+    const { folders, pages, undo, applied } = commitDraft(state, draft, clientId);
+    syncLog(`🔶 [FileSystem] Duplicated ${copied.length} items - dirty`);
+    set({ folders, pages, lastBulkAction: { kind: 'duplicate', count: copied.length, undo, applied } });
+    copyPageFiles(pageCopies);
+    setTimeout(() => get().save(), 0);
+  },
 
-        // Find index where we want to insert (before overItem)
-        const overIndex = siblings.findIndex(s => s.id === overId);
-        if (overIndex === -1) return {};
+  deleteNodes: (ids) => {
+    const state = get();
+    const clientId = useSyncStore.getState().clientId;
+    const draft = { folders: { ...state.folders }, pages: { ...state.pages } };
+    const trashed = ids.filter(id => {
+      if (draft.folders[id]) draft.folders[id] = markTrashed(draft.folders[id], clientId);
+      else if (draft.pages[id]) draft.pages[id] = markTrashed(draft.pages[id], clientId);
+      else return false;
+      return true;
+    });
+    if (trashed.length === 0) return;
 
-        // Calculate new order. 
-        const prevItem = siblings[overIndex - 1];
-        const nextItem = siblings[overIndex]; // This is overItem
+    const { folders, pages, undo, applied } = commitDraft(state, draft, clientId);
 
-        const prevOrder = prevItem ? (prevItem.order || 0) : 0;
-        const nextOrder = nextItem.order || 0;
+    // Same as deleting one by one: leave the trashed folders and close a trashed page
+    const trashedIdx = state.activePath.findIndex(fid => folders[fid]?.trashedAt);
+    const activePath = trashedIdx !== -1 ? state.activePath.slice(0, trashedIdx) : state.activePath;
+    const activePage = state.activePageId ? pages[state.activePageId] : undefined;
+    const activePageId = isInTrash(activePage, state.notebooks, folders) ? null : state.activePageId;
 
-        if (!prevItem) {
-          newOrder = nextOrder / 2;
-        } else {
-          newOrder = (prevOrder + nextOrder) / 2;
-        }
-      }
+    syncLog(`🔶 [FileSystem] Moved ${trashed.length} items to trash - dirty`);
+    set({ folders, pages, activePath, activePageId, lastBulkAction: { kind: 'delete', count: trashed.length, undo, applied } });
+    setTimeout(() => get().save(), 0);
+  },
 
-      // Update the moved item
-      const newItem = {
-        ...activeItem,
-        parentId: targetParentId,
-        notebookId: targetNotebookId,
-        order: newOrder,
-        dirty: true,
-        lastModifier: useSyncStore.getState().clientId
-      };
+  setTagOnPages: (pageIds, tagId, isTagged) => {
+    const state = get();
+    const clientId = useSyncStore.getState().clientId;
+    const draft = { folders: state.folders, pages: { ...state.pages } };
+    pageIds.forEach(id => {
+      const page = draft.pages[id];
+      if (!page || (page.tagIds || []).includes(tagId) === isTagged) return;
+      const tagIds = isTagged ? [...(page.tagIds || []), tagId] : (page.tagIds || []).filter(tid => tid !== tagId);
+      draft.pages[id] = { ...page, tagIds };
+    });
 
-      // If moving a folder to a new notebook, recursive update
-      if (folders[activeId] && newItem.notebookId !== activeItem.notebookId) {
-        recursiveUpdateNotebookId(activeId, newItem.notebookId);
-      }
+    const { folders, pages, undo, applied } = commitDraft(state, draft, clientId);
+    const count = Object.keys(undo.pages).length;
+    if (count === 0) return;
 
-      if (folders[activeId]) folders[activeId] = newItem as Folder;
-      if (pages[activeId]) pages[activeId] = newItem as Page;
+    syncLog(`🔶 [FileSystem] ${isTagged ? 'Added' : 'Removed'} tag (${tagId}) on ${count} pages - dirty`);
+    set({ folders, pages, lastBulkAction: { kind: 'tag', count, undo, applied } });
+    setTimeout(() => get().save(), 0);
+  },
 
-      const itemType = folders[activeId] ? 'folder' : 'page';
-      const itemName = newItem.name || activeId;
-      syncLog(`🔶 [FileSystem] Moved ${itemType} "${itemName}" - dirty`);
+  // Puts back every record the last bulk action touched; what it created goes away for good
+  undoBulkAction: () => {
+    const state = get();
+    const action = state.lastBulkAction;
+    if (!action) return;
 
-      setTimeout(() => get().save(), 0);
-      return { folders, pages };
+    const clientId = useSyncStore.getState().clientId;
+    const folders = { ...state.folders };
+    const pages = { ...state.pages };
+    const createdIds: string[] = [];
+
+    // Keep the current version, the record may have been pushed since the action ran
+    Object.entries(action.undo.folders).forEach(([id, previous]) => {
+      if (!previous) createdIds.push(id);
+      else folders[id] = { ...previous, version: folders[id]?.version ?? previous.version, dirty: true, lastModifier: clientId };
     });
+    Object.entries(action.undo.pages).forEach(([id, previous]) => {
+      if (!previous) createdIds.push(id);
+      else pages[id] = { ...previous, version: pages[id]?.version ?? previous.version, dirty: true, lastModifier: clientId };
+    });
+
+    syncLog(`🔶 [FileSystem] Undid ${action.kind} of ${action.count} items - dirty`);
+    set({ folders, pages, lastBulkAction: null });
+    if (createdIds.length > 0) get().purgeFromTrash(createdIds);
+    setTimeout(() => get().save(), 0);
   },
 
   markPageDirty: (pageId) => {
@@ -905,12 +1573,14 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
 
 
   save: async () => {
-    const { notebooks, folders, pages, activeNotebookId, activePath, activePageId, activeStateUpdatedAt, activeStateModifier } = get();
+    const { notebooks, folders, pages, tags, smartFolders, activeNotebookId, activePath, activePageId, activeStateUpdatedAt, activeStateModifier } = get();
     // Persist active state along with data
     const data = {
       notebooks,
       folders,
       pages,
+      tags,
+      smartFolders,
       activeNotebookId,
       deletedItemIds: get().deletedItemIds,
       activePath,
@@ -984,10 +1654,23 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
           };
         });
 
+        // Metadata from before tags existed has neither collection
+        const tags = { ...data.tags };
+        Object.keys(tags).forEach(id => {
+          tags[id] = { ...tags[id], version: tags[id].version || 1, dirty: !!tags[id].dirty };
+        });
+
+        const smartFolders = { ...data.smartFolders };
+        Object.keys(smartFolders).forEach(id => {
+          smartFolders[id] = { ...smartFolders[id], version: smartFolders[id].version || 1, dirty: !!smartFolders[id].dirty };
+        });
+
         set({
           notebooks,
           folders,
           pages,
+          tags,
+          smartFolders,
           deletedItemIds: data.deletedItemIds || [],
           // Restore active state
           activeNotebookId: data.activeNotebookId || null,
@@ -996,6 +1679,9 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
           activeStateUpdatedAt: data.activeStateUpdatedAt || 0,
           activeStateModifier: data.activeStateModifier || ''
         });
+
+        // Drop whatever outlived the trash retention period while the app was closed
+        get().purgeExpiredTrash();
       } catch (e) {
         console.error("Failed to parse metadata", e);
       }
@@ -1041,6 +1727,8 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         notebooks: [defaultNotebook],
         folders: {},
         pages: { [welcomePageId]: defaultPage },
+        tags: {},
+        smartFolders: {},
         deletedItemIds: [],
         activeNotebookId: welcomeNotebookId,
         activePageId: null, // Select only the notebook root, not the page
@@ -1059,11 +1747,19 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       notebooks: state.notebooks.map(n => ({ ...n, dirty: false })),
       folders: Object.fromEntries(Object.entries(state.folders).map(([id, f]) => [id, { ...f, dirty: false }])),
       pages: Object.fromEntries(Object.entries(state.pages).map(([id, p]) => [id, { ...p, dirty: false }])),
+      tags: Object.fromEntries(Object.entries(state.tags).map(([id, tag]) => [id, { ...tag, dirty: false }])),
+      smartFolders: Object.fromEntries(Object.entries(state.smartFolders).map(([id, sf]) => [id, { ...sf, dirty: false }])),
     }));
     get().save();
   },
 
   mergeRemoteData: (remoteData) => {
+    let removedUnsafe = false;
+    const checked = <T>(node: T, safe: T) => {
+      if (safe !== node) removedUnsafe = true;
+      return safe;
+    };
+
     set((state) => {
       // Helper to deduplicate items by ID, keeping the "best" one (most recent version or dirty)
       const deduplicate = <T extends Notebook | Folder | Page>(items: T[]): T[] => {
@@ -1091,7 +1787,7 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       const shouldUpdateActiveState = remoteActiveUpdatedAt > state.activeStateUpdatedAt;
 
       // 2. Notebooks: Merge and respect new local dirty ones
-      const remoteNotebooks = remoteData.notebooks || [];
+      const remoteNotebooks: Notebook[] = (remoteData.notebooks || []).map((rn: Notebook) => checked(rn, withSafeDefaultTemplate(rn)));
       const newLocalNotebooks = state.notebooks.filter(ln =>
         ln.dirty && !remoteNotebooks.find((rn: Notebook) => rn.id === ln.id)
       );
@@ -1153,7 +1849,7 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       Object.entries(remotePages).forEach(([id, rp]) => {
         const lp = state.pages[id];
         if (!lp || (rp as any).version > lp.version) {
-          pages[id] = rp as any;
+          pages[id] = checked(rp as Page, withSafeTemplate(rp as Page));
           pagesChanged = true;
         }
       });
@@ -1183,6 +1879,10 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         }
       });
 
+      // 5. Tags and smart folders: Plain metadata, no trash or active state to reconcile
+      const { records: tags, changed: tagsChanged } = mergeRecords(state.tags, remoteData.tags || {}, deletedItemIds);
+      const { records: smartFolders, changed: smartFoldersChanged } = mergeRecords(state.smartFolders, remoteData.smartFolders || {}, deletedItemIds);
+
       let nextActiveNotebookId = shouldUpdateActiveState ? remoteData.activeNotebookId : state.activeNotebookId;
       let nextActivePageId = shouldUpdateActiveState ? remoteData.activePageId : state.activePageId;
       let nextActivePath = shouldUpdateActiveState ? (remoteData.activePath || []) : state.activePath;
@@ -1196,14 +1896,23 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
       } else if (nextActivePageId && !finalPages[nextActivePageId]) {
         console.warn(`[FileSystem] Active page ${nextActivePageId} no longer exists. Deselecting.`);
         nextActivePageId = null;
+      } else if (nextActivePageId && isInTrash(finalPages[nextActivePageId], newNotebooks, finalFolders)) {
+        console.warn(`[FileSystem] Active page ${nextActivePageId} was moved to the trash. Deselecting.`);
+        nextActivePageId = null;
       }
 
+      // Trashing or restoring a notebook on another device keeps the notebook count intact
+      const notebooksTrashChanged = newNotebooks.some((n: Notebook) =>
+        n.trashedAt !== state.notebooks.find(ln => ln.id === n.id)?.trashedAt
+      );
+
       // Optimization: Only trigger state update if something actually changed
-      const stateChanged = foldersChanged || pagesChanged || 
+      const stateChanged = foldersChanged || pagesChanged || tagsChanged || smartFoldersChanged ||
         nextActiveNotebookId !== state.activeNotebookId ||
         nextActivePageId !== state.activePageId ||
         JSON.stringify(nextActivePath) !== JSON.stringify(state.activePath) ||
-        newNotebooks.length !== state.notebooks.length;
+        newNotebooks.length !== state.notebooks.length ||
+        notebooksTrashChanged;
 
       if (!stateChanged) {
         return {};
@@ -1213,6 +1922,8 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         notebooks: newNotebooks,
         folders: finalFolders,
         pages: finalPages,
+        tags,
+        smartFolders,
         deletedItemIds,
         activeNotebookId: nextActiveNotebookId,
         activePageId: nextActivePageId,
@@ -1221,6 +1932,15 @@ export const useFileSystemStore = create<FileSystemState>((set, get) => ({
         activeStateModifier: shouldUpdateActiveState ? (remoteData.activeStateModifier || '') : state.activeStateModifier
       };
     });
+    if (removedUnsafe) warnSanitizedContent();
     get().save();
   }
 }));
+
+// Drops the pending bulk undo as soon as a later change (an edit here, a purge, a sync merge) touches its records
+useFileSystemStore.subscribe((state, previous) => {
+  const action = state.lastBulkAction;
+  if (!action || action !== previous.lastBulkAction) return;
+  if (state.folders === previous.folders && state.pages === previous.pages) return;
+  if (isBulkActionStale(action, state)) useFileSystemStore.setState({ lastBulkAction: null });
+});
@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import { searchIndex } from '../lib/searchIndex';
+import type { SearchResult } from '../lib/searchIndex';
+import { useFileSystemStore } from './fileSystemStore';
+import { getLivePages } from '../lib/trashUtils';
+
+interface SearchState {
+  isOpen: boolean;
+  query: string;
+  results: SearchResult[];
+  isIndexing: boolean;
+  // Shapes the canvas should zoom to once their page has loaded
+  pendingFocus: { pageId: string; shapeIds: string[] } | null;
+
+  setOpen: (open: boolean) => void;
+  setQuery: (query: string) => void;
+  openResult: (result: SearchResult) => void;
+  clearPendingFocus: () => void;
+}
+
+export const useSearchStore = create<SearchState>((set, get) => ({
+  isOpen: false,
+  query: '',
+  results: [],
+  isIndexing: false,
+  pendingFocus: null,
+
+  setOpen: async (open) => {
+    set({ isOpen: open });
+    if (!open) return;
+
+    // Catch up with pages changed by sync or imports before searching
+    set({ isIndexing: true });
+    try {
+      await searchIndex.ensureIndexed(useFileSystemStore.getState().pages);
+    } catch (e) {
+      // Search whatever made it into the index rather than spinning forever
+      console.error('❌ [Search] Failed to update the index', e);
+    } finally {
+      set({ isIndexing: false });
+    }
+    get().setQuery(get().query);
+  },
+
+  setQuery: (query) => {
+    // Trashed pages stay indexed until purged but never show up in results
+    const { notebooks, folders, pages } = useFileSystemStore.getState();
+    set({ query, results: searchIndex.search(query, getLivePages(notebooks, folders, pages)) });
+  },
+
+  openResult: (result) => {
+    const { activePageId, selectPage } = useFileSystemStore.getState();
+    if (activePageId !== result.pageId) selectPage(result.pageId);
+    set({
+      isOpen: false,
+      pendingFocus: result.shapeIds.length > 0 ? { pageId: result.pageId, shapeIds: result.shapeIds } : null
+    });
+  },
+
+  clearPendingFocus: () => set({ pendingFocus: null })
+}));
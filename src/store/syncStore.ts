@@ -1,22 +1,123 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import { googleDrive } from '../lib/googleDrive';
+import { syncProviders, webdavProvider, withEncryption } from '../lib/syncProviders';
+import type { SyncProvider, SyncProviderId, WebDavConfig, RemoteChanges } from '../lib/syncProviders';
+import { syncCrypto, isEncrypted, KEY_FILE } from '../lib/syncCrypto';
+import type { KeyFile } from '../lib/syncCrypto';
 import { useFileSystemStore } from './fileSystemStore';
 import { opfs } from '../lib/opfs';
+import { pageHistory } from '../lib/pageHistory';
+import { mergeSnapshots, mergeValue, pickLocalWinner, applyConflictSide, syncBase } from '../lib/snapshotMerge';
+import type { ShapeConflict } from '../lib/snapshotMerge';
 import { toast } from 'sonner';
+import { sanitizePageContent, warnSanitizedContent } from '../lib/sanitizeHtml';
+import type { Page, SmartFolder, Tag } from '../types';
 
-export type SyncStatus = 'idle' | 'syncing' | 'error' | 'conflict' | 'saving-to-disk';
+export type SyncStatus = 'idle' | 'syncing' | 'error' | 'saving-to-disk';
+
+// 'locked': the remote is encrypted and this device doesn't have the key yet
+export type EncryptionState = 'off' | 'on' | 'locked';
+
+// Shapes edited differently on two devices. The merged page already holds the
+// deterministic winner, the user can still pick a side.
+export interface PageConflict {
+  pageId: string;
+  conflicts: ShapeConflict[];
+}
+
+// Fields owned by the sync process, never merged
+const SYNC_FIELDS = ['version', 'dirty', 'lastModifier', 'updatedAt', 'isPlaceholder', 'driveFileId'];
+
+// Change feed position after the last successful sync
+const CHANGE_CURSOR_KEY = 'cuaderno-sync-cursor';
+
+// Drive reports HTTP errors in result.error, WebDAV on the error itself
+type ProviderError = { status?: number; result?: { error?: { code?: number } } } | null | undefined;
+const errorStatus = (e: unknown) => (e as ProviderError)?.status ?? (e as ProviderError)?.result?.error?.code;
+const isNotFound = (e: unknown) => errorStatus(e) === 404;
+
+const loadKeyFile = async (provider: SyncProvider, rootId: string): Promise<{ id: string; keyFile: KeyFile } | null> => {
+  const file = await provider.findByName(KEY_FILE, rootId);
+  return file ? { id: file.id, keyFile: JSON.parse(await provider.get(file.id)) } : null;
+};
+
+const canDecrypt = async (key: CryptoKey, content: string) => {
+  try {
+    await syncCrypto.decrypt(key, content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rewrites every synced file with a new key (from plain text when fromKey is null).
+// Files that already open with the new key are skipped, so an interrupted run can be repeated.
+const reencryptRemote = async (provider: SyncProvider, rootId: string, fromKey: CryptoKey | null, toKey: CryptoKey) => {
+  const files = (await provider.list(rootId)).filter(file => file.name !== KEY_FILE);
+  for (const file of files) {
+    const raw = await provider.get(file.id);
+    if (isEncrypted(raw) && await canDecrypt(toKey, raw)) continue;
+    if (isEncrypted(raw) && !fromKey) throw new Error(`${file.name} is encrypted with an unknown key`);
+    const plain = isEncrypted(raw) ? await syncCrypto.decrypt(fromKey!, raw) : raw;
+    await provider.update(file.id, await syncCrypto.encrypt(toKey, plain));
+    console.log(`🔒 [Sync] Re-encrypted ${file.name}`);
+  }
+};
+
+const withoutSyncFields = (page: Page | undefined) => {
+  if (!page) return page;
+  const copy: Record<string, unknown> = { ...page };
+  SYNC_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+const parseSnapshot = (content: string | null) => {
+  try {
+    return content ? JSON.parse(content) : {};
+  } catch (e) {
+    console.error('[Sync] Invalid page content', e);
+    return {};
+  }
+};
+
+const savedProviderId = localStorage.getItem('cuaderno-sync-provider') as SyncProviderId | null;
+// The local mock remote only exists in development builds
+const storedProviderId: SyncProviderId = savedProviderId && (savedProviderId !== 'local' || import.meta.env.DEV) ? savedProviderId : 'google-drive';
+const WEBDAV_CONFIG_KEY = 'cuaderno-webdav-config';
+
+// Only the server and user name are stored, the password is asked again every session
+const loadWebDavConfig = (): Omit<WebDavConfig, 'password'> | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WEBDAV_CONFIG_KEY) || 'null');
+    if (!stored?.url) return null;
+    const config = { url: String(stored.url), username: String(stored.username || '') };
+    // Older builds saved the password as well
+    if ('password' in stored) localStorage.setItem(WEBDAV_CONFIG_KEY, JSON.stringify(config));
+    return config;
+  } catch (e) {
+    console.error('[Sync] Invalid WebDAV config', e);
+    localStorage.removeItem(WEBDAV_CONFIG_KEY);
+    return null;
+  }
+};
+
+const storedWebDavConfig = loadWebDavConfig();
+webdavProvider.configure(storedWebDavConfig && { ...storedWebDavConfig, password: '' });
 
 interface SyncState {
   clientId: string;
+  providerId: SyncProviderId; // Storage backend used by sync
   status: SyncStatus;
   lastSync: number | null;
   isEnabled: boolean;
-  isConfigured: boolean; // Has authorized Google Drive
-  isClientReady: boolean; // Is GAPI client loaded?
+  isConfigured: boolean; // Has connected to the sync provider
+  isClientReady: boolean; // Is the provider client (e.g. GAPI) loaded?
   error: string | null;
   rootFolderId: string | null;
-  conflicts: any | null; // Stores { localData, remoteData }
+  conflicts: PageConflict[] | null; // Pending same-shape conflicts, reviewed in ConflictModal
+  encryption: EncryptionState;
+  needsPassword: boolean; // WebDAV credentials of a past session, waiting for the password
   user: { name: string; photo: string } | null;
   expiresAt: number | null;
   isLoginDialogOpen: boolean;
@@ -35,21 +136,29 @@ interface SyncState {
   authenticate: (prompt?: 'consent' | 'select_account' | 'none') => Promise<void>;
   sync: (manual?: boolean) => Promise<void>;
   setupConnection: (token: string, silent?: boolean) => Promise<void>;
-  resolveConflict: (resolution: 'local' | 'remote') => Promise<void>;
+  connectProvider: (providerId: Exclude<SyncProviderId, 'google-drive'>, webdavConfig?: WebDavConfig) => Promise<boolean>;
+  unlockWebDav: (password: string) => Promise<boolean>;
+  resolveConflict: (pageId: string, resolution: 'merged' | 'local' | 'remote') => Promise<void>;
+  enableEncryption: (passphrase: string) => Promise<boolean>;
+  unlockEncryption: (passphrase: string) => Promise<boolean>;
+  changePassphrase: (current: string, next: string) => Promise<boolean>;
   logout: (deleteData?: boolean) => Promise<void>;
   checkTokenValidity: () => Promise<void>;
 }
 
 export const useSyncStore = create<SyncState>((set, get) => ({
   clientId: '',
+  providerId: storedProviderId,
   status: 'idle',
   lastSync: null,
   isEnabled: localStorage.getItem('cuaderno-sync-enabled') === 'true',
-  isConfigured: !!localStorage.getItem('cuaderno-drive-token'),
+  isConfigured: storedProviderId === 'google-drive' ? !!localStorage.getItem('cuaderno-drive-token') : !!localStorage.getItem('cuaderno-user-info'),
   isClientReady: false,
   error: null,
   rootFolderId: localStorage.getItem('cuaderno-drive-root-id'),
   conflicts: null,
+  encryption: syncCrypto.hasKey() ? 'on' : 'off',
+  needsPassword: storedProviderId === 'webdav' && !!storedWebDavConfig?.username,
   user: JSON.parse(localStorage.getItem('cuaderno-user-info') || 'null'),
   expiresAt: Number(localStorage.getItem('cuaderno-drive-expires-at')) || null,
   isLoginDialogOpen: false,
@@ -104,6 +213,7 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         toast.error('Session expired. Please log in again.');
       }
     }).then(async () => {
+      if (get().providerId !== 'google-drive') return;
       // Library is ready. Check if we have a stored token to restore session.
       const storedToken = localStorage.getItem('cuaderno-drive-token');
       // Always try to restore connection if we have a token, even if state says configured (optimistic)
@@ -112,10 +222,17 @@ export const useSyncStore = create<SyncState>((set, get) => ({
       }
       set({ isClientReady: true });
     });
+
+    // Self-hosted and local providers don't depend on the Google client libraries
+    if (get().providerId !== 'google-drive') {
+      set({ isClientReady: true });
+      if (get().isConfigured && get().isEnabled && !get().needsPassword) get().sync();
+    }
   },
 
   setupConnection: async (token: string, silent = false) => {
-    set({ isConfigured: true });
+    localStorage.setItem('cuaderno-sync-provider', 'google-drive');
+    set({ isConfigured: true, providerId: 'google-drive' });
     try {
       if (token) {
         await googleDrive.setToken(token);
@@ -141,7 +258,7 @@ export const useSyncStore = create<SyncState>((set, get) => ({
     } catch (e) {
       console.error('Failed to restore session or fetch user info', e);
       // If token expired, try silent refresh
-      if ((e as any).status === 401 || (e as any).result?.error?.code === 401) {
+      if (errorStatus(e) === 401) {
         console.warn('🔑 Token expired. Clearing session and attempting silent refresh...');
 
         // 1. Clear invalid session immediately so UI reflects "disconnected" (or pending)
@@ -165,6 +282,53 @@ export const useSyncStore = create<SyncState>((set, get) => ({
     }
   },
 
+  connectProvider: async (providerId, webdavConfig) => {
+    if (providerId === 'webdav') webdavProvider.configure(webdavConfig || null);
+
+    try {
+      // Reaching (or creating) the root folder proves the credentials work
+      const rootId = await syncProviders[providerId].ensureRoot(null);
+      const user = providerId === 'webdav'
+        ? { name: `${webdavConfig!.username}@${new URL(webdavConfig!.url).host}`, photo: '' }
+        : { name: 'Local test drive', photo: '' };
+
+      localStorage.setItem('cuaderno-sync-provider', providerId);
+      if (webdavConfig) localStorage.setItem(WEBDAV_CONFIG_KEY, JSON.stringify({ url: webdavConfig.url, username: webdavConfig.username }));
+      localStorage.setItem('cuaderno-drive-root-id', rootId);
+      localStorage.setItem('cuaderno-user-info', JSON.stringify(user));
+      set({ providerId, isConfigured: true, isClientReady: true, needsPassword: false, rootFolderId: rootId, user });
+
+      toast.success(`Connected to ${user.name}`);
+      get().sync(true);
+      return true;
+    } catch (e) {
+      console.error(`Failed to connect to ${providerId}`, e);
+      if (providerId === 'webdav') webdavProvider.configure(null);
+      toast.error('Connection failed: ' + ((e as Error).message || 'Network error'));
+      return false;
+    }
+  },
+
+  unlockWebDav: async (password) => {
+    const config = loadWebDavConfig();
+    if (!config) return false;
+    webdavProvider.configure({ ...config, password });
+
+    try {
+      // Reaching the root folder proves the password is right
+      const rootId = await webdavProvider.ensureRoot(get().rootFolderId);
+      localStorage.setItem('cuaderno-drive-root-id', rootId);
+      set({ needsPassword: false, rootFolderId: rootId });
+      get().sync(true);
+      return true;
+    } catch (e) {
+      console.error('Failed to unlock WebDAV', e);
+      webdavProvider.configure({ ...config, password: '' });
+      toast.error('Connection failed: ' + (e instanceof Error ? e.message : 'Network error'));
+      return false;
+    }
+  },
+
   authenticate: async (prompt: 'consent' | 'select_account' | 'none' = 'select_account') => {
     await googleDrive.authenticate(prompt);
   },
@@ -188,25 +352,32 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 
     if (!state.isConfigured || state.status !== 'idle') return;
     if (!state.isClientReady) return; // Silent return for auto-sync if not ready
+    if (state.needsPassword) {
+      if (manual) toast.error('Enter the WebDAV password in Settings to sync.');
+      return;
+    }
+    if (state.encryption === 'locked') {
+      if (manual) toast.error('Enter the encryption passphrase in Settings to sync.');
+      return;
+    }
 
-    // @ts-expect-error - GAPI types are incomplete
-    if (!gapi.client.drive) {
-      console.warn('[Sync] Drive API not loaded. Attempting re-initialization...');
+    const backend = syncProviders[state.providerId];
+    if (!backend.isReady()) {
+      console.warn('[Sync] Provider client not loaded. Attempting re-initialization...');
       try {
-        await get().initialize();
+        if (state.providerId === 'google-drive') await get().initialize();
         // Wait a bit just in case
         await new Promise(r => setTimeout(r, 1000));
 
         // Check again
-        // @ts-expect-error - GAPI types are incomplete
-        if (!gapi.client.drive) {
-          throw new Error('Drive API still not loaded after re-init');
+        if (!backend.isReady()) {
+          throw new Error('Provider client still not loaded after re-init');
         }
-        console.log('[Sync] Drive API recovered successfully.');
+        console.log('[Sync] Provider client recovered successfully.');
       } catch (e: any) {
-        console.error('[Sync] Drive API initialization recovery failed:', e);
-        set({ status: 'error', error: 'Drive API not loaded' });
-        if (manual) toast.error('Sync failed: Drive API not loaded. Please try refreshing the page.');
+        console.error('[Sync] Provider initialization recovery failed:', e);
+        set({ status: 'error', error: 'Sync provider not loaded' });
+        if (manual) toast.error('Sync failed: storage provider not loaded. Please try refreshing the page.');
         return;
       }
     }
@@ -222,35 +393,101 @@ export const useSyncStore = create<SyncState>((set, get) => ({
       await fsStore.save();
 
       set({ status: 'syncing' });
+      const provider = withEncryption(backend, await syncCrypto.loadKey());
 
       // 1. Ensure Root Folder
-      let rootId = state.rootFolderId;
-
-      // Validate existing rootId
-      if (rootId) {
-        try {
-          await googleDrive.getFileMetadata(rootId);
-        } catch (e) {
-          console.warn('[Sync] Stale Root Folder ID detected (404/Trashed). Resetting...', e);
-          rootId = null;
-          set({ rootFolderId: null });
-          localStorage.removeItem('cuaderno-drive-root-id');
+      const rootId = await provider.ensureRoot(state.rootFolderId);
+      const isSameRoot = rootId === state.rootFolderId;
+      if (!isSameRoot) {
+        set({ rootFolderId: rootId });
+        localStorage.setItem('cuaderno-drive-root-id', rootId);
+      }
+
+      // 1b. Remote changes since the last sync. Without a cursor (first sync, provider
+      // without a change feed, expired token) we fall back to a full metadata diff.
+      const storedCursor = localStorage.getItem(CHANGE_CURSOR_KEY);
+      let delta: RemoteChanges | null = null;
+      let nextCursor: string | null = null;
+      try {
+        if (provider.listChanges && storedCursor && isSameRoot) {
+          delta = await provider.listChanges(storedCursor, rootId);
+          nextCursor = delta.cursor;
+          console.log(`[Sync] ${delta.files.length} remote files changed since last sync`);
+        } else if (provider.getChangeCursor) {
+          // Taken before reading anything, so changes made meanwhile show up next time
+          nextCursor = await provider.getChangeCursor();
         }
+      } catch (e) {
+        if (errorStatus(e) === 401) throw e;
+        console.warn('[Sync] Change feed unavailable, doing a full sync', e);
       }
 
-      if (!rootId) {
-        const existing = await googleDrive.findFileByName('Cuaderno');
-        if (existing) {
-          rootId = existing.id;
-        } else {
-          rootId = await googleDrive.createFolder('Cuaderno');
+      // 2. Fetch Remote Metadata, reusing our copy if nobody else wrote it since
+      let remoteMetaFile: { id: string } | null = null;
+      let remoteData: any = null;
+      let remoteMetaRevision: string | null = null;
+      const cachedMeta = delta ? await syncBase.loadMetadata() : null;
+      if (delta && cachedMeta) {
+        const metaChange = delta.files.find(f => f.id === cachedMeta.fileId);
+        if (!metaChange || (!!metaChange.revision && metaChange.revision === cachedMeta.revision)) {
+          console.log('[Sync] Remote metadata unchanged, using cached copy');
+          remoteMetaFile = { id: cachedMeta.fileId };
+          remoteData = cachedMeta.data;
+          remoteMetaRevision = cachedMeta.revision;
         }
-        set({ rootFolderId: rootId });
-        localStorage.setItem('cuaderno-drive-root-id', rootId || '');
       }
+      if (!remoteData) {
+        remoteMetaFile = await provider.findByName('metadata.json', rootId);
+        if (remoteMetaFile) {
+          remoteData = JSON.parse(await provider.get(remoteMetaFile.id));
+          remoteMetaRevision = delta?.files.find(f => f.id === remoteMetaFile!.id)?.revision || null;
+        }
+      }
+
+      // Page files are reached through their cached ID. Missing or stale IDs (e.g. the file
+      // was re-created on another device) fall back to a lookup by name.
+      const findPageFile = async (pageId: string) =>
+        await provider.findByName(`page-${pageId}.tldr`, rootId) || await provider.findByName(`${pageId}.json`, rootId);
+
+      // Every page that comes from the provider passes through here, so this is
+      // where markup written by someone else gets sanitized before it is stored
+      const readPage = async (id: string) => {
+        const { content, removed } = sanitizePageContent(await provider.get(id));
+        if (removed > 0) {
+          console.warn(`[Sync] Removed ${removed} unsafe items from remote file ${id}`);
+          warnSanitizedContent();
+        }
+        return { id, content };
+      };
+
+      const downloadPage = async (pageId: string, fileId?: string) => {
+        if (fileId) {
+          try {
+            return await readPage(fileId);
+          } catch (e) {
+            if (!isNotFound(e)) throw e;
+          }
+        }
+        const file = await findPageFile(pageId);
+        return file ? await readPage(file.id) : null;
+      };
 
-      // 2. Fetch Remote Metadata
-      const remoteMetaFile = await googleDrive.findFileByName('metadata.json', rootId || '');
+      const uploadPage = async (pageId: string, content: string, fileId?: string) => {
+        if (fileId) {
+          try {
+            await provider.update(fileId, content);
+            return fileId;
+          } catch (e) {
+            if (!isNotFound(e)) throw e;
+          }
+        }
+        const existing = await findPageFile(pageId);
+        if (existing) {
+          await provider.update(existing.id, content);
+          return existing.id;
+        }
+        return provider.create(`page-${pageId}.tldr`, content, rootId);
+      };
 
       // Helper to deduplicate local notebooks before processing
       const deduplicateItems = <T extends { id: string, version: number, dirty?: boolean }>(items: T[]): T[] => {
@@ -268,6 +505,8 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         notebooks: deduplicateItems(fsStore.notebooks),
         folders: fsStore.folders,
         pages: fsStore.pages,
+        tags: fsStore.tags,
+        smartFolders: fsStore.smartFolders,
         activeNotebookId: fsStore.activeNotebookId,
         activePath: fsStore.activePath,
         activePageId: fsStore.activePageId,
@@ -277,25 +516,19 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         clientId: state.clientId,
       }));
 
-      if (remoteMetaFile) {
-        // @ts-expect-error - GAPI types are incomplete for media downloads
-        const remoteContentResponse = await gapi.client.drive.files.get({
-          fileId: remoteMetaFile.id,
-          alt: 'media'
-        });
-        const remoteData = typeof remoteContentResponse.body === 'string' ? JSON.parse(remoteContentResponse.body) : (remoteContentResponse.result || remoteContentResponse.body);
+      if (remoteMetaFile && remoteData) {
 
         // 3. Conflict Detection & Granular Categorization
         // 3. Conflict Detection & Granular Categorization
-        const safePulls: { type: 'notebook' | 'folder' | 'page', id: string, version: number }[] = [];
-        const safePushes: { type: 'notebook' | 'folder' | 'page', id: string }[] = [];
-        const conflictsList: { type: 'notebook' | 'folder' | 'page', id: string, localVersion: number, remoteVersion: number }[] = [];
-        const localDeletions: { type: 'notebook' | 'folder' | 'page', id: string }[] = [];
+        const safePulls: { type: 'notebook' | 'folder' | 'page' | 'tag' | 'smartFolder', id: string, version: number }[] = [];
+        const safePushes: { type: 'notebook' | 'folder' | 'page' | 'tag' | 'smartFolder', id: string }[] = [];
+        const pageMerges: { id: string }[] = [];
+        const localDeletions: { type: 'notebook' | 'folder' | 'page' | 'tag' | 'smartFolder', id: string }[] = [];
 
         const hasRemoteData = (remoteData.notebooks?.length > 0) || (Object.keys(remoteData.pages || {}).length > 0);
 
         // Helper to categorize items
-        const checkItem = (type: 'notebook' | 'folder' | 'page', local: any, remote: any) => {
+        const checkItem = (type: 'notebook' | 'folder' | 'page' | 'tag' | 'smartFolder', local: any, remote: any) => {
           if (local.isPlaceholder) {
             // Special handling for Placeholders: Only delete if strictly untouched
             let keepPlaceholder = false;
@@ -352,9 +585,19 @@ export const useSyncStore = create<SyncState>((set, get) => ({
             const isDifferentModifier = remote.lastModifier !== state.clientId;
 
             if (isRemoteAhead && isLocalChanged && isDifferentModifier) {
-              // True Conflict: Both changed independently
-              console.log(`⚔️ [Sync] Conflict detected for ${type} ${local.id}: Local v${local.version} (dirty) vs Remote v${remote.version}`);
-              conflictsList.push({ type, id: local.id, localVersion: local.version, remoteVersion: remote.version });
+              // Both changed independently
+              if (type === 'page') {
+                console.log(`🔀 [Sync] Merge needed for page ${local.id}: Local v${local.version} (dirty) vs Remote v${remote.version}`);
+                pageMerges.push({ id: local.id });
+              } else if (pickLocalWinner(state.clientId, remote.lastModifier)) {
+                // Container metadata is tiny, the deterministic winner takes it whole
+                console.log(`⬆️ [Sync] ${type} ${local.id} changed on both sides, local wins: Local v${local.version} -> v${remote.version + 1}`);
+                local.version = remote.version;
+                safePushes.push({ type, id: local.id });
+              } else {
+                console.log(`⬇️ [Sync] ${type} ${local.id} changed on both sides, remote wins: Local v${local.version} -> Remote v${remote.version}`);
+                safePulls.push({ type, id: local.id, version: remote.version });
+              }
             } else if (isRemoteAhead) {
               // Remote moved ahead, we are clean
               console.log(`⬇️ [Sync] Safe Pull for ${type} ${local.id}: Local v${local.version} -> Remote v${remote.version}`);
@@ -385,6 +628,11 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         localData.notebooks.forEach((n: any) => checkItem('notebook', n, remoteData.notebooks.find((rn: any) => rn.id === n.id)));
         Object.values(localData.folders).forEach((f: any) => checkItem('folder', f, remoteData.folders[f.id]));
         Object.values(localData.pages).forEach((p: any) => checkItem('page', p, remoteData.pages[p.id]));
+        // Metadata written before tags existed has neither collection
+        remoteData.tags = remoteData.tags || {};
+        remoteData.smartFolders = remoteData.smartFolders || {};
+        Object.values<Tag>(localData.tags).forEach(tag => checkItem('tag', tag, remoteData.tags[tag.id]));
+        Object.values<SmartFolder>(localData.smartFolders).forEach(sf => checkItem('smartFolder', sf, remoteData.smartFolders[sf.id]));
 
         // Check for Remote-Only items (New items created elsewhere)
         // Notebooks
@@ -412,6 +660,17 @@ export const useSyncStore = create<SyncState>((set, get) => ({
             }
           }
         });
+        // Tags and smart folders
+        Object.values<Tag>(remoteData.tags).forEach(rt => {
+          if (!localData.tags[rt.id] && !localData.deletedItemIds.includes(rt.id)) {
+            safePulls.push({ type: 'tag', id: rt.id, version: rt.version });
+          }
+        });
+        Object.values<SmartFolder>(remoteData.smartFolders).forEach(rsf => {
+          if (!localData.smartFolders[rsf.id] && !localData.deletedItemIds.includes(rsf.id)) {
+            safePulls.push({ type: 'smartFolder', id: rsf.id, version: rsf.version });
+          }
+        });
 
         // 4. Tombstones (Deletions)
         const remoteTombstones = remoteData.deletedItemIds || [];
@@ -426,7 +685,7 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         console.log('\n📊 [Sync] Granular Analysis:');
         console.log(`  ⬇️ To Pull: ${safePulls.length} items`, safePulls.length > 0 ? JSON.stringify(safePulls) : '');
         console.log(`  ⬆️ To Push: ${safePushes.length} items`, safePushes.length > 0 ? JSON.stringify(safePushes) : '');
-        console.log(`  ⚔️ Conflicts: ${conflictsList.length} items`, conflictsList.length > 0 ? JSON.stringify(conflictsList) : '');
+        console.log(`  🔀 To Merge: ${pageMerges.length} pages`, pageMerges.length > 0 ? JSON.stringify(pageMerges) : '');
 
         // 5. AUTO-EXECUTION: Process Safe Pulls
         if (safePulls.length > 0) {
@@ -436,27 +695,21 @@ export const useSyncStore = create<SyncState>((set, get) => ({
           const pagesToPull = safePulls.filter(i => i.type === 'page');
           for (const item of pagesToPull) {
             const pageId = item.id;
-
-            // Safety check: ensure it wasn't flagged as conflict (logic above shouldn't allow this, but double check)
-            if (conflictsList.find(c => c.id === pageId)) continue;
-
             console.log(`[Sync] Downloading page ${pageId}...`);
-            const driveFile = await googleDrive.findFileByName(`page-${pageId}.tldr`, rootId!) || await googleDrive.findFileByName(`${pageId}.json`, rootId!);
+            const driveFile = await downloadPage(pageId, remoteData.pages[pageId].driveFileId);
 
             if (driveFile) {
-              // @ts-expect-error - GAPI types are incomplete for media downloads
-              const contentResponse = await gapi.client.drive.files.get({ fileId: driveFile.id, alt: 'media' });
-              const content = typeof contentResponse.body === 'string' ? contentResponse.body : JSON.stringify(contentResponse.result);
+              const { content } = driveFile;
+              remoteData.pages[pageId].driveFileId = driveFile.id;
+              await pageHistory.captureBeforeOverwrite(pageId, content);
               await opfs.saveFile(`page-${pageId}.tldr`, content);
+              await syncBase.save(pageId, remoteData.pages[pageId], content);
               console.log(`[Sync] Page ${pageId} saved to disk.`);
             }
           }
 
           // Apply Metadata Changes to localData immediately for Safe Pulls
           safePulls.forEach(p => {
-            // If it's a conflict, DO NOT overwrite local yet. Only safe ones.
-            if (conflictsList.find(c => c.id === p.id)) return;
-
             if (p.type === 'notebook') {
               const r = remoteData.notebooks.find((x: any) => x.id === p.id);
               const existingIdx = localData.notebooks.findIndex((x: any) => x.id === p.id);
@@ -466,6 +719,10 @@ export const useSyncStore = create<SyncState>((set, get) => ({
               localData.folders[p.id] = remoteData.folders[p.id];
             } else if (p.type === 'page') {
               localData.pages[p.id] = remoteData.pages[p.id];
+            } else if (p.type === 'tag') {
+              localData.tags[p.id] = remoteData.tags[p.id];
+            } else if (p.type === 'smartFolder') {
+              localData.smartFolders[p.id] = remoteData.smartFolders[p.id];
             }
           });
         }
@@ -487,6 +744,49 @@ export const useSyncStore = create<SyncState>((set, get) => ({
           });
         }
 
+        // 5b. AUTO-EXECUTION: Three-way merge of pages edited on both sides
+        const pageConflicts: PageConflict[] = [];
+        for (const item of pageMerges) {
+          const pageId = item.id;
+          const localPage = localData.pages[pageId];
+          const remotePage = remoteData.pages[pageId];
+          const driveFile = await downloadPage(pageId, remotePage.driveFileId || localPage.driveFileId);
+
+          if (!driveFile) {
+            // Nothing to merge with, our copy simply becomes the next version
+            localPage.version = remotePage.version;
+            safePushes.push({ type: 'page', id: pageId });
+            continue;
+          }
+
+          const remoteContent = driveFile.content;
+          const localContent = await opfs.loadFile(`page-${pageId}.tldr`);
+          const base = await syncBase.load(pageId);
+          const preferLocal = pickLocalWinner(state.clientId, remotePage.lastModifier);
+
+          const { snapshot, conflicts } = mergeSnapshots(base?.snapshot ?? null, parseSnapshot(localContent), parseSnapshot(remoteContent), preferLocal);
+          const mergedContent = JSON.stringify(snapshot);
+          const { value: mergedPage } = mergeValue(withoutSyncFields(base?.page), withoutSyncFields(localPage), withoutSyncFields(remotePage), preferLocal);
+
+          await pageHistory.captureBeforeOverwrite(pageId, mergedContent);
+          await opfs.saveFile(`page-${pageId}.tldr`, mergedContent);
+          await provider.update(driveFile.id, mergedContent);
+
+          // The version bump (not recorded as a self push) makes an open canvas reload the merge
+          localData.pages[pageId] = {
+            ...mergedPage,
+            version: remotePage.version + 1,
+            driveFileId: driveFile.id,
+            updatedAt: Math.max(localPage.updatedAt || 0, remotePage.updatedAt || 0),
+            dirty: false,
+            lastModifier: state.clientId
+          };
+          await syncBase.save(pageId, localData.pages[pageId], mergedContent);
+
+          console.log(`🔀 [Sync] Page ${pageId} merged (${conflicts.length} shape conflicts)`);
+          if (conflicts.length > 0) pageConflicts.push({ pageId, conflicts });
+        }
+
         // 6. AUTO-EXECUTION: Process Safe Pushes
         // We only push if we are NOT in a critical metadata conflict that prevents saving the manifest.
         // But since we are merging, we can attempt to push the files for our safe items.
@@ -496,17 +796,12 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 
           for (const item of pagesToPush) {
             const pageId = item.id;
-            // Safety check
-            if (conflictsList.find(c => c.id === pageId)) continue;
-
             const page = localData.pages[pageId];
             if (page && page.dirty) {
               console.log(`  📄 Uploading page "${page.name}" (${pageId})...`);
               const content = await opfs.loadFile(`page-${pageId}.tldr`);
               if (content) {
-                const existing = await googleDrive.findFileByName(`page-${pageId}.tldr`, rootId!) || await googleDrive.findFileByName(`${pageId}.json`, rootId!);
-                if (existing) await googleDrive.updateFile(existing.id, content);
-                else await googleDrive.createFile(`page-${pageId}.tldr`, content, 'application/json', rootId!);
+                localData.pages[pageId].driveFileId = await uploadPage(pageId, content, page.driveFileId);
 
                 // Update our local in-memory knowledge of what we just pushed, 
                 // so the final metadata merge reflects strictly verified state?
@@ -520,12 +815,13 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 
                 // Signal to the UI that WE authored this version (prevents unnecessary reload)
                 useFileSystemStore.getState().recordSelfPush(pageId, localData.pages[pageId].version);
+                await syncBase.save(pageId, localData.pages[pageId], content);
               }
             }
           }
 
           // Apply version bumps to safe Notebooks/Folders for the metadata push
-          safePushes.filter(i => i.type === 'notebook' && !conflictsList.find(c => c.id === i.id)).forEach(i => {
+          safePushes.filter(i => i.type === 'notebook').forEach(i => {
             const n = localData.notebooks.find((x: any) => x.id === i.id);
             if (n) {
               delete n.isPlaceholder; // Clear placeholder flag
@@ -534,7 +830,7 @@ export const useSyncStore = create<SyncState>((set, get) => ({
               n.lastModifier = state.clientId;
             }
           });
-          safePushes.filter(i => i.type === 'folder' && !conflictsList.find(c => c.id === i.id)).forEach(i => {
+          safePushes.filter(i => i.type === 'folder').forEach(i => {
             const f = localData.folders[i.id];
             if (f) {
               delete f.isPlaceholder; // Clear placeholder flag
@@ -543,128 +839,116 @@ export const useSyncStore = create<SyncState>((set, get) => ({
               f.lastModifier = state.clientId;
             }
           });
-        }
-
-        // 7. Finalize Merge & Metadata Update
-        if (conflictsList.length === 0) {
-          // No true conflicts. We can safely merge metadata and push the final result.
-          console.log('[Sync] Merging metadata and finalizing sync...');
-
-          // Apply remote changes to localData (This mimics "Pulling" the metadata)
-          // If we downloaded files, we need the metadata to match.
-          // For items that were Pushed, localData already has the bump.
-          // For items that were Pulled, we must copy over the remote info.
-
-          safePulls.forEach(p => {
-            if (p.type === 'notebook') {
-              const r = remoteData.notebooks.find((x: any) => x.id === p.id);
-              const existingIdx = localData.notebooks.findIndex((x: any) => x.id === p.id);
-              if (existingIdx >= 0) localData.notebooks[existingIdx] = r;
-              else localData.notebooks.push(r);
-            } else if (p.type === 'folder') {
-              localData.folders[p.id] = remoteData.folders[p.id];
-            } else if (p.type === 'page') {
-              localData.pages[p.id] = remoteData.pages[p.id];
+          safePushes.filter(i => i.type === 'tag' || i.type === 'smartFolder').forEach(i => {
+            const item = i.type === 'tag' ? localData.tags[i.id] : localData.smartFolders[i.id];
+            if (item) {
+              item.version += 1;
+              item.dirty = false;
+              item.lastModifier = state.clientId;
             }
           });
+        }
 
-          // Handle tombstones
-          if (remoteTombstones.length > 0) {
-            console.log('[Sync] Applying remote deletions to metadata...');
-            const tombstoneSet = new Set(remoteTombstones);
-            localData.notebooks = localData.notebooks.filter((n: any) => !tombstoneSet.has(n.id));
-
-
-            remoteTombstones.forEach((kid: string) => {
-              delete localData.folders[kid];
-              delete localData.pages[kid];
-            });
-
-            const localTombstones = localData.deletedItemIds || [];
-            console.log('[Sync] Debug - Merging Tombstones. Local:', localTombstones.length, 'Remote:', remoteTombstones.length);
-
-
-            // Merge unique IDs safely
-            localData.deletedItemIds = Array.from(new Set([...localTombstones, ...remoteTombstones]));
-            console.log('[Sync] Debug - Merged Result:', localData.deletedItemIds.length);
-          }
-
-          // Now localData implies the "Merged State".
-          // If we pushed anything, we need to upload this new metadata to remote.
-          // If we only pulled, we technically don't need to push metadata, but it doesn't hurt to sync active state.
-
-          // Clean dirty flags again just in case (for the upload)
-          const cleanData = JSON.parse(JSON.stringify(localData));
-          cleanData.notebooks.forEach((n: any) => delete n.dirty);
-          Object.values(cleanData.folders).forEach((f: any) => delete f.dirty);
-          Object.values(cleanData.pages).forEach((p: any) => delete p.dirty);
-
-          // Active State Sync logic (Last modifier wins) - Only if no conflicts
-          const localActiveUpdatedAt = fsStore.activeStateUpdatedAt || 0;
-          const remoteActiveUpdatedAt = remoteData.activeStateUpdatedAt || 0;
-
-          if (localActiveUpdatedAt > remoteActiveUpdatedAt) {
-            cleanData.activeNotebookId = fsStore.activeNotebookId;
-            cleanData.activePageId = fsStore.activePageId;
-            cleanData.activePath = fsStore.activePath;
-            cleanData.activeStateUpdatedAt = fsStore.activeStateUpdatedAt;
-            cleanData.activeStateModifier = state.clientId;
+        // 7. Finalize Merge & Metadata Update
+        // Every divergence has been merged by now, so we can push the final result.
+        console.log('[Sync] Merging metadata and finalizing sync...');
+
+        // Apply remote changes to localData (This mimics "Pulling" the metadata)
+        // If we downloaded files, we need the metadata to match.
+        // For items that were Pushed, localData already has the bump.
+        // For items that were Pulled, we must copy over the remote info.
+
+        safePulls.forEach(p => {
+          if (p.type === 'notebook') {
+            const r = remoteData.notebooks.find((x: any) => x.id === p.id);
+            const existingIdx = localData.notebooks.findIndex((x: any) => x.id === p.id);
+            if (existingIdx >= 0) localData.notebooks[existingIdx] = r;
+            else localData.notebooks.push(r);
+          } else if (p.type === 'folder') {
+            localData.folders[p.id] = remoteData.folders[p.id];
+          } else if (p.type === 'page') {
+            localData.pages[p.id] = remoteData.pages[p.id];
+          } else if (p.type === 'tag') {
+            localData.tags[p.id] = remoteData.tags[p.id];
+          } else if (p.type === 'smartFolder') {
+            localData.smartFolders[p.id] = remoteData.smartFolders[p.id];
           }
+        });
 
-          // PUSH Metadata if we made changes OR if we just want to update active state OR if deletions occurred
-          const hasNewDeletions = (localData.deletedItemIds || []).length > (remoteData.deletedItemIds || []).length;
+        // Handle tombstones
+        if (remoteTombstones.length > 0) {
+          console.log('[Sync] Applying remote deletions to metadata...');
+          const tombstoneSet = new Set(remoteTombstones);
+          localData.notebooks = localData.notebooks.filter((n: any) => !tombstoneSet.has(n.id));
 
-          if (safePushes.length > 0 || localActiveUpdatedAt > remoteActiveUpdatedAt || hasNewDeletions) {
-            console.log('[Sync] Pushing updated metadata to server...');
-            await googleDrive.updateFile(remoteMetaFile.id, JSON.stringify(cleanData));
-            console.log('[Sync] Metadata updated on server.');
-          }
 
-          console.log('[Sync] Committing to local store...');
-          // Commit to Local Store
-          fsStore.mergeRemoteData(localData);
-          set({ lastSync: Date.now(), status: 'idle' });
-          console.log('[Sync] Sync process finished successfully.');
-          if (manual) toast.success('Sync complete');
+          remoteTombstones.forEach((kid: string) => {
+            delete localData.folders[kid];
+            delete localData.pages[kid];
+            delete localData.tags[kid];
+            delete localData.smartFolders[kid];
+          });
 
-        } else {
-          // 🛑 Conflicts Exist!
-          console.warn(`[Sync] ${conflictsList.length} conflicts remain. Entering conflict mode.`);
+          const localTombstones = localData.deletedItemIds || [];
+          console.log('[Sync] Debug - Merging Tombstones. Local:', localTombstones.length, 'Remote:', remoteTombstones.length);
 
-          // We have already processed safe files and updated `localData` in memory with safe merges.
-          // We need to construct a "Smart Remote" data object that includes our safe local pushes 
-          // so that if user chooses "Keep Remote" for the conflicted item, they don't lose the safe pushes.
 
-          const smartRemoteData = JSON.parse(JSON.stringify(remoteData));
+          // Merge unique IDs safely
+          localData.deletedItemIds = Array.from(new Set([...localTombstones, ...remoteTombstones]));
+          console.log('[Sync] Debug - Merged Result:', localData.deletedItemIds.length);
+        }
 
-          // Inject safe pushes into smartRemoteData
-          safePushes.forEach(p => {
-            if (conflictsList.find(c => c.id === p.id)) return;
-            if (p.type === 'notebook') {
-              const n = localData.notebooks.find((x: any) => x.id === p.id);
-              if (n) {
-                const cleanN = { ...n, dirty: false };
-                smartRemoteData.notebooks.push(cleanN);
-              }
-            } else if (p.type === 'folder') {
-              const f = localData.folders[p.id];
-              if (f) smartRemoteData.folders[p.id] = { ...f, dirty: false };
-            } else if (p.type === 'page') {
-              const pg = localData.pages[p.id];
-              if (pg) smartRemoteData.pages[p.id] = { ...pg, dirty: false };
-            }
-          });
+        // Now localData implies the "Merged State".
+        // If we pushed anything, we need to upload this new metadata to remote.
+        // If we only pulled, we technically don't need to push metadata, but it doesn't hurt to sync active state.
+
+        // Clean dirty flags again just in case (for the upload)
+        const cleanData = JSON.parse(JSON.stringify(localData));
+        cleanData.notebooks.forEach((n: any) => delete n.dirty);
+        Object.values(cleanData.folders).forEach((f: any) => delete f.dirty);
+        Object.values(cleanData.pages).forEach((p: any) => delete p.dirty);
+        Object.values<Tag>(cleanData.tags).forEach(tag => delete tag.dirty);
+        Object.values<SmartFolder>(cleanData.smartFolders).forEach(sf => delete sf.dirty);
+
+        // Active State Sync logic (Last modifier wins)
+        const localActiveUpdatedAt = fsStore.activeStateUpdatedAt || 0;
+        const remoteActiveUpdatedAt = remoteData.activeStateUpdatedAt || 0;
+
+        if (localActiveUpdatedAt > remoteActiveUpdatedAt) {
+          cleanData.activeNotebookId = fsStore.activeNotebookId;
+          cleanData.activePageId = fsStore.activePageId;
+          cleanData.activePath = fsStore.activePath;
+          cleanData.activeStateUpdatedAt = fsStore.activeStateUpdatedAt;
+          cleanData.activeStateModifier = state.clientId;
+        }
 
+        // PUSH Metadata if we made changes OR if we just want to update active state OR if deletions occurred
+        const hasNewDeletions = (localData.deletedItemIds || []).length > (remoteData.deletedItemIds || []).length;
 
-          console.log('Sets conflict state with partial merge.', { conflictsList });
+        if (safePushes.length > 0 || pageMerges.length > 0 || localActiveUpdatedAt > remoteActiveUpdatedAt || hasNewDeletions) {
+          console.log('[Sync] Pushing updated metadata to server...');
+          const revision = await provider.update(remoteMetaFile.id, JSON.stringify(cleanData));
+          await syncBase.saveMetadata(remoteMetaFile.id, revision, cleanData);
+          console.log('[Sync] Metadata updated on server.');
+        } else if (remoteData !== cachedMeta?.data) {
+          await syncBase.saveMetadata(remoteMetaFile.id, remoteMetaRevision, remoteData);
+        }
 
-          // Commit partial merge to FileSystem so user sees safe updates immediately
-          console.log('[Sync] Committing partial merge to local store...');
-          fsStore.mergeRemoteData(localData);
+        console.log('[Sync] Committing to local store...');
+        // Commit to Local Store
+        fsStore.mergeRemoteData(localData);
+
+        // Newer conflicts on a page replace the ones still waiting for review
+        const pendingConflicts = [
+          ...(get().conflicts || []).filter(c => !pageConflicts.find(pc => pc.pageId === c.pageId)),
+          ...pageConflicts
+        ];
+        if (nextCursor) localStorage.setItem(CHANGE_CURSOR_KEY, nextCursor);
+        set({ lastSync: Date.now(), status: 'idle', conflicts: pendingConflicts.length > 0 ? pendingConflicts : null });
+        console.log('[Sync] Sync process finished successfully.');
+        if (pageConflicts.length > 0) toast.warning('Some shapes were edited on two devices. Please review them.');
+        else if (manual) toast.success('Sync complete');
 
-          set({ status: 'conflict', conflicts: { localData, remoteData: smartRemoteData } });
-          toast.warning('Conflicts detected. Please resolve manually.');
-        }
       } else {
         console.log('📤 [Sync] Initial upload to empty Drive folder...');
 
@@ -678,8 +962,10 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         serverData.notebooks.forEach((n: any) => delete n.dirty);
         Object.values(serverData.folders).forEach((f: any) => delete f.dirty);
         Object.values(serverData.pages).forEach((p: any) => delete p.dirty);
+        Object.values<Tag>(serverData.tags).forEach(tag => delete tag.dirty);
+        Object.values<SmartFolder>(serverData.smartFolders).forEach(sf => delete sf.dirty);
 
-        await googleDrive.createFile('metadata.json', JSON.stringify(serverData), 'application/json', rootId || '');
+        const metaFileId = await provider.create('metadata.json', JSON.stringify(serverData), rootId);
 
         // Initial upload of all pages
         const pageIds = Object.keys(updatedLocalData.pages);
@@ -690,10 +976,11 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 
           if (content) {
             console.log(`  📄 Uploading new page "${updatedLocalData.pages[pageId].name}"...`);
-            await googleDrive.createFile(filename, content, 'application/json', rootId!);
+            updatedLocalData.pages[pageId].driveFileId = await provider.create(filename, content, rootId);
 
             // Mark as clean in our local copy
             updatedLocalData.pages[pageId].dirty = false;
+            await syncBase.save(pageId, updatedLocalData.pages[pageId], content);
           } else {
             console.warn(`[Sync] ⚠️ Could not find content for page ${pageId} (${updatedLocalData.pages[pageId].name}) at ${filename}`);
           }
@@ -702,11 +989,15 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         // Mark all other items as clean in our local copy
         updatedLocalData.notebooks.forEach((n: any) => n.dirty = false);
         Object.values(updatedLocalData.folders).forEach((f: any) => f.dirty = false);
+        Object.values<Tag>(updatedLocalData.tags).forEach(tag => tag.dirty = false);
+        Object.values<SmartFolder>(updatedLocalData.smartFolders).forEach(sf => sf.dirty = false);
 
         // Save clean state locally
         fsStore.mergeRemoteData(updatedLocalData);
+        await syncBase.saveMetadata(metaFileId, null, serverData);
 
         console.log('✅ [Sync] Initial upload complete');
+        if (nextCursor) localStorage.setItem(CHANGE_CURSOR_KEY, nextCursor);
         set({ lastSync: Date.now(), status: 'idle' });
         if (manual) toast.success('Sync complete');
       }
@@ -726,8 +1017,16 @@ export const useSyncStore = create<SyncState>((set, get) => ({
         return;
       }
 
-      // Token expired?
-      if (err.status === 401 || err.result?.error?.code === 401) {
+      // Encrypted remote we can't read: wait for the passphrase instead of retrying
+      if (err.code === 'locked' || err.code === 'wrong-passphrase') {
+        if (err.code === 'wrong-passphrase') syncCrypto.clearKey();
+        set({ status: 'error', error: err.message, encryption: 'locked' });
+        toast.error(err.message);
+        return;
+      }
+
+      // Token expired? (Drive sessions can be refreshed silently)
+      if (state.providerId === 'google-drive' && (err.status === 401 || err.result?.error?.code === 401)) {
         console.warn('🔑 Token expired during sync. Attempting silent refresh...');
         googleDrive.authenticateSilent();
         set({ status: 'idle' });
@@ -739,168 +1038,142 @@ export const useSyncStore = create<SyncState>((set, get) => ({
     }
   },
 
-  resolveConflict: async (resolution) => {
-    const { conflicts, rootFolderId } = get();
-    if (!conflicts || !rootFolderId) return;
-
-    set({ status: 'syncing' });
-    const fsStore = useFileSystemStore.getState();
+  resolveConflict: async (pageId, resolution) => {
+    const pageConflict = get().conflicts?.find(c => c.pageId === pageId);
+    if (!pageConflict) return;
 
     try {
-      if (resolution === 'local') {
-        const { localData, remoteData } = conflicts;
-
-        // 1. Prepare winner data surgically
-        const updatedNotebooks = localData.notebooks.map((n: any) => {
-          const r = remoteData.notebooks.find((rn: any) => rn.id === n.id);
-          const isDirty = n.dirty;
-
-          if (r && r.version > n.version) {
-            if (isDirty) {
-              // CONFLICT: We both changed. We win -> Force version hike
-              return { ...n, version: r.version + 1, dirty: false, lastModifier: get().clientId };
-            } else {
-              // SAFE PULL: We didn't change this. Accept remote.
-              return { ...r, dirty: false };
-            }
-          }
-          return { ...n, dirty: false, lastModifier: get().clientId };
-        });
-
-        // Folders
-        const updatedFolders: Record<string, any> = {};
-        const folderIds = new Set([...Object.keys(localData.folders), ...Object.keys(remoteData.folders)]);
-        for (const id of folderIds) {
-          const l = localData.folders[id];
-          const r = remoteData.folders[id];
-          if (l && r && r.version > l.version) {
-            if (l.dirty) updatedFolders[id] = { ...l, version: r.version + 1, dirty: false, lastModifier: get().clientId };
-            else updatedFolders[id] = { ...r, dirty: false };
-          } else if (l) {
-            updatedFolders[id] = { ...l, dirty: false, lastModifier: get().clientId };
-          } else if (r) {
-            updatedFolders[id] = { ...r, dirty: false };
-          }
-        }
-
-        const updatedPages: Record<string, any> = {};
-        const pagesToDownload: string[] = [];
-
-        const pageIds = new Set([...Object.keys(localData.pages), ...Object.keys(remoteData.pages)]);
-        for (const id of pageIds) {
-          const p = localData.pages[id];
-          const r = remoteData.pages[id];
-
-          if (p && r && r.version > p.version) {
-            if (p.dirty) {
-              // We win
-              updatedPages[id] = { ...p, version: r.version + 1, dirty: false, lastModifier: get().clientId };
-            } else {
-              // They win, we accept
-              updatedPages[id] = { ...r, dirty: false };
-              pagesToDownload.push(id);
-            }
-          } else if (p) {
-            updatedPages[id] = { ...p, dirty: false, lastModifier: get().clientId };
-          } else if (r) {
-            // New page from remote
-            updatedPages[id] = { ...r, dirty: false };
-            pagesToDownload.push(id);
-          }
-        }
+      // 'merged' keeps the automatic result, otherwise one side takes every conflicting shape
+      if (resolution !== 'merged') {
+        const fsStore = useFileSystemStore.getState();
+        if (fsStore.activePageId === pageId) await fsStore.forceSaveActivePage?.();
+        const current = parseSnapshot(await opfs.loadFile(`page-${pageId}.tldr`));
+        const resolved = applyConflictSide(current, pageConflict.conflicts, resolution);
+        await fsStore.replacePageContent(pageId, JSON.stringify(resolved));
+        console.log(`[Sync] Conflict Resolution: kept ${resolution} shapes for page ${pageId}`);
+      }
 
-        const validMeta = {
-          ...localData,
-          notebooks: updatedNotebooks,
-          folders: updatedFolders,
-          pages: updatedPages
-        };
+      const remaining = (get().conflicts || []).filter(c => c.pageId !== pageId);
+      set({ conflicts: remaining.length > 0 ? remaining : null });
+    } catch (err: any) {
+      toast.error('Failed to resolve conflict: ' + err.message);
+    }
+  },
 
-        // 2. Download content for pages we accepted from remote
-        for (const pageId of pagesToDownload) {
-          let driveFile = await googleDrive.findFileByName(`page-${pageId}.tldr`, rootFolderId);
-          if (!driveFile) driveFile = await googleDrive.findFileByName(`${pageId}.json`, rootFolderId);
-          if (driveFile) {
-            // @ts-ignore
-            const contentResponse = await gapi.client.drive.files.get({ fileId: driveFile.id, alt: 'media' });
-            const content = typeof contentResponse.body === 'string' ? contentResponse.body : JSON.stringify(contentResponse.result);
-            await opfs.saveFile(`page-${pageId}.tldr`, content);
-            console.log(`[Sync] Conflict Resolution: Downloaded remote page ${pageId}`);
-          }
-        }
+  enableEncryption: async (passphrase) => {
+    const { providerId, rootFolderId, status } = get();
+    if (!rootFolderId || status !== 'idle') return false;
+    const provider = syncProviders[providerId];
 
-        // 3. Upload Metadata
-        const remoteMetaFile = await googleDrive.findFileByName('metadata.json', rootFolderId);
-        if (remoteMetaFile) {
-          await googleDrive.updateFile(remoteMetaFile.id, JSON.stringify(validMeta));
+    set({ status: 'syncing' });
+    try {
+      // Written first so other devices ask for the passphrase instead of reading half-encrypted data.
+      // If a previous attempt left a key file, the passphrase must match it and the run resumes.
+      const existing = await loadKeyFile(provider, rootFolderId);
+      let key: CryptoKey | null;
+      if (existing) {
+        key = await syncCrypto.unlock(passphrase, existing.keyFile);
+        if (!key) {
+          set({ status: 'idle' });
+          toast.error('Encryption was already enabled with a different passphrase.');
+          return false;
         }
+      } else {
+        const created = await syncCrypto.createKeyFile(passphrase);
+        key = created.key;
+        await provider.create(KEY_FILE, JSON.stringify(created.keyFile), rootFolderId);
+      }
 
-        // 4. Upload Content for pages we kept locally (and were dirty)
-        for (const pageId in updatedPages) {
-          if (localData.pages[pageId]?.dirty) {
-            const content = await opfs.loadFile(`page-${pageId}.tldr`);
-            if (content) {
-              let existing = await googleDrive.findFileByName(`page-${pageId}.tldr`, rootFolderId);
-              if (!existing) existing = await googleDrive.findFileByName(`${pageId}.json`, rootFolderId);
-
-              if (existing) await googleDrive.updateFile(existing.id, content);
-              else await googleDrive.createFile(`page-${pageId}.tldr`, content, 'application/json', rootFolderId);
-
-              console.log(`[Sync] Conflict Resolution: Uploaded local page ${pageId}`);
-            }
-          }
-        }
+      await reencryptRemote(provider, rootFolderId, null, key);
+      await syncCrypto.saveKey(key);
+      set({ status: 'idle', encryption: 'on', error: null });
+      toast.success('Synced notebooks are now encrypted');
+      return true;
+    } catch (err) {
+      console.error('[Sync] Failed to enable encryption', err);
+      set({ status: 'idle' });
+      toast.error('Could not enable encryption: ' + ((err as Error).message || 'Network error'));
+      return false;
+    }
+  },
 
-        // 5. Update Local Store
-        fsStore.mergeRemoteData(validMeta);
-        fsStore.clearDirtyFlags();
+  unlockEncryption: async (passphrase) => {
+    const { providerId, rootFolderId } = get();
+    if (!rootFolderId) return false;
 
-      } else {
-        // Use Remote (Discard local changes)
-        console.log('[Sync] Resolving using REMOTE version.');
-
-        // 1. Download all pages first (so disk has new content)
-        for (const pageId in conflicts.remoteData.pages) {
-          // Try .tldr first, then .json
-          let driveFile = await googleDrive.findFileByName(`page-${pageId}.tldr`, rootFolderId);
-          if (!driveFile) driveFile = await googleDrive.findFileByName(`${pageId}.json`, rootFolderId);
-
-          if (driveFile) {
-            // @ts-ignore
-            const contentResponse = await gapi.client.drive.files.get({ fileId: driveFile.id, alt: 'media' });
-            const content = typeof contentResponse.body === 'string' ? contentResponse.body : JSON.stringify(contentResponse.result);
-            // Always save as .tldr locally
-            await opfs.saveFile(`page-${pageId}.tldr`, content);
-            console.log(`[Sync] Downloaded remote content for page ${pageId}`);
-          }
-        }
+    try {
+      const existing = await loadKeyFile(syncProviders[providerId], rootFolderId);
+      if (!existing) {
+        toast.error('No encryption key found in the synced folder.');
+        return false;
+      }
+      const key = await syncCrypto.unlock(passphrase, existing.keyFile);
+      if (!key) {
+        toast.error('Wrong passphrase');
+        return false;
+      }
+      await syncCrypto.saveKey(key);
+      set({ status: 'idle', encryption: 'on', error: null });
+      get().sync(true);
+      return true;
+    } catch (err) {
+      console.error('[Sync] Failed to unlock encryption', err);
+      toast.error('Could not unlock: ' + ((err as Error).message || 'Network error'));
+      return false;
+    }
+  },
 
-        // 2. Update Local Store (Triggers UI Reload)
-        fsStore.mergeRemoteData(conflicts.remoteData);
+  changePassphrase: async (current, next) => {
+    const { providerId, rootFolderId, status } = get();
+    if (!rootFolderId || status !== 'idle') return false;
+    const provider = syncProviders[providerId];
 
-        // Force save metadata to disk
-        fsStore.save();
+    set({ status: 'syncing' });
+    try {
+      const existing = await loadKeyFile(provider, rootFolderId);
+      const oldKey = existing && await syncCrypto.unlock(current, existing.keyFile);
+      if (!existing || !oldKey) {
+        set({ status: 'idle' });
+        toast.error('Wrong passphrase');
+        return false;
       }
 
-      set({ status: 'idle', conflicts: null, lastSync: Date.now() });
-      toast.success('Conflict resolved');
-    } catch (err: any) {
-      toast.error('Failed to resolve conflict: ' + err.message);
-      set({ status: 'error' });
+      // Same salt: repeating an interrupted change with the same passphrase yields the same key
+      const { key, keyFile } = await syncCrypto.createKeyFile(next, existing.keyFile.salt);
+      await reencryptRemote(provider, rootFolderId, oldKey, key);
+      await provider.update(existing.id, JSON.stringify(keyFile));
+      await syncCrypto.saveKey(key);
+      set({ status: 'idle' });
+      toast.success('Passphrase changed');
+      return true;
+    } catch (err) {
+      console.error('[Sync] Failed to change passphrase', err);
+      set({ status: 'idle' });
+      toast.error('Could not change passphrase: ' + ((err as Error).message || 'Network error'));
+      return false;
     }
   },
 
   logout: async (deleteData = false) => {
-    if (deleteData && get().rootFolderId) {
+    const { providerId, rootFolderId } = get();
+    if (deleteData && rootFolderId) {
       try {
-        await googleDrive.deleteFile(get().rootFolderId!);
-        toast.success('Data deleted from Google Drive');
+        await syncProviders[providerId].delete(rootFolderId);
+        toast.success('Remote data deleted');
       } catch (e) {
-        toast.error('Could not delete data from Drive');
+        toast.error('Could not delete remote data');
       }
     }
-    await googleDrive.signOut();
-    set({ isConfigured: false, rootFolderId: null, isEnabled: false, user: null, expiresAt: null });
+    if (providerId === 'google-drive') await googleDrive.signOut();
+    webdavProvider.configure(null);
+    // Cached file IDs and the change feed belong to the storage we are leaving
+    useFileSystemStore.getState().clearDriveFileIds();
+    await syncBase.clearMetadata();
+    localStorage.removeItem(CHANGE_CURSOR_KEY);
+    syncCrypto.clearKey();
+    set({ isConfigured: false, rootFolderId: null, isEnabled: false, user: null, expiresAt: null, providerId: 'google-drive', encryption: 'off', needsPassword: false });
+    localStorage.removeItem('cuaderno-sync-provider');
+    localStorage.removeItem(WEBDAV_CONFIG_KEY);
     localStorage.removeItem('cuaderno-drive-root-id');
     localStorage.removeItem('cuaderno-drive-token');
     localStorage.removeItem('cuaderno-drive-expires-at');
@@ -910,8 +1183,8 @@ export const useSyncStore = create<SyncState>((set, get) => ({
   },
 
   checkTokenValidity: async () => {
-    const { expiresAt, isConfigured } = get();
-    if (!isConfigured) return;
+    const { expiresAt, isConfigured, providerId } = get();
+    if (!isConfigured || providerId !== 'google-drive') return;
 
     // If we are configured but have no expiresAt, it's a stale or incomplete session
     if (!expiresAt) {
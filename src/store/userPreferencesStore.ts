@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { MIN_PRESSURE, PALM_CONTACT_SIZE, PALM_REJECTION_DELAY, PRESSURE_CURVE } from '../lib/penInput';
+import type { TouchGestureAction } from '../lib/penInput';
 
 interface UserPreferencesState {
   // Text Styles
@@ -18,6 +20,16 @@ interface UserPreferencesState {
   drawOpacity: string;
   drawDash: string;
 
+  // Custom colors (light-dark() values) shown after the named ones
+  customPalette: string[];
+
+  // Highlighter Tool Styles
+  highlightColor: string;
+  highlightSize: string;
+
+  // Sticky notes
+  noteColor: string;
+
   // Shape Tool Styles (geo, arrow, line)
   shapeColor: string;
   shapeSize: string;
@@ -34,6 +46,22 @@ interface UserPreferencesState {
   lastUsedGeo: string;
   lastActiveTool: string;
 
+  // Lasso selects shapes that only partially fall inside it
+  lassoPartial: boolean;
+  eraserSize: string;
+
+  // Holding the pen still at the end of a stroke snaps it to a clean shape
+  shapeRecognition: boolean;
+
+  // Pen input
+  pressureCurve: number;
+  minPressure: number;
+  palmRejection: boolean;
+  palmContactSize: number;
+  palmRejectionDelay: number;
+  twoFingerTap: TouchGestureAction;
+  twoFingerDoubleTap: TouchGestureAction;
+
   // Actions
   updatePreferences: (prefs: Partial<UserPreferencesState>) => void;
 }
@@ -56,6 +84,13 @@ export const useUserPreferencesStore = create<UserPreferencesState>()(
       drawOpacity: '1',
       drawDash: 'solid',
 
+      customPalette: [],
+
+      highlightColor: 'yellow',
+      highlightSize: 'l',
+
+      noteColor: 'yellow',
+
       shapeColor: 'black',
       shapeSize: 'm',
       shapeOpacity: '1',
@@ -71,6 +106,18 @@ export const useUserPreferencesStore = create<UserPreferencesState>()(
       lastUsedGeo: 'rectangle',
       lastActiveTool: 'draw', // Default to draw (Pencil)
 
+      lassoPartial: false,
+      eraserSize: 'm',
+      shapeRecognition: false,
+
+      pressureCurve: PRESSURE_CURVE.default,
+      minPressure: MIN_PRESSURE.default,
+      palmRejection: false,
+      palmContactSize: PALM_CONTACT_SIZE.default,
+      palmRejectionDelay: PALM_REJECTION_DELAY.default,
+      twoFingerTap: 'none',
+      twoFingerDoubleTap: 'none',
+
       updatePreferences: (prefs) => set((state) => ({ ...state, ...prefs })),
     }),
     {
@@ -1,8 +1,16 @@
 import { StyleProp, T } from 'tldraw';
+import { isCustomColor } from '../lib/customColors';
 
-export const FillColorStyle = StyleProp.defineEnum('cuaderno:fillColor', {
+const FILL_COLORS = ['black', 'grey', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'violet'];
+
+// Named colors, or a custom palette color (see lib/customColors)
+export const FillColorStyle = StyleProp.define('cuaderno:fillColor', {
   defaultValue: 'black',
-  values: ['black', 'grey', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'violet'],
+  type: T.string.check(value => {
+    if (!FILL_COLORS.includes(value) && !isCustomColor(value)) {
+      throw new T.ValidationError(`Expected a fill color, got ${value}`);
+    }
+  }),
 });
 
 // Using T.any to be as permissive as possible and avoid validation crashes
@@ -17,3 +25,7 @@ export const StrokeOpacityStyle = StyleProp.define('cuaderno:strokeOpacity', {
   type: T.any,
 });
 
+
+// Shape props types don't list our styles, read the stroke opacity off any shape
+export const getStrokeOpacity = (props: object): string =>
+  (props as Record<string, string | undefined>)[StrokeOpacityStyle.id] || '1';
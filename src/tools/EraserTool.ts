@@ -0,0 +1,194 @@
+import {
+  StateNode,
+  atom,
+  Box,
+  Vec,
+  STROKE_SIZES,
+  createShapeId,
+  getIndicesBetween,
+} from 'tldraw';
+import type { Editor, TLDrawShape, TLDrawShapeSegment, TLHighlightShape, VecModel } from 'tldraw';
+import { useUserPreferencesStore } from '../store/userPreferencesStore';
+import { getHighlightWidth } from '../shapes/highlightPath';
+
+// Freehand shapes, both store their points as draw segments
+type ErasableShape = TLDrawShape | TLHighlightShape;
+
+const ERASABLE_TYPES = ['draw', 'highlight'];
+
+// Eraser diameter is this many times the stroke width of the same size
+const ERASER_SCALE = 4;
+
+export const getEraserRadius = (size: string) =>
+  ((STROKE_SIZES as Record<string, number>)[size] ?? STROKE_SIZES.m) * ERASER_SCALE / 2;
+
+const getStrokePoints = (segments: TLDrawShapeSegment[]) => segments.flatMap(segment => segment.points);
+
+// Fills gaps between points (fast strokes, straight segments) so the eraser can't slip between them
+const densify = (points: VecModel[], step: number) => {
+  const result: VecModel[] = [];
+  points.forEach((point, i) => {
+    const prev = points[i - 1];
+    if (prev) {
+      const steps = Math.floor(Vec.Dist(prev, point) / step);
+      for (let s = 1; s < steps; s++) {
+        const t = s / steps;
+        const { x, y } = Vec.Lrp(prev, point, t);
+        // Pressure is interpolated too, so the cut ends keep their thickness
+        const z = prev.z !== undefined && point.z !== undefined ? prev.z + (point.z - prev.z) * t : point.z;
+        result.push({ x, y, z });
+      }
+    }
+    result.push(point);
+  });
+  return result;
+};
+
+const distanceToSegment = (a: VecModel, b: VecModel, point: VecModel) =>
+  Vec.Equals(a, b) ? Vec.Dist(a, point) : Vec.DistanceToLineSegment(a, b, point);
+
+/**
+ * What is left of a stroke after erasing along `a` → `b` (shape space). Every
+ * run of untouched points becomes a piece, null means the eraser missed it.
+ */
+const getStrokeWidth = (shape: ErasableShape) =>
+  shape.type === 'highlight' ? getHighlightWidth(shape) : STROKE_SIZES[shape.props.size] * shape.props.scale;
+
+const splitStroke = (shape: ErasableShape, a: VecModel, b: VecModel, radius: number): VecModel[][] | null => {
+  const reach = radius + (getStrokeWidth(shape) + shape.props.scale) / 2;
+  const points = densify(getStrokePoints(shape.props.segments), Math.max(reach / 2, 1));
+
+  let isHit = false;
+  const pieces: VecModel[][] = [[]];
+  for (const point of points) {
+    if (distanceToSegment(a, b, point) <= reach) {
+      isHit = true;
+      if (pieces[pieces.length - 1].length > 0) pieces.push([]);
+    } else {
+      pieces[pieces.length - 1].push(point);
+    }
+  }
+
+  return isHit ? pieces.filter(piece => piece.length > 1) : null;
+};
+
+const eraseAlong = (editor: Editor, from: VecModel, to: VecModel, radius: number) => {
+  const area = Box.FromPoints([from, to]).expandBy(radius);
+
+  const shapes = editor.getCurrentPageShapes().filter((shape): shape is ErasableShape => {
+    if (!ERASABLE_TYPES.includes(shape.type) || editor.isShapeOrAncestorLocked(shape)) return false;
+    const bounds = editor.getShapePageBounds(shape);
+    return !!bounds && Box.Collides(area, bounds.clone().expandBy(radius));
+  });
+
+  for (const shape of shapes) {
+    const pieces = splitStroke(shape, editor.getPointInShapeSpace(shape, from), editor.getPointInShapeSpace(shape, to), radius);
+    if (!pieces) continue;
+
+    if (pieces.length === 0) {
+      editor.deleteShapes([shape.id]);
+      continue;
+    }
+
+    const toProps = (piece: VecModel[]) => ({
+      ...shape.props,
+      segments: [{ type: 'free' as const, points: piece }],
+      ...(shape.type === 'draw' ? { isClosed: false } : {}),
+    });
+
+    editor.updateShape<ErasableShape>({ id: shape.id, type: shape.type, props: toProps(pieces[0]) });
+    if (pieces.length === 1) continue;
+
+    // The other pieces stay right above the original in the stacking order
+    const siblings = editor.getSortedChildIdsForParent(shape.parentId);
+    const next = siblings[siblings.indexOf(shape.id) + 1];
+    const indices = getIndicesBetween(shape.index, next ? editor.getShape(next)?.index : undefined, pieces.length - 1);
+    editor.createShapes<ErasableShape>(pieces.slice(1).map((piece, i) => ({
+      id: createShapeId(),
+      type: shape.type,
+      parentId: shape.parentId,
+      index: indices[i],
+      x: shape.x,
+      y: shape.y,
+      rotation: shape.rotation,
+      opacity: shape.opacity,
+      meta: shape.meta,
+      props: toProps(piece),
+    })));
+  }
+};
+
+class IdleState extends StateNode {
+  static override id = 'idle';
+
+  override onPointerMove() {
+    (this.parent as EraserTool).cursor.set(this.editor.inputs.currentPagePoint.toJson());
+  }
+
+  override onPointerDown() {
+    this.parent.transition('erasing');
+  }
+
+  override onCancel() {
+    this.editor.setCurrentTool('select');
+  }
+}
+
+class ErasingState extends StateNode {
+  static override id = 'erasing';
+
+  private markId = '';
+  private lastPoint: VecModel = { x: 0, y: 0 };
+
+  override onEnter() {
+    // Everything erased until the pointer lifts is one undo step
+    this.markId = this.editor.markHistoryStoppingPoint('erasing');
+    this.lastPoint = this.editor.inputs.currentPagePoint.toJson();
+    this.erase(this.lastPoint);
+  }
+
+  override onPointerMove() {
+    const point = this.editor.inputs.currentPagePoint.toJson();
+    (this.parent as EraserTool).cursor.set(point);
+    this.erase(point);
+    this.lastPoint = point;
+  }
+
+  override onPointerUp() {
+    this.parent.transition('idle');
+  }
+
+  override onComplete() {
+    this.parent.transition('idle');
+  }
+
+  override onCancel() {
+    this.editor.bailToMark(this.markId);
+    this.parent.transition('idle');
+  }
+
+  private erase(point: VecModel) {
+    const radius = getEraserRadius(useUserPreferencesStore.getState().eraserSize);
+    eraseAlong(this.editor, this.lastPoint, point, radius);
+  }
+}
+
+// Replaces tldraw's eraser, which removes whole shapes, with one that cuts strokes
+export class EraserTool extends StateNode {
+  static override id = 'eraser';
+  static override initial = 'idle';
+  static override children() {
+    return [IdleState, ErasingState];
+  }
+
+  // Page space pointer position, for the overlay that previews the eraser size
+  cursor = atom<VecModel | null>('eraser cursor', null);
+
+  override onEnter() {
+    this.editor.setCursor({ type: 'cross', rotation: 0 });
+  }
+
+  override onExit() {
+    this.cursor.set(null);
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  StateNode,
+  atom,
+  Box,
+  pointInPolygon,
+  polygonIntersectsPolyline,
+} from 'tldraw';
+import type { Editor, TLShapeId, VecModel } from 'tldraw';
+import { useUserPreferencesStore } from '../store/userPreferencesStore';
+
+// Shapes whose geometry is inside the lasso, or merely touching it when `partial` is set
+const getLassoedShapeIds = (editor: Editor, lasso: VecModel[], partial: boolean): TLShapeId[] => {
+  const lassoBounds = Box.FromPoints(lasso);
+  const pageId = editor.getCurrentPageId();
+
+  return editor.getCurrentPageShapes()
+    .filter(shape => shape.parentId === pageId && !editor.isShapeOrAncestorLocked(shape))
+    .filter(shape => {
+      const bounds = editor.getShapePageBounds(shape);
+      if (!bounds || !Box.Collides(lassoBounds, bounds)) return false;
+      if (!partial && !lassoBounds.contains(bounds)) return false;
+
+      const geometry = editor.getShapeGeometry(shape);
+      const vertices = editor.getShapePageTransform(shape).applyToPoints(geometry.vertices);
+      if (vertices.length === 0) return false;
+
+      if (!partial) return vertices.every(point => pointInPolygon(point, lasso));
+      if (vertices.some(point => pointInPolygon(point, lasso))) return true;
+      return polygonIntersectsPolyline(lasso, geometry.isClosed ? [...vertices, vertices[0]] : vertices);
+    })
+    .map(shape => shape.id);
+};
+
+class IdleState extends StateNode {
+  static override id = 'idle';
+
+  override onPointerDown() {
+    this.parent.transition('lassoing');
+  }
+
+  override onCancel() {
+    this.editor.selectNone();
+  }
+}
+
+export class LassoingState extends StateNode {
+  static override id = 'lassoing';
+
+  // Page space, read by the overlay while the lasso is drawn
+  points = atom<VecModel[]>('lasso points', []);
+
+  override onEnter() {
+    this.points.set([this.editor.inputs.currentPagePoint.toJson()]);
+  }
+
+  override onExit() {
+    this.points.set([]);
+  }
+
+  override onPointerMove() {
+    const point = this.editor.inputs.currentPagePoint.toJson();
+    this.points.update(points => [...points, point]);
+  }
+
+  override onPointerUp() {
+    this.complete();
+  }
+
+  override onComplete() {
+    this.complete();
+  }
+
+  override onCancel() {
+    this.parent.transition('idle');
+  }
+
+  private complete() {
+    const lasso = this.points.get();
+    // A tap clears the selection, like it does with the select tool
+    const ids = lasso.length > 2
+      ? getLassoedShapeIds(this.editor, lasso, useUserPreferencesStore.getState().lassoPartial)
+      : [];
+
+    const additive = this.editor.inputs.shiftKey;
+    const selected = additive ? [...new Set([...this.editor.getSelectedShapeIds(), ...ids])] : ids;
+    this.editor.setSelectedShapes(selected);
+
+    // Hand the selection over to the select tool so it can be moved, resized or deleted right away
+    if (selected.length > 0) this.editor.setCurrentTool('select');
+    else this.parent.transition('idle');
+  }
+}
+
+export class LassoSelectTool extends StateNode {
+  static override id = 'lasso';
+  static override initial = 'idle';
+  static override children() {
+    return [IdleState, LassoingState];
+  }
+}
@@ -0,0 +1,11 @@
+import { LassoSelectTool } from './LassoSelectTool';
+import { EraserTool } from './EraserTool';
+
+export { LassoingState } from './LassoSelectTool';
+export { EraserTool, getEraserRadius } from './EraserTool';
+
+// Tools sharing an id with a tldraw default (eraser) replace it
+export const customTools = [
+  LassoSelectTool,
+  EraserTool
+];
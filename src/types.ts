@@ -11,6 +11,9 @@ export interface Notebook {
   isPlaceholder?: boolean; // True if created as default onboarding content
   lastModifier: string;
   driveFileId?: string;
+  trashedAt?: number; // Set while the node sits in the Trash (synced like any other field)
+  defaultTemplate?: PageTemplate; // Background given to new pages of this notebook
+  palette?: string[]; // Custom colors shared by everyone editing this notebook (light-dark() values)
 }
 
 export interface Folder {
@@ -27,6 +30,7 @@ export interface Folder {
   isPlaceholder?: boolean;
   lastModifier: string;
   driveFileId?: string;
+  trashedAt?: number; // Set while the node sits in the Trash (synced like any other field)
 }
 
 export interface Page {
@@ -45,6 +49,50 @@ export interface Page {
   isPlaceholder?: boolean;
   lastModifier: string;
   driveFileId?: string;
+  trashedAt?: number; // Set while the node sits in the Trash (synced like any other field)
+  template?: PageTemplate; // Background drawn under the shapes, absent means blank
+  tagIds?: string[]; // Tags the page is filed under, on top of its place in the tree
+  pinnedAt?: number; // Set while the page is pinned to quick access (synced like any other field)
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  nameStrokes?: string; // SVG path data
+  color?: string;
+  createdAt: number;
+  version: number;
+  dirty?: boolean; // True if has local changes not yet synced
+  lastModifier: string;
+}
+
+export interface SmartFolderQuery {
+  tagIds: string[]; // Empty means the tags don't narrow the results
+  tagMatch: 'any' | 'all';
+  dateField: 'createdAt' | 'updatedAt';
+  withinDays?: number; // Only pages whose date field falls in the last N days
+}
+
+// A saved query listing matching pages from every notebook, it doesn't hold pages itself
+export interface SmartFolder {
+  id: string;
+  name: string;
+  nameStrokes?: string; // SVG path data
+  color?: string;
+  query: SmartFolderQuery;
+  createdAt: number;
+  order: number;
+  version: number;
+  dirty?: boolean; // True if has local changes not yet synced
+  lastModifier: string;
+}
+
+export type PageTemplateType = 'none' | 'ruled' | 'grid' | 'dot' | 'cornell' | 'music';
+
+export interface PageTemplate {
+  type: PageTemplateType;
+  spacing: number; // Canvas units between lines, for 'music' the height of one staff
+  color: string;
 }
 
 export type FileSystemNode = Notebook | Folder | Page;
@@ -0,0 +1,47 @@
+import {
+  Editor,
+  createTLStore,
+  defaultShapeUtils,
+  defaultBindingUtils,
+  defaultAddFontsFromNode,
+  tipTapDefaultExtensions,
+} from 'tldraw';
+import type { TLTextOptions } from 'tldraw';
+import { customShapeUtils } from '../shapes';
+
+type TipTapExtensions = NonNullable<TLTextOptions['tipTapConfig']>['extensions'];
+
+// Off-screen editor with the same shapes as the canvas, so every shape renders through its own toSvg
+export const createExportEditor = () => {
+  const container = document.createElement('div');
+  container.style.cssText = 'position: fixed; left: -10000px; top: 0; width: 1000px; height: 1000px; pointer-events: none;';
+  document.body.appendChild(container);
+
+  const shapeUtils = [
+    ...defaultShapeUtils.filter(util => !customShapeUtils.some(custom => custom.type === util.type)),
+    ...customShapeUtils,
+  ];
+  const store = createTLStore({ shapeUtils, bindingUtils: defaultBindingUtils });
+  const editor = new Editor({
+    store,
+    shapeUtils,
+    bindingUtils: defaultBindingUtils,
+    tools: [],
+    getContainer: () => container,
+    // Same defaults <Tldraw> applies, needed by labels and text shapes
+    textOptions: {
+      addFontsFromNode: defaultAddFontsFromNode,
+      // The extensions are typed against another @tiptap/core copy than the editor, they are the same at runtime
+      tipTapConfig: { extensions: tipTapDefaultExtensions as TipTapExtensions },
+    },
+  });
+
+  return {
+    editor,
+    container,
+    dispose: () => {
+      editor.dispose();
+      container.remove();
+    },
+  };
+};
@@ -1,5 +1,6 @@
 
 import { opfs } from '../lib/opfs';
+import { isInTrash } from '../lib/trashUtils';
 import type { Notebook, Folder, Page } from '../types';
 
 export const exportItem = async (
@@ -16,8 +17,9 @@ export const exportItem = async (
   if (type === 'notebook') {
     const notebook = item as Notebook;
     exportData.notebook = notebook;
-    exportData.folders = Object.values(folders).filter(f => f.notebookId === notebook.id);
-    const notebookPages = Object.values(pages).filter(p => p.notebookId === notebook.id);
+    // Trashed contents stay behind
+    exportData.folders = Object.values(folders).filter(f => f.notebookId === notebook.id && !isInTrash(f, [notebook], folders));
+    const notebookPages = Object.values(pages).filter(p => p.notebookId === notebook.id && !isInTrash(p, [notebook], folders));
 
     // Attach content for each page
     const pagesWithContent = await Promise.all(notebookPages.map(async p => {
@@ -34,8 +36,8 @@ export const exportItem = async (
     const descendantPages: any[] = [];
 
     const findDescendants = async (fid: string) => {
-      const subfolders = Object.values(folders).filter(f => f.parentId === fid);
-      const subpages = Object.values(pages).filter(p => p.parentId === fid);
+      const subfolders = Object.values(folders).filter(f => f.parentId === fid && !f.trashedAt);
+      const subpages = Object.values(pages).filter(p => p.parentId === fid && !p.trashedAt);
 
       descendantFolders.push(...subfolders);
 
@@ -0,0 +1,183 @@
+import { Box } from 'tldraw';
+import type { TLShapeId } from 'tldraw';
+import type { jsPDF, OutlineItem } from 'jspdf';
+import i18n from '../i18n';
+import { opfs } from '../lib/opfs';
+import { addTemplateToSvg } from '../lib/pageTemplates';
+import { resolveCustomColors } from '../lib/customColors';
+import { createExportEditor } from './exportEditor';
+import type { Notebook, Folder, Page } from '../types';
+
+export type PdfLayout = 'fit' | 'tile';
+export type PdfPaper = 'a4' | 'letter';
+
+export interface PdfExportOptions {
+  layout: PdfLayout; // 'fit': one sheet per page, 'tile': real size across as many sheets as needed
+  paper: PdfPaper;
+  outline: boolean; // Bookmarks mirroring the folder tree
+}
+
+// Portrait sizes in PDF points (1/72 in)
+const PAPER_SIZES: Record<PdfPaper, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+const MARGIN = 36;
+// Canvas units are CSS pixels (1/96 in)
+const PX_TO_PT = 0.75;
+
+interface ExportNode {
+  name: string;
+  page?: Page;
+  children: ExportNode[];
+}
+
+const buildTree = (parentId: string, folders: Record<string, Folder>, pages: Record<string, Page>): ExportNode[] => {
+  const children: (Folder | Page)[] = [
+    ...Object.values(folders).filter(f => f.parentId === parentId && !f.trashedAt),
+    ...Object.values(pages).filter(p => p.parentId === parentId && !p.trashedAt),
+  ].sort((a, b) => (a.order || 0) - (b.order || 0));
+
+  return children.map(child => 'updatedAt' in child
+    ? { name: child.name || i18n.t('untitled_page'), page: child, children: [] }
+    : { name: child.name || i18n.t('untitled_folder'), children: buildTree(child.id, folders, pages) });
+};
+
+const collectPages = (nodes: ExportNode[]): Page[] =>
+  nodes.flatMap(node => node.page ? [node.page] : collectPages(node.children));
+
+const getSheetSize = (paper: PdfPaper, landscape: boolean): [number, number] => {
+  const [w, h] = PAPER_SIZES[paper];
+  return landscape ? [h, w] : [w, h];
+};
+
+export const exportToPdf = async (
+  item: Notebook | Folder | Page,
+  folders: Record<string, Folder>,
+  pages: Record<string, Page>,
+  type: 'notebook' | 'folder' | 'page',
+  options: PdfExportOptions
+) => {
+  // Heavy, only loaded when someone actually exports
+  const { jsPDF } = await import('jspdf');
+  await import('svg2pdf.js');
+
+  const tree = type === 'page'
+    ? [{ name: item.name || i18n.t('untitled_page'), page: item as Page, children: [] }]
+    : buildTree(item.id, folders, pages);
+
+  let doc: jsPDF | null = null;
+  const addSheet = (width: number, height: number) => {
+    const orientation = width > height ? 'landscape' : 'portrait';
+    if (!doc) doc = new jsPDF({ unit: 'pt', format: [width, height], orientation });
+    else doc.addPage([width, height], orientation);
+    return doc;
+  };
+
+  const { editor, container, dispose } = createExportEditor();
+  const firstSheetOf: Record<string, number> = {};
+
+  // svg2pdf resolves styles from the live DOM, so each SVG is attached while it is drawn
+  const drawSvg = async (pdf: jsPDF, svg: SVGSVGElement, x: number, y: number, width: number, height: number) => {
+    container.appendChild(svg);
+    try {
+      await pdf.svg(svg, { x, y, width, height });
+    } finally {
+      svg.remove();
+    }
+  };
+
+  try {
+    for (const page of collectPages(tree)) {
+      const content = await opfs.loadFile(`page-${page.id}.tldr`);
+      if (content && content !== '{}') {
+        editor.loadSnapshot(JSON.parse(content));
+      } else {
+        editor.deleteShapes([...editor.getCurrentPageShapeIds()]);
+      }
+
+      const ids = editor.getCurrentPageShapesSorted().map(shape => shape.id);
+      const bounds = editor.getCurrentPageBounds();
+
+      if (ids.length === 0 || !bounds) {
+        // Blank sheet so the outline still has somewhere to point
+        const [w, h] = getSheetSize(options.paper, false);
+        addSheet(w, h);
+        firstSheetOf[page.id] = doc!.getNumberOfPages();
+        continue;
+      }
+
+      if (options.layout === 'fit') {
+        const result = await editor.getSvgElement(ids, { background: false, darkMode: false, padding: 16 });
+        if (!result) continue;
+        addTemplateToSvg(result.svg, page.template, `template-${page.id}`);
+        resolveCustomColors(result.svg, false);
+        const [w, h] = getSheetSize(options.paper, result.width > result.height);
+        // Scaled down to fit the sheet, small pages keep their real size
+        const scale = Math.min((w - 2 * MARGIN) / result.width, (h - 2 * MARGIN) / result.height, PX_TO_PT);
+        const pdf = addSheet(w, h);
+        firstSheetOf[page.id] = pdf.getNumberOfPages();
+        await drawSvg(pdf, result.svg, (w - result.width * scale) / 2, MARGIN, result.width * scale, result.height * scale);
+        continue;
+      }
+
+      // Tiles: pick the orientation that needs fewer sheets
+      const countSheets = (landscape: boolean) => {
+        const [w, h] = getSheetSize(options.paper, landscape);
+        const tileW = (w - 2 * MARGIN) / PX_TO_PT;
+        const tileH = (h - 2 * MARGIN) / PX_TO_PT;
+        return { w, h, tileW, tileH, cols: Math.ceil(bounds.w / tileW), rows: Math.ceil(bounds.h / tileH) };
+      };
+      const portrait = countSheets(false);
+      const landscape = countSheets(true);
+      const grid = landscape.cols * landscape.rows < portrait.cols * portrait.rows ? landscape : portrait;
+
+      for (let row = 0; row < grid.rows; row++) {
+        for (let col = 0; col < grid.cols; col++) {
+          const tile = new Box(bounds.x + col * grid.tileW, bounds.y + row * grid.tileH, grid.tileW, grid.tileH);
+          const pdf = addSheet(grid.w, grid.h);
+          if (row === 0 && col === 0) firstSheetOf[page.id] = pdf.getNumberOfPages();
+
+          const tileIds = ids.filter((id: TLShapeId) => {
+            const shapeBounds = editor.getShapePageBounds(id);
+            return shapeBounds && Box.Collides(tile, shapeBounds);
+          });
+          if (tileIds.length === 0) continue;
+
+          const result = await editor.getSvgElement(tileIds, { bounds: tile, background: false, darkMode: false, padding: 0 });
+          if (!result) continue;
+          addTemplateToSvg(result.svg, page.template, `template-${page.id}-${row}-${col}`);
+          resolveCustomColors(result.svg, false);
+
+          // Shapes crossing the tile edge continue on the neighbouring sheet
+          pdf.saveGraphicsState();
+          pdf.rect(MARGIN, MARGIN, grid.tileW * PX_TO_PT, grid.tileH * PX_TO_PT, null);
+          pdf.clip();
+          pdf.discardPath();
+          await drawSvg(pdf, result.svg, MARGIN, MARGIN, grid.tileW * PX_TO_PT, grid.tileH * PX_TO_PT);
+          pdf.restoreGraphicsState();
+        }
+      }
+    }
+  } finally {
+    dispose();
+  }
+
+  const pdf = doc as jsPDF | null;
+  if (!pdf) return;
+
+  if (options.outline && type !== 'page') {
+    // Folders jump to their first page, empty ones are left out
+    const addOutline = (nodes: ExportNode[], parent: OutlineItem | null) => {
+      nodes.forEach(node => {
+        const target = node.page ? firstSheetOf[node.page.id] : collectPages(node.children).map(p => firstSheetOf[p.id]).find(Boolean);
+        if (!target) return;
+        const entry = pdf.outline.add(parent, node.name, { pageNumber: target });
+        addOutline(node.children, entry);
+      });
+    };
+    addOutline(tree, null);
+  }
+
+  pdf.save(`${item.name || 'export'}.pdf`);
+};
@@ -0,0 +1,32 @@
+import type { Editor, TLShapeId } from 'tldraw';
+import { addTemplateToSvg } from '../lib/pageTemplates';
+import { resolveCustomColors } from '../lib/customColors';
+import type { PageTemplate } from '../types';
+
+// tldraw's getSvgString, with the page template drawn behind the shapes
+const getSvgString = async (editor: Editor, ids: TLShapeId[], template?: PageTemplate) => {
+  const result = await editor.getSvgElement(ids);
+  if (!result) return null;
+  addTemplateToSvg(result.svg, template, 'page-template');
+  resolveCustomColors(result.svg, editor.user.getIsDarkMode());
+  return new XMLSerializer().serializeToString(result.svg);
+};
+
+export const downloadSvg = async (editor: Editor, ids: TLShapeId[], template: PageTemplate | undefined, name: string) => {
+  const svg = await getSvgString(editor, ids, template);
+  if (!svg) return;
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name || 'export'}.svg`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const copySvg = async (editor: Editor, ids: TLShapeId[], template?: PageTemplate) => {
+  const svg = await getSvgString(editor, ids, template);
+  if (svg) await navigator.clipboard.writeText(svg);
+};
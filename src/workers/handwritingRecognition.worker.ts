@@ -0,0 +1,167 @@
+import { createWorker, OEM, PSM } from 'tesseract.js';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+// Bundled locally so recognition works fully offline (no CDN downloads)
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { InkShape, InkGroup } from '../lib/inkIndex';
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const MIN_CONFIDENCE = 55;
+const PADDING = 24;
+const MAX_CANVAS_SIZE = 4096;
+
+let recognizerPromise: Promise<TesseractWorker> | null = null;
+
+const getRecognizer = () => {
+  if (!recognizerPromise) {
+    recognizerPromise = (async () => {
+      const absolute = (url: string) => new URL(url, self.location.href).href;
+      const trainedData = new Uint8Array(await (await fetch(absolute(engTrainedDataUrl))).arrayBuffer());
+      const recognizer = await createWorker([{ code: 'eng', data: trainedData }], OEM.LSTM_ONLY, {
+        workerPath: absolute(tesseractWorkerUrl),
+        corePath: absolute(tesseractCoreUrl),
+        cacheMethod: 'none',
+      });
+      await recognizer.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return recognizer;
+    })();
+  }
+  return recognizerPromise;
+};
+
+const toPagePoint = (shape: InkShape, p: { x: number; y: number }) => {
+  const cos = Math.cos(shape.rotation);
+  const sin = Math.sin(shape.rotation);
+  return { x: shape.x + p.x * cos - p.y * sin, y: shape.y + p.x * sin + p.y * cos };
+};
+
+const getBox = (shape: InkShape): Box | null => {
+  const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  shape.strokes.forEach(stroke => stroke.forEach(p => {
+    const { x, y } = toPagePoint(shape, p);
+    box.minX = Math.min(box.minX, x);
+    box.minY = Math.min(box.minY, y);
+    box.maxX = Math.max(box.maxX, x);
+    box.maxY = Math.max(box.maxY, y);
+  }));
+  return box.minX === Infinity ? null : box;
+};
+
+// Groups strokes that are close enough to belong to the same word or line of text
+const groupShapes = (shapes: InkShape[]) => {
+  const items = shapes
+    .map(shape => ({ shape, box: getBox(shape) }))
+    .filter((item): item is { shape: InkShape; box: Box } => item.box !== null);
+  if (items.length === 0) return [];
+
+  const heights = items.map(i => Math.max(1, i.box.maxY - i.box.minY)).sort((a, b) => a - b);
+  const lineHeight = heights[Math.floor(heights.length / 2)];
+  const gapX = lineHeight * 0.8;
+  const gapY = lineHeight * 0.25;
+
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i].box;
+      const b = items[j].box;
+      const overlaps = a.minX - gapX <= b.maxX && b.minX - gapX <= a.maxX &&
+        a.minY - gapY <= b.maxY && b.minY - gapY <= a.maxY;
+      if (overlaps) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, typeof items>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), item]);
+  });
+
+  return Array.from(groups.values()).map(group => ({
+    items: group,
+    lineHeight,
+    box: group.reduce((acc, { box }) => ({
+      minX: Math.min(acc.minX, box.minX),
+      minY: Math.min(acc.minY, box.minY),
+      maxX: Math.max(acc.maxX, box.maxX),
+      maxY: Math.max(acc.maxY, box.maxY),
+    }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity } as Box)
+  }));
+};
+
+const rasterize = (items: { shape: InkShape }[], box: Box, lineHeight: number) => {
+  // Tesseract works best with glyphs around 40-60px tall
+  let scale = Math.min(3, Math.max(0.5, 48 / lineHeight));
+  const width = box.maxX - box.minX;
+  const height = box.maxY - box.minY;
+  scale = Math.min(scale, (MAX_CANVAS_SIZE - PADDING * 2) / Math.max(width, height, 1));
+
+  const canvas = new OffscreenCanvas(Math.ceil(width * scale + PADDING * 2), Math.ceil(height * scale + PADDING * 2));
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.strokeStyle = '#000000';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  items.forEach(({ shape }) => {
+    ctx.lineWidth = Math.max(2, shape.strokeWidth * scale);
+    shape.strokes.forEach(stroke => {
+      const points = stroke.map(p => {
+        const { x, y } = toPagePoint(shape, p);
+        return { x: (x - box.minX) * scale + PADDING, y: (y - box.minY) * scale + PADDING };
+      });
+      if (points.length === 0) return;
+      // Single-point strokes (dots) still need a segment to be visible
+      if (points.length === 1) points.push({ x: points[0].x + 0.1, y: points[0].y });
+
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    });
+  });
+
+  return canvas;
+};
+
+const recognize = async (shapes: InkShape[]): Promise<InkGroup[]> => {
+  const recognizer = await getRecognizer();
+  const results: InkGroup[] = [];
+
+  for (const group of groupShapes(shapes)) {
+    const canvas = rasterize(group.items, group.box, group.lineHeight);
+    const { data } = await recognizer.recognize(canvas, {}, { text: true, blocks: true });
+
+    const words = (data.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words)
+      .filter(word => word.confidence >= MIN_CONFIDENCE && /[\p{L}\p{N}]/u.test(word.text))
+      .map(word => word.text.trim());
+
+    if (words.length > 0) {
+      results.push({ shapeIds: group.items.map(i => i.shape.id), text: words.join(' ') });
+    }
+  }
+
+  return results;
+};
+
+self.onmessage = async (e: MessageEvent<{ jobId: number; shapes: InkShape[] }>) => {
+  const { jobId, shapes } = e.data;
+  try {
+    const groups = await recognize(shapes);
+    self.postMessage({ jobId, groups });
+  } catch (err) {
+    self.postMessage({ jobId, error: String(err) });
+  }
+};
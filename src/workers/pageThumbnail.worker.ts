@@ -0,0 +1,124 @@
+import type { ThumbnailItem } from '../lib/pageThumbnails';
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const PADDING = 16;
+const LINE_HEIGHT = 1.25;
+// Text is only measured roughly, the preview is far too small to read it anyway
+const CHAR_WIDTH = 0.55;
+
+const toPagePoint = (item: ThumbnailItem, p: { x: number; y: number }) => {
+  const cos = Math.cos(item.rotation);
+  const sin = Math.sin(item.rotation);
+  return { x: item.x + p.x * cos - p.y * sin, y: item.y + p.x * sin + p.y * cos };
+};
+
+const getLocalPoints = (item: ThumbnailItem) => {
+  if (item.kind === 'path') return (item.paths || []).flat();
+  if (item.kind === 'text') {
+    const fontSize = item.fontSize || 16;
+    const padding = item.padding || 0;
+    const longest = Math.max(0, ...(item.lines || []).map(line => line.length));
+    return [
+      { x: 0, y: 0 },
+      { x: padding * 2 + longest * fontSize * CHAR_WIDTH, y: padding * 2 + (item.lines || []).length * fontSize * LINE_HEIGHT }
+    ];
+  }
+  return [{ x: 0, y: 0 }, { x: item.w || 0, y: 0 }, { x: 0, y: item.h || 0 }, { x: item.w || 0, y: item.h || 0 }];
+};
+
+const getBounds = (items: ThumbnailItem[]): Box | null => {
+  const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  items.forEach(item => {
+    const margin = (item.strokeWidth || 0) / 2;
+    getLocalPoints(item).forEach(p => {
+      const { x, y } = toPagePoint(item, p);
+      box.minX = Math.min(box.minX, x - margin);
+      box.minY = Math.min(box.minY, y - margin);
+      box.maxX = Math.max(box.maxX, x + margin);
+      box.maxY = Math.max(box.maxY, y + margin);
+    });
+  });
+  return box.minX === Infinity ? null : box;
+};
+
+const drawItem = (ctx: OffscreenCanvasRenderingContext2D, item: ThumbnailItem) => {
+  ctx.save();
+  ctx.translate(item.x, item.y);
+  ctx.rotate(item.rotation);
+  ctx.globalAlpha = item.opacity;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (item.stroke) ctx.strokeStyle = item.stroke;
+  if (item.fill) ctx.fillStyle = item.fill;
+  ctx.lineWidth = item.strokeWidth || 1;
+
+  if (item.kind === 'text') {
+    const fontSize = item.fontSize || 16;
+    const padding = item.padding || 0;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    (item.lines || []).forEach((line, i) => ctx.fillText(line, padding, padding + i * fontSize * LINE_HEIGHT));
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+  if (item.kind === 'path') {
+    (item.paths || []).forEach(points => {
+      if (points.length === 0) return;
+      ctx.moveTo(points[0].x, points[0].y);
+      // A single point is a dot, give it some length so the round cap shows
+      if (points.length === 1) ctx.lineTo(points[0].x + 0.01, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      if (item.closed) ctx.closePath();
+    });
+  } else if (item.kind === 'ellipse') {
+    const w = item.w || 0;
+    const h = item.h || 0;
+    ctx.ellipse(w / 2, h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.rect(0, 0, item.w || 0, item.h || 0);
+  }
+
+  if (item.fill) ctx.fill();
+  if (item.stroke) ctx.stroke();
+  ctx.restore();
+};
+
+// Fits every item in the thumbnail, on white paper, never scaling small pages up
+const render = async (items: ThumbnailItem[], width: number, height: number) => {
+  const bounds = getBounds(items);
+  if (!bounds) return null;
+
+  const contentWidth = bounds.maxX - bounds.minX + PADDING * 2;
+  const contentHeight = bounds.maxY - bounds.minY + PADDING * 2;
+  const scale = Math.min(width / contentWidth, height / contentHeight, 1);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.translate((width - contentWidth * scale) / 2, (height - contentHeight * scale) / 2);
+  ctx.scale(scale, scale);
+  ctx.translate(PADDING - bounds.minX, PADDING - bounds.minY);
+  items.forEach(item => drawItem(ctx, item));
+
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+self.onmessage = async (e: MessageEvent<{ jobId: number; items: ThumbnailItem[]; width: number; height: number }>) => {
+  const { jobId, items, width, height } = e.data;
+  try {
+    const blob = await render(items, width, height);
+    self.postMessage({ jobId, blob });
+  } catch (err) {
+    self.postMessage({ jobId, error: String(err) });
+  }
+};